@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+
+Object.assign(process.env, {
+  AUTH_PROVIDER: "local",
+  LOCAL_AUTH_USERS: "reader@example.com:secret,writer@example.com:secret",
+  SUPABASE_JWT_SECRET: "test-secret-test-secret-test-secret",
+  RATE_LIMIT_STORE: "memory",
+});
+
+const { POST } = await import("./route");
+
+function login(email: string, password: string): Promise<Response> {
+  return POST(
+    new Request("http://localhost/api/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ email, password }),
+    })
+  );
+}
+
+describe("POST /api/auth/login", () => {
+  it("limits failed attempts per account, so that they do not block other accounts", async () => {
+    for (let i = 0; i < 10; i++) expect((await login("reader@example.com", "wrong")).status).toBe(401);
+    expect((await login("Reader@Example.com ", "secret")).status).toBe(429);
+
+    const res = await login("writer@example.com", "secret");
+    expect(res.status).toBe(200);
+    expect((await res.json()).user.email).toBe("writer@example.com");
+  });
+});
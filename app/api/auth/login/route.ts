@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { clientIp } from "@/lib/access";
+import { getAuthProvider, setSessionCookies } from "@/lib/auth";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError } from "@/lib/errors";
+import { checkRateLimit } from "@/lib/rateLimit";
+
+const LOGIN_ATTEMPTS_PER_WINDOW = 10;
+
+/**
+ * Signs in with email and password. The session is set as an httpOnly cookie
+ * for the page; programs can use the returned access_token as a bearer token.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as { email?: unknown; password?: unknown };
+    if (typeof body?.email !== "string" || typeof body?.password !== "string" || !body.email.trim()) {
+      throw new AppError("INVALID_REQUEST", { message: "Paramètres email et password requis" });
+    }
+
+    // Per account as well as per IP: without trusted proxies every caller has the same IP,
+    // and failed attempts on one account must not block the others.
+    const account = body.email.trim().toLowerCase();
+    const limit = await checkRateLimit(`login:${clientIp(req)}:${account}`, LOGIN_ATTEMPTS_PER_WINDOW);
+    if (!limit.ok) throw new AppError("RATE_LIMITED", { retryAfterSeconds: limit.retryAfterSeconds });
+
+    const tokens = await getAuthProvider().signIn(body.email, body.password);
+    const res = NextResponse.json({
+      user: tokens.user,
+      access_token: tokens.accessToken,
+      expires_at: tokens.expiresAt,
+    });
+    setSessionCookies(res, tokens);
+    return res;
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
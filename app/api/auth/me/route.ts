@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth";
+import { errorResponse } from "@/lib/errorResponse";
+import { listWorkspaces } from "@/lib/workspaces";
+
+/** The signed-in user and the workspaces they belong to. */
+export async function GET(req: Request) {
+  try {
+    const session = await requireSession(req);
+    return NextResponse.json({ user: session.user, workspaces: await listWorkspaces(session) });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { getAuthProvider, readCookie, REFRESH_COOKIE, setSessionCookies } from "@/lib/auth";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError } from "@/lib/errors";
+
+/** Exchanges the refresh cookie for a new session once the access token has expired. */
+export async function POST(req: Request) {
+  try {
+    const refreshToken = readCookie(req, REFRESH_COOKIE);
+    if (!refreshToken) throw new AppError("UNAUTHORIZED", { details: { reason: "not_signed_in" } });
+    const tokens = await getAuthProvider().refresh(refreshToken);
+    const res = NextResponse.json({ user: tokens.user, expires_at: tokens.expiresAt });
+    setSessionCookies(res, tokens);
+    return res;
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
@@ -0,0 +1,54 @@
+import { authenticateRequest } from "@/lib/access";
+import type { Session } from "@/lib/auth";
+import { getBatch, type Batch, type BatchItem } from "@/lib/batches";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError, localeFromRequest } from "@/lib/errors";
+import { isUuid } from "@/lib/ids";
+import { sseResponse } from "@/lib/sse";
+
+const POLL_INTERVAL_MS = 1000;
+/** Clients reconnect after this; the batch goes on regardless. */
+const MAX_STREAM_MS = 5 * 60 * 1000;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function itemKey(item: BatchItem): string {
+  return `${item.status}:${item.attempts}`;
+}
+
+/**
+ * Server-Sent Events for a batch: `batch` with the current state, then `item`
+ * each time an item changes, and `done` with the final state.
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  let first: Batch;
+  let session: Session;
+  try {
+    const { id } = await params;
+    if (!isUuid(id)) throw new AppError("NOT_FOUND");
+    session = await authenticateRequest(req);
+    first = await getBatch(session, id);
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+
+  const seen = new Map(first.items.map((item) => [item.position, itemKey(item)]));
+  const deadline = Date.now() + MAX_STREAM_MS;
+  return sseResponse(
+    async (send) => {
+      send("batch", first);
+      let batch = first;
+      while (batch.status !== "done" && Date.now() < deadline && !req.signal.aborted) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        batch = await getBatch(session, batch.id);
+        for (const item of batch.items) {
+          if (seen.get(item.position) === itemKey(item)) continue;
+          seen.set(item.position, itemKey(item));
+          send("item", item);
+        }
+      }
+      if (batch.status === "done") send("done", batch);
+    },
+    { locale: localeFromRequest(req) }
+  );
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/access";
+import { getBatch } from "@/lib/batches";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError } from "@/lib/errors";
+import { isUuid } from "@/lib/ids";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** Status of a batch and of each of its items, with their summaries once done. */
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!isUuid(id)) throw new AppError("NOT_FOUND");
+    const session = await authenticateRequest(req);
+    return NextResponse.json(await getBatch(session, id));
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import { authorizeRequest, type Client } from "@/lib/access";
+import { createBatch, enqueueBatch, MAX_BATCH_ITEMS, type NewBatch } from "@/lib/batches";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError } from "@/lib/errors";
+import { discoverFeedUrls, discoverSitemapUrls } from "@/lib/feeds";
+import { isUuid } from "@/lib/ids";
+import { parseSummaryOptions } from "@/lib/summaryOptions";
+import { assertWorkspaceMember } from "@/lib/workspaces";
+
+/** Articles taken from a feed or sitemap when `limit` is not given. */
+const DEFAULT_DISCOVERY_LIMIT = 20;
+
+type BatchBody = {
+  urls?: unknown;
+  feed?: unknown;
+  sitemap?: unknown;
+  limit?: unknown;
+  options?: unknown;
+  workspace_id?: unknown;
+  force?: unknown;
+};
+
+function invalid(message: string): AppError {
+  return new AppError("INVALID_REQUEST", { message });
+}
+
+function httpUrl(input: unknown, name: string): string {
+  try {
+    const parsed = new URL(typeof input === "string" ? input.trim() : "");
+    if (/^https?:$/.test(parsed.protocol)) return parsed.toString();
+  } catch {}
+  throw new AppError("INVALID_URL", { message: `URL invalide (${name})`, details: { value: String(input) } });
+}
+
+async function parseBatch(body: BatchBody): Promise<NewBatch> {
+  const sources = (["urls", "feed", "sitemap"] as const).filter((key) => body[key] !== undefined);
+  if (sources.length !== 1) throw invalid("Indiquez exactement un des paramètres urls, feed ou sitemap");
+
+  const options = parseSummaryOptions(body.options);
+  if (!options.ok) throw invalid(options.error);
+
+  let workspaceId: string | null = null;
+  if (body.workspace_id !== undefined && body.workspace_id !== null && body.workspace_id !== "") {
+    if (!isUuid(body.workspace_id)) throw invalid("Paramètre workspace_id invalide");
+    workspaceId = body.workspace_id;
+  }
+
+  let limit = DEFAULT_DISCOVERY_LIMIT;
+  if (body.limit !== undefined) {
+    if (!Number.isInteger(body.limit) || (body.limit as number) < 1 || (body.limit as number) > MAX_BATCH_ITEMS) {
+      throw invalid(`Paramètre limit invalide (entier de 1 à ${MAX_BATCH_ITEMS})`);
+    }
+    limit = body.limit as number;
+  }
+
+  const batch = { workspaceId, options: options.options, force: body.force === true };
+  if (sources[0] === "urls") {
+    if (!Array.isArray(body.urls) || body.urls.length === 0) throw invalid("Paramètre urls vide");
+    const urls = [...new Set(body.urls.map((url, i) => httpUrl(url, `urls[${i}]`)))];
+    if (urls.length > MAX_BATCH_ITEMS) throw invalid(`${MAX_BATCH_ITEMS} URL au plus par lot`);
+    return { ...batch, sourceType: "urls", sourceUrl: null, urls };
+  }
+  if (sources[0] === "feed") {
+    const feed = httpUrl(body.feed, "feed");
+    return { ...batch, sourceType: "feed", sourceUrl: feed, urls: await discoverFeedUrls(feed, limit) };
+  }
+  const sitemap = httpUrl(body.sitemap, "sitemap");
+  return { ...batch, sourceType: "sitemap", sourceUrl: sitemap, urls: await discoverSitemapUrls(sitemap, limit) };
+}
+
+/**
+ * Starts summarizing a list of URLs, or the latest articles of an RSS/Atom
+ * feed or sitemap. Answers at once with the batch; each item is summarized by
+ * a background job and can be followed with GET /api/batches/:id or its events.
+ */
+export async function POST(req: Request) {
+  let client: Client;
+  try {
+    client = await authorizeRequest(req);
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+
+  try {
+    const body = (await req.json().catch(() => ({}))) as BatchBody;
+    const input = await parseBatch(body ?? {});
+    if (input.workspaceId) await assertWorkspaceMember(client.session, input.workspaceId);
+    const batch = await createBatch(client.session, input);
+
+    await enqueueBatch(client, batch);
+
+    return NextResponse.json(batch, { status: 202, headers: { Location: `/api/batches/${batch.id}` } });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import { authorizeRequest, meteredProvider, type Client } from "@/lib/access";
+import { MAX_COMPARED_URLS, MIN_COMPARED_URLS, runComparePipeline } from "@/lib/compare";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError, localeFromRequest, type ErrorLocale } from "@/lib/errors";
+import { isUuid } from "@/lib/ids";
+import { withAbortSignal } from "@/lib/llm";
+import { sseResponse } from "@/lib/sse";
+import { parseSummaryOptions, type SummaryOptions } from "@/lib/summaryOptions";
+import { assertWorkspaceMember } from "@/lib/workspaces";
+
+type CompareBody = {
+  urls?: unknown;
+  options?: unknown;
+  workspace_id?: unknown;
+  force?: unknown;
+  stream?: unknown;
+};
+
+type CompareRequest = {
+  urls: string[];
+  options: SummaryOptions;
+  workspaceId: string | null;
+  force: boolean;
+  stream: boolean;
+};
+
+function invalid(message: string): AppError {
+  return new AppError("INVALID_REQUEST", { message });
+}
+
+function httpUrl(input: unknown, name: string): string {
+  try {
+    const parsed = new URL(typeof input === "string" ? input.trim() : "");
+    if (/^https?:$/.test(parsed.protocol)) return parsed.toString();
+  } catch {}
+  throw new AppError("INVALID_URL", { message: `URL invalide (${name})`, details: { value: String(input) } });
+}
+
+function parseCompare(body: CompareBody, req: Request): CompareRequest {
+  if (!Array.isArray(body.urls)) throw invalid("Paramètre urls manquant");
+  const urls = [...new Set(body.urls.map((url, i) => httpUrl(url, `urls[${i}]`)))];
+  if (urls.length < MIN_COMPARED_URLS || urls.length > MAX_COMPARED_URLS) {
+    throw invalid(`Indiquez de ${MIN_COMPARED_URLS} à ${MAX_COMPARED_URLS} URL différentes`);
+  }
+
+  const options = parseSummaryOptions(body.options);
+  if (!options.ok) throw invalid(options.error);
+
+  let workspaceId: string | null = null;
+  if (body.workspace_id !== undefined && body.workspace_id !== null && body.workspace_id !== "") {
+    if (!isUuid(body.workspace_id)) throw invalid("Paramètre workspace_id invalide");
+    workspaceId = body.workspace_id;
+  }
+
+  return {
+    urls,
+    options: options.options,
+    workspaceId,
+    force: body.force === true,
+    stream: body.stream === true || (req.headers.get("accept") ?? "").includes("text/event-stream"),
+  };
+}
+
+function streamComparison(
+  { urls, options, force, workspaceId }: CompareRequest,
+  client: Client,
+  locale: ErrorLocale
+): Response {
+  let metered: ReturnType<typeof meteredProvider> | null = null;
+  return sseResponse(
+    async (send, signal) => {
+      metered = meteredProvider();
+      const result = await runComparePipeline(urls, {
+        session: client.session,
+        workspaceId,
+        summaryOptions: options,
+        force,
+        emit: ({ type, ...data }) => send(type, data),
+        provider: withAbortSignal(metered.provider, signal),
+      });
+      send("done", result);
+    },
+    { locale, onClose: async () => await metered?.flush(client) }
+  );
+}
+
+/**
+ * Compares 2 to 10 pages on one topic: shared points, disagreements and
+ * points unique to each source, stored as one summary. With `stream`, reports
+ * progress as server-sent events while the sources are summarized.
+ */
+export async function POST(req: Request) {
+  let client: Client;
+  try {
+    client = await authorizeRequest(req);
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+
+  let metered: ReturnType<typeof meteredProvider> | null = null;
+  try {
+    const body = (await req.json().catch(() => ({}))) as CompareBody;
+    const request = parseCompare(body ?? {}, req);
+    if (request.workspaceId) await assertWorkspaceMember(client.session, request.workspaceId);
+
+    if (request.stream) {
+      return streamComparison(request, client, localeFromRequest(req));
+    }
+
+    metered = meteredProvider();
+    const response = await runComparePipeline(request.urls, {
+      session: client.session,
+      workspaceId: request.workspaceId,
+      summaryOptions: request.options,
+      force: request.force,
+      provider: metered.provider,
+    });
+    return NextResponse.json(response, { status: 200 });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  } finally {
+    await metered?.flush(client);
+  }
+}
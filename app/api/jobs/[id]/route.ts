@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/access";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError } from "@/lib/errors";
+import { getSummary } from "@/lib/history";
+import { isUuid } from "@/lib/ids";
+import { getJobStore, toJobResponse } from "@/lib/jobs";
+import type { SummaryResponse } from "@/lib/summaries";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** Status of a job, with its summary once done. */
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!isUuid(id)) throw new AppError("NOT_FOUND");
+    const session = await authenticateRequest(req);
+    const job = await getJobStore().get(id);
+    if (!job || job.userId !== session.user.id) throw new AppError("NOT_FOUND");
+
+    let summary: SummaryResponse | null = null;
+    if (job.summaryId !== null) {
+      // The summary may have been deleted since the job finished.
+      summary = await getSummary(session, job.summaryId).catch((e: unknown) => {
+        if (e instanceof AppError && e.code === "NOT_FOUND") return null;
+        throw e;
+      });
+    }
+    return NextResponse.json(toJobResponse(job, summary));
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
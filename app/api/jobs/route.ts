@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { authorizeRequest, type Client } from "@/lib/access";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError } from "@/lib/errors";
+import { submitJob, toJobResponse } from "@/lib/jobs";
+import { parseSummarizeRequest } from "@/lib/summarizeRequest";
+import { assertWorkspaceMember } from "@/lib/workspaces";
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 200;
+
+function idempotencyKey(req: Request): string | null {
+  const key = req.headers.get("idempotency-key")?.trim();
+  if (!key) return null;
+  if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    throw new AppError("INVALID_REQUEST", {
+      message: `En-tête Idempotency-Key trop long (${MAX_IDEMPOTENCY_KEY_LENGTH} caractères au plus)`,
+    });
+  }
+  return key;
+}
+
+/**
+ * Queues a summary (same body as POST /api/summarize) and answers at once
+ * with the job; its progress is read with GET /api/jobs/:id. Resending the
+ * same Idempotency-Key returns the existing job instead of queueing another.
+ */
+export async function POST(req: Request) {
+  let client: Client;
+  try {
+    client = await authorizeRequest(req);
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+
+  try {
+    const key = idempotencyKey(req);
+    const request = await parseSummarizeRequest(req);
+    if (request.workspaceId) await assertWorkspaceMember(client.session, request.workspaceId);
+    const { job, created } = await submitJob(client, request, key);
+    return NextResponse.json(toJobResponse(job), {
+      status: created ? 202 : 200,
+      headers: { Location: `/api/jobs/${job.id}` },
+    });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
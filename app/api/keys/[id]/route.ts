@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/access";
+import { revokeApiKey } from "@/lib/apiKeys";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError } from "@/lib/errors";
+import { isUuid } from "@/lib/ids";
+
+/** Revokes a key; requests using it are rejected with a 401 from then on. */
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    if (!isAdminRequest(req)) throw new AppError("UNAUTHORIZED");
+    const { id } = await params;
+    if (!isUuid(id) || !(await revokeApiKey(id))) throw new AppError("NOT_FOUND");
+    return new NextResponse(null, { status: 204 });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/access";
+import { createApiKey, listApiKeys } from "@/lib/apiKeys";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError } from "@/lib/errors";
+import { isUuid } from "@/lib/ids";
+
+function positiveIntOrNull(value: unknown): number | null | undefined {
+  if (value === undefined || value === null) return null;
+  return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+export async function GET(req: Request) {
+  try {
+    if (!isAdminRequest(req)) throw new AppError("UNAUTHORIZED");
+    return NextResponse.json({ keys: await listApiKeys() });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
+
+/** Issues a key. The response is the only place the key appears in clear. */
+export async function POST(req: Request) {
+  try {
+    if (!isAdminRequest(req)) throw new AppError("UNAUTHORIZED");
+    const body = (await req.json().catch(() => ({}))) as {
+      name?: unknown;
+      user_id?: unknown;
+      rate_limit?: unknown;
+      daily_token_quota?: unknown;
+    };
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+    if (!name) throw new AppError("INVALID_REQUEST", { message: "Paramètre name manquant" });
+    const userId = body.user_id;
+    if (!isUuid(userId)) throw new AppError("INVALID_REQUEST", { message: "Paramètre user_id invalide" });
+    const rateLimit = positiveIntOrNull(body.rate_limit);
+    if (rateLimit === undefined) throw new AppError("INVALID_REQUEST", { message: "Paramètre rate_limit invalide" });
+    const quota = positiveIntOrNull(body.daily_token_quota);
+    if (quota === undefined) {
+      throw new AppError("INVALID_REQUEST", { message: "Paramètre daily_token_quota invalide" });
+    }
+
+    const { key, record } = await createApiKey({ name, user_id: userId, rate_limit: rateLimit, daily_token_quota: quota });
+    return NextResponse.json({ ...record, key }, { status: 201 });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
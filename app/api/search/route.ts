@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError } from "@/lib/errors";
+import { isUuid } from "@/lib/ids";
+import { MAX_SEARCH_LIMIT, SEARCH_MODES, searchSummaries, type SearchMode, type SearchQuery } from "@/lib/search";
+
+const MAX_QUERY_CHARS = 500;
+
+function invalid(message: string): AppError {
+  return new AppError("INVALID_REQUEST", { message });
+}
+
+function parseQuery(params: URLSearchParams): SearchQuery {
+  const q = params.get("q")?.trim() ?? "";
+  if (!q) throw invalid("Paramètre q manquant");
+  if (q.length > MAX_QUERY_CHARS) throw invalid(`Paramètre q trop long (${MAX_QUERY_CHARS} caractères max)`);
+  const query: SearchQuery = { q };
+
+  const mode = params.get("mode");
+  if (mode) {
+    if (!SEARCH_MODES.includes(mode as SearchMode)) {
+      throw invalid(`Paramètre mode invalide (${SEARCH_MODES.join(", ")})`);
+    }
+    query.mode = mode as SearchMode;
+  }
+
+  const limit = params.get("limit");
+  if (limit) {
+    const n = Number(limit);
+    if (!Number.isInteger(n) || n < 1 || n > MAX_SEARCH_LIMIT) {
+      throw invalid(`Paramètre limit invalide (entier de 1 à ${MAX_SEARCH_LIMIT})`);
+    }
+    query.limit = n;
+  }
+
+  const workspace = params.get("workspace");
+  if (workspace) {
+    if (!isUuid(workspace)) throw invalid("Paramètre workspace invalide");
+    query.workspaceId = workspace;
+  }
+  return query;
+}
+
+/** Ranked search over the caller's summaries, or a workspace's: `?q=&mode=&workspace=&limit=`. */
+export async function GET(req: Request) {
+  try {
+    const session = await requireSession(req);
+    const query = parseQuery(new URL(req.url).searchParams);
+    return NextResponse.json(await searchSummaries(session, query));
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
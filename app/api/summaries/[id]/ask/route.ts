@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { authenticateRequest, authorizeRequest, meteredProvider, type Client } from "@/lib/access";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError } from "@/lib/errors";
+import { askQuestion, listQuestions, MAX_QUESTION_CHARS } from "@/lib/questions";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function summaryId({ params }: RouteContext): Promise<number> {
+  const { id } = await params;
+  if (!/^\d+$/.test(id)) throw new AppError("NOT_FOUND");
+  return Number(id);
+}
+
+function parseQuestion(body: unknown): string {
+  const { question } = (body ?? {}) as { question?: unknown };
+  if (typeof question !== "string" || !question.trim()) {
+    throw new AppError("INVALID_REQUEST", { message: "Paramètre question manquant" });
+  }
+  if (question.length > MAX_QUESTION_CHARS) {
+    throw new AppError("INVALID_REQUEST", {
+      message: `Question trop longue (${MAX_QUESTION_CHARS} caractères au plus)`,
+    });
+  }
+  return question.trim();
+}
+
+/** The caller's questions about the summary and their answers, oldest first. */
+export async function GET(req: Request, context: RouteContext) {
+  try {
+    const session = await authenticateRequest(req);
+    return NextResponse.json({ questions: await listQuestions(session, await summaryId(context)) });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
+
+/**
+ * Answers a question about the summarized page from its extracted text, with
+ * the passages quoted, and adds it to the conversation.
+ */
+export async function POST(req: Request, context: RouteContext) {
+  let client: Client;
+  try {
+    client = await authorizeRequest(req);
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+
+  let metered: ReturnType<typeof meteredProvider> | null = null;
+  try {
+    const id = await summaryId(context);
+    const question = parseQuestion(await req.json().catch(() => null));
+    metered = meteredProvider();
+    return NextResponse.json(await askQuestion(client.session, id, question, metered.provider));
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  } finally {
+    await metered?.flush(client);
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError } from "@/lib/errors";
+import { deleteSummary, getSummary, updateSummary, type SummaryPatch } from "@/lib/history";
+
+const MAX_TITLE_CHARS = 300;
+const MAX_BULLETS = 50;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function summaryId({ params }: RouteContext): Promise<number> {
+  const { id } = await params;
+  if (!/^\d+$/.test(id)) throw new AppError("NOT_FOUND");
+  return Number(id);
+}
+
+function parsePatch(body: unknown): SummaryPatch {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new AppError("INVALID_REQUEST", { message: "Corps JSON attendu" });
+  }
+  const { title, bullets } = body as { title?: unknown; bullets?: unknown };
+  const patch: SummaryPatch = {};
+  if (title !== undefined) {
+    if (typeof title !== "string" || !title.trim() || title.length > MAX_TITLE_CHARS) {
+      throw new AppError("INVALID_REQUEST", { message: "Paramètre title invalide" });
+    }
+    patch.title = title.trim();
+  }
+  if (bullets !== undefined) {
+    if (!Array.isArray(bullets) || bullets.length > MAX_BULLETS || !bullets.every((b) => typeof b === "string")) {
+      throw new AppError("INVALID_REQUEST", { message: "Paramètre bullets invalide (liste de textes)" });
+    }
+    patch.bullets = bullets;
+  }
+  if (patch.title === undefined && patch.bullets === undefined) {
+    throw new AppError("INVALID_REQUEST", { message: "Rien à modifier (title ou bullets)" });
+  }
+  return patch;
+}
+
+export async function GET(req: Request, context: RouteContext) {
+  try {
+    const session = await requireSession(req);
+    return NextResponse.json(await getSummary(session, await summaryId(context)));
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
+
+export async function PATCH(req: Request, context: RouteContext) {
+  try {
+    const session = await requireSession(req);
+    const id = await summaryId(context);
+    const patch = parsePatch(await req.json().catch(() => null));
+    return NextResponse.json(await updateSummary(session, id, patch));
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
+
+export async function DELETE(req: Request, context: RouteContext) {
+  try {
+    const session = await requireSession(req);
+    await deleteSummary(session, await summaryId(context));
+    return new NextResponse(null, { status: 204 });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
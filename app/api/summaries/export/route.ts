@@ -0,0 +1,34 @@
+import { requireSession } from "@/lib/auth";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError } from "@/lib/errors";
+import { EXPORT_FORMATS, MAX_BUNDLE_ITEMS, renderExport, type ExportFormat } from "@/lib/export";
+import { listAllSummaries, parseHistoryQuery } from "@/lib/history";
+
+/**
+ * Downloads the summaries matching the history filters (`?workspace=&domain=&from=&to=&ids=`)
+ * as one document, or as a bundle (`json`, `zip`) that POST /api/summaries/import reads back.
+ */
+export async function GET(req: Request) {
+  try {
+    const session = await requireSession(req);
+    const params = new URL(req.url).searchParams;
+    const format = (params.get("format") ?? "markdown") as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new AppError("INVALID_REQUEST", { message: `Paramètre format invalide (${EXPORT_FORMATS.join(", ")})` });
+    }
+    const summaries = await listAllSummaries(session, parseHistoryQuery(params), MAX_BUNDLE_ITEMS);
+    if (!summaries.length) throw new AppError("NOT_FOUND", { message: "Aucun résumé à exporter" });
+
+    const file = await renderExport(summaries, format);
+    const body = typeof file.data === "string" ? file.data : new Blob([file.data as Uint8Array<ArrayBuffer>]);
+    return new Response(body, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError } from "@/lib/errors";
+import { readBundle } from "@/lib/export";
+import { importSummaries } from "@/lib/history";
+import { isUuid } from "@/lib/ids";
+import { assertWorkspaceMember } from "@/lib/workspaces";
+
+const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Imports a bundle from GET /api/summaries/export, sent as is: the JSON file
+ * or the ZIP archive. `?workspace=` imports into a workspace.
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await requireSession(req);
+    const workspace = new URL(req.url).searchParams.get("workspace") || null;
+    if (workspace) {
+      if (!isUuid(workspace)) throw new AppError("INVALID_REQUEST", { message: "Paramètre workspace invalide" });
+      await assertWorkspaceMember(session, workspace);
+    }
+    if (Number(req.headers.get("content-length") ?? 0) > MAX_IMPORT_BYTES) {
+      throw new AppError("PAYLOAD_TOO_LARGE", { details: { max_bytes: MAX_IMPORT_BYTES } });
+    }
+
+    const data = new Uint8Array(await req.arrayBuffer());
+    if (data.byteLength > MAX_IMPORT_BYTES) {
+      throw new AppError("PAYLOAD_TOO_LARGE", { details: { max_bytes: MAX_IMPORT_BYTES } });
+    }
+    const result = readBundle(data);
+    if (!result.ok) throw new AppError("INVALID_REQUEST", { message: result.error });
+    return NextResponse.json(await importSummaries(session, result.bundle.items, workspace));
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
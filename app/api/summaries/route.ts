@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth";
+import { errorResponse } from "@/lib/errorResponse";
+import { listSummaries, parseHistoryQuery } from "@/lib/history";
+
+/** The caller's summaries, or a workspace's, newest first: `?cursor=&limit=&workspace=&domain=&from=&to=`. */
+export async function GET(req: Request) {
+  try {
+    const session = await requireSession(req);
+    const query = parseHistoryQuery(new URL(req.url).searchParams);
+    return NextResponse.json(await listSummaries(session, query));
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
@@ -0,0 +1,211 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { ApiKeyRecord } from "@/lib/apiKeys";
+import type { LLMProvider } from "@/lib/llm";
+
+// The whole route offline: local accounts, the SQLite summary store and the stub model.
+const dataDir = mkdtempSync(join(tmpdir(), "summarize-route-"));
+Object.assign(process.env, {
+  AUTH_PROVIDER: "local",
+  LOCAL_AUTH_USERS: "reader@example.com:secret",
+  SUPABASE_JWT_SECRET: "test-secret-test-secret-test-secret",
+  SUMMARY_STORE: "sqlite",
+  SUMMARIES_SQLITE_PATH: join(dataDir, "summaries.db"),
+  JOB_STORE: "sqlite",
+  LLM_PROVIDER: "stub",
+  FETCH_ALLOW_PRIVATE_NETWORK: "true",
+});
+
+/** Slows down the stub model so that a client can hang up halfway through. */
+const llm = vi.hoisted(() => ({ delayMs: 0, calls: 0 }));
+
+vi.mock("@/lib/llm", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/llm")>();
+  return {
+    ...actual,
+    getLLMProvider: (): LLMProvider => {
+      const provider = actual.getLLMProvider();
+      return {
+        name: provider.name,
+        async complete(request) {
+          llm.calls++;
+          await new Promise((resolve) => setTimeout(resolve, llm.delayMs));
+          return provider.complete(request);
+        },
+        stream: (request) => provider.stream(request),
+      };
+    },
+  };
+});
+
+// One API key, so that token usage is recorded; the real keys live in Supabase.
+const API_KEY: ApiKeyRecord = {
+  id: "key-1",
+  name: "tests",
+  user_id: "00000000-0000-4000-8000-000000000001",
+  prefix: "sws_test",
+  rate_limit: null,
+  daily_token_quota: 1_000_000,
+  created_at: "2026-01-01T00:00:00.000Z",
+  revoked_at: null,
+};
+
+vi.mock("@/lib/apiKeys", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/apiKeys")>()),
+  findApiKey: async (key: string) => (key === "sws_test" ? API_KEY : null),
+  getTokensUsedToday: async () => 0,
+  recordTokenUsage: vi.fn(async () => {}),
+}));
+
+const ARTICLE = `<!DOCTYPE html><html lang="fr"><head><title>Le tramway prolongé</title></head><body><article>
+<h1>Le tramway prolongé jusqu'à la gare</h1>
+<p>La ligne de tramway sera prolongée de trois kilomètres jusqu'à la gare, a annoncé la métropole lundi.</p>
+<p>Les travaux commenceront au printemps et dureront deux ans, pour un coût de 120 millions d'euros.</p>
+<p>Quatre nouvelles stations desserviront les quartiers du nord, aujourd'hui mal reliés au centre.</p>
+</article></body></html>`;
+
+let site: Server;
+let pageUrl: string;
+let headers: Record<string, string>;
+let route: typeof import("./route");
+
+beforeAll(async () => {
+  site = createServer((_req, res) => {
+    res.writeHead(200, { "content-type": "text/html; charset=utf-8" });
+    res.end(ARTICLE);
+  });
+  await new Promise<void>((resolve) => site.listen(0, "127.0.0.1", resolve));
+  pageUrl = `http://127.0.0.1:${(site.address() as AddressInfo).port}/tramway`;
+
+  const { localUserId, mintAccessToken } = await import("@/lib/auth/local");
+  const email = "reader@example.com";
+  const { accessToken } = mintAccessToken({ id: localUserId(email), email });
+  headers = { authorization: `Bearer ${accessToken}`, "content-type": "application/json" };
+  route = await import("./route");
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => site.close(() => resolve()));
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+function summarize(body: unknown, extraHeaders: Record<string, string> = headers): Promise<Response> {
+  return route.POST(
+    new Request("http://localhost/api/summarize", {
+      method: "POST",
+      headers: extraHeaders,
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+describe("POST /api/summarize", () => {
+  it("requires a session", async () => {
+    const res = await summarize({ url: pageUrl }, { "content-type": "application/json" });
+    expect(res.status).toBe(401);
+    expect((await res.json()).code).toBe("UNAUTHORIZED");
+  });
+
+  it("summarizes a page, cites it and stores the summary", async () => {
+    const res = await summarize({ url: pageUrl });
+    expect(res.status).toBe(200);
+    const summary = await res.json();
+    expect(summary).toMatchObject({ url: pageUrl, cached: false });
+    expect(summary.id).toEqual(expect.any(Number));
+    expect(summary.bullets.length).toBeGreaterThan(0);
+    expect(summary.citations).toHaveLength(summary.bullets.length);
+
+    const { GET } = await import("@/app/api/summaries/[id]/route");
+    const stored = await GET(new Request(`http://localhost/api/summaries/${summary.id}`, { headers }), {
+      params: Promise.resolve({ id: String(summary.id) }),
+    });
+    expect(stored.status).toBe(200);
+    expect((await stored.json()).title).toBe(summary.title);
+  });
+
+  it("reuses the stored summary for the same page", async () => {
+    const res = await summarize({ url: pageUrl });
+    expect((await res.json()).cached).toBe(true);
+  });
+
+  it("streams progress and the result as server-sent events", async () => {
+    const res = await summarize({ text: "Premier paragraphe du texte collé.\n\nSecond paragraphe.", stream: true });
+    expect(res.headers.get("content-type")).toMatch(/^text\/event-stream/);
+    const events = [...(await res.text()).matchAll(/^event: (\w+)$/gm)].map((match) => match[1]);
+    expect(events).toContain("progress");
+    expect(events.at(-1)).toBe("done");
+  });
+
+  it("charges the tokens spent before a streaming client hangs up, then stops summarizing", async () => {
+    const { recordTokenUsage } = await import("@/lib/apiKeys");
+    Object.assign(process.env, { SUMMARY_CHUNK_TOKENS: "60", SUMMARY_CONCURRENCY: "1" });
+    llm.delayMs = 50;
+    llm.calls = 0;
+    try {
+      const text = Array.from(
+        { length: 12 },
+        (_, i) => `Le paragraphe ${i + 1} décrit une étape du chantier du tramway, avec ses dates et son coût prévu.`
+      ).join("\n\n");
+      const res = await summarize(
+        { text, stream: true },
+        { authorization: "Bearer sws_test", "content-type": "application/json" }
+      );
+      const reader = res.body!.getReader();
+      const decoder = new TextDecoder();
+      let received = "";
+      while (!received.includes('"chunks_done":1')) {
+        const { value, done } = await reader.read();
+        if (done) throw new Error("Le flux s'est terminé avant le premier morceau");
+        received += decoder.decode(value, { stream: true });
+      }
+      await reader.cancel();
+
+      await vi.waitFor(() => expect(recordTokenUsage).toHaveBeenCalledWith("key-1", expect.any(Number)));
+      expect(vi.mocked(recordTokenUsage).mock.calls[0][1]).toBeGreaterThan(0);
+      const calls = llm.calls;
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      expect(llm.calls).toBe(calls);
+      expect(calls).toBeLessThan(Number(received.match(/"chunks_total":(\d+)/)![1]));
+    } finally {
+      delete process.env.SUMMARY_CHUNK_TOKENS;
+      delete process.env.SUMMARY_CONCURRENCY;
+      llm.delayMs = 0;
+    }
+  });
+
+  it("rejects an invalid URL", async () => {
+    const res = await summarize({ url: "ftp://example.com/file" });
+    expect(res.status).toBe(400);
+    expect((await res.json()).code).toBe("INVALID_URL");
+  });
+});
+
+describe("features that need Supabase summaries", () => {
+  it("refuses batches with the SQLite store", async () => {
+    const { POST } = await import("@/app/api/batches/route");
+    const res = await POST(
+      new Request("http://localhost/api/batches", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ urls: [pageUrl] }),
+      })
+    );
+    expect(res.status).toBe(503);
+    expect((await res.json()).error).toBe("Le traitement par lots nécessite SUMMARY_STORE=supabase");
+  });
+
+  it("refuses Supabase jobs with the SQLite store", async () => {
+    const { checkStoreConfiguration } = await import("@/lib/jobs");
+    expect(() => checkStoreConfiguration()).not.toThrow();
+    process.env.JOB_STORE = "supabase";
+    try {
+      expect(() => checkStoreConfiguration()).toThrow(/JOB_STORE=supabase nécessite SUMMARY_STORE=supabase/);
+    } finally {
+      process.env.JOB_STORE = "sqlite";
+    }
+  });
+});
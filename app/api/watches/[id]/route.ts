@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/access";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError } from "@/lib/errors";
+import { isUuid } from "@/lib/ids";
+import { deleteWatch, getWatch, parseWatchInterval, updateWatch } from "@/lib/watches";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function watchId({ params }: RouteContext): Promise<string> {
+  const { id } = await params;
+  if (!isUuid(id)) throw new AppError("NOT_FOUND");
+  return id;
+}
+
+/** A watch with every version of the page. */
+export async function GET(req: Request, context: RouteContext) {
+  try {
+    const session = await authenticateRequest(req);
+    return NextResponse.json(await getWatch(session, await watchId(context)));
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
+
+export async function PATCH(req: Request, context: RouteContext) {
+  try {
+    const session = await authenticateRequest(req);
+    const id = await watchId(context);
+    const body = (await req.json().catch(() => ({}))) as { interval_minutes?: unknown };
+    return NextResponse.json(await updateWatch(session, id, parseWatchInterval(body?.interval_minutes)));
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
+
+export async function DELETE(req: Request, context: RouteContext) {
+  try {
+    const session = await authenticateRequest(req);
+    await deleteWatch(session, await watchId(context));
+    return new NextResponse(null, { status: 204 });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/access";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError } from "@/lib/errors";
+import { createWatch, listWatches, parseWatchInterval } from "@/lib/watches";
+
+export async function GET(req: Request) {
+  try {
+    const session = await authenticateRequest(req);
+    return NextResponse.json({ items: await listWatches(session) });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
+
+/** Watches the page of a summary: it is checked every `interval_minutes` and re-summarized when it changes. */
+export async function POST(req: Request) {
+  try {
+    const session = await authenticateRequest(req);
+    const body = (await req.json().catch(() => ({}))) as { summary_id?: unknown; interval_minutes?: unknown };
+    if (!Number.isInteger(body?.summary_id) || (body.summary_id as number) < 1) {
+      throw new AppError("INVALID_REQUEST", { message: "Paramètre summary_id invalide" });
+    }
+    const { watch, created } = await createWatch(
+      session,
+      body.summary_id as number,
+      parseWatchInterval(body.interval_minutes)
+    );
+    return NextResponse.json(watch, { status: created ? 201 : 200 });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/access";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError } from "@/lib/errors";
+import { isUuid } from "@/lib/ids";
+import { deleteWebhook, getWebhook, updateWebhook } from "@/lib/webhooks";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function webhookId({ params }: RouteContext): Promise<string> {
+  const { id } = await params;
+  if (!isUuid(id)) throw new AppError("NOT_FOUND");
+  return id;
+}
+
+/** A webhook with its latest deliveries. */
+export async function GET(req: Request, context: RouteContext) {
+  try {
+    const session = await authenticateRequest(req);
+    return NextResponse.json(await getWebhook(session, await webhookId(context)));
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
+
+export async function PATCH(req: Request, context: RouteContext) {
+  try {
+    const session = await authenticateRequest(req);
+    const id = await webhookId(context);
+    const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+    return NextResponse.json(await updateWebhook(session, id, body ?? {}));
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
+
+export async function DELETE(req: Request, context: RouteContext) {
+  try {
+    const session = await authenticateRequest(req);
+    await deleteWebhook(session, await webhookId(context));
+    return new NextResponse(null, { status: 204 });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/access";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError } from "@/lib/errors";
+import { isUuid } from "@/lib/ids";
+import { pingWebhook } from "@/lib/webhooks";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** Queues a `ping` delivery; its outcome shows in GET /api/webhooks/:id. */
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const session = await authenticateRequest(req);
+    const { id } = await params;
+    if (!isUuid(id)) throw new AppError("NOT_FOUND");
+    await pingWebhook(session, id);
+    return NextResponse.json({ queued: true }, { status: 202 });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
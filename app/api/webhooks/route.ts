@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/access";
+import { errorResponse } from "@/lib/errorResponse";
+import { createWebhook, listWebhooks } from "@/lib/webhooks";
+
+export async function GET(req: Request) {
+  try {
+    const session = await authenticateRequest(req);
+    return NextResponse.json({ items: await listWebhooks(session) });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
+
+/** Registers `{ url, events, format? }`. The response holds the signing secret, which is not shown again. */
+export async function POST(req: Request) {
+  try {
+    const session = await authenticateRequest(req);
+    const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+    const { webhook, secret } = await createWebhook(session, body ?? {});
+    return NextResponse.json({ ...webhook, secret }, { status: 201 });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
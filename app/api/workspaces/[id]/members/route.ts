@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError } from "@/lib/errors";
+import { isUuid } from "@/lib/ids";
+import { addWorkspaceMember } from "@/lib/workspaces";
+
+/** Adds a user, by id, to a workspace. Only its owners may do so. */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await requireSession(req);
+    const { id } = await params;
+    if (!isUuid(id)) throw new AppError("NOT_FOUND");
+    const body = (await req.json().catch(() => ({}))) as { user_id?: unknown };
+    if (!isUuid(body?.user_id)) throw new AppError("INVALID_REQUEST", { message: "Paramètre user_id invalide" });
+    await addWorkspaceMember(session, id, body.user_id);
+    return new NextResponse(null, { status: 204 });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth";
+import { errorResponse } from "@/lib/errorResponse";
+import { AppError } from "@/lib/errors";
+import { createWorkspace, listWorkspaces } from "@/lib/workspaces";
+
+const MAX_NAME_CHARS = 100;
+
+export async function GET(req: Request) {
+  try {
+    const session = await requireSession(req);
+    return NextResponse.json({ workspaces: await listWorkspaces(session) });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
+
+/** Creates a team workspace; the caller becomes its owner. */
+export async function POST(req: Request) {
+  try {
+    const session = await requireSession(req);
+    const body = (await req.json().catch(() => ({}))) as { name?: unknown };
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+    if (!name || name.length > MAX_NAME_CHARS) {
+      throw new AppError("INVALID_REQUEST", { message: "Paramètre name invalide" });
+    }
+    return NextResponse.json(await createWorkspace(session, name), { status: 201 });
+  } catch (e: unknown) {
+    return errorResponse(e, req);
+  }
+}
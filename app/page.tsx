@@ -1,16 +1,183 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import type { AuthUser } from "@/lib/auth/types";
+import type { Batch, BatchItem, BatchSourceType } from "@/lib/batches";
+import type { Citation } from "@/lib/citations";
+import type { ErrorBody, ErrorCode } from "@/lib/errors";
+import type { ExportableSummary } from "@/lib/export";
+import { EXPORT_FORMAT_LABELS, EXPORT_FORMATS, type ExportFormat } from "@/lib/exportFormats";
+import { readSseEvents } from "@/lib/sse";
+import type { ComparisonSource, FailedSource, SourceType } from "@/lib/summaries";
+import type { Comparison, SummaryCoverage, SummarySection } from "@/lib/summarize";
+import type { SummaryQuestion } from "@/lib/summaryStore";
+import {
+  DEFAULT_SUMMARY_OPTIONS,
+  LANGUAGE_LABELS,
+  MAX_BULLETS,
+  MIN_BULLETS,
+  MODE_LABELS,
+  SUMMARY_LANGUAGES,
+  SUMMARY_MODES,
+  SUMMARY_TONES,
+  TONE_LABELS,
+  parseSummaryOptions,
+  type SummaryOptions,
+} from "@/lib/summaryOptions";
+import type { Watch } from "@/lib/watches";
+import type { Workspace } from "@/lib/workspaces";
 
 type Summary = {
   id: number;
-  url: string;
+  /** Null for pasted text, uploaded files and comparisons. */
+  url: string | null;
+  source_type?: SourceType;
+  source_name?: string;
   title: string;
   bullets: string[];
+  sections?: SummarySection[];
+  options?: SummaryOptions;
   created_at: string;
+  coverage?: SummaryCoverage;
+  citations?: Citation[][];
+  unsupported_points?: number[];
+  comparison?: Comparison;
+  sources?: ComparisonSource[];
+  failed_sources?: FailedSource[];
+  cached?: boolean;
 };
 
+type SearchHit = Summary & {
+  score: number;
+  highlights: { title: string; snippet: string };
+};
+
+type LatestSummary = Pick<
+  Summary,
+  "title" | "bullets" | "sections" | "options" | "coverage" | "citations" | "unsupported_points" | "cached"
+> &
+  Partial<Pick<Summary, "url" | "source_type" | "source_name" | "comparison" | "sources" | "failed_sources">>;
+
+type InputMode = "url" | "text" | "file" | "batch" | "compare";
+
+/** "offline" keeps the page usable with the local history when the server is unreachable. */
+type AuthState = "checking" | "signed-in" | "signed-out" | "offline";
+
+const INPUT_MODE_LABELS: Record<InputMode, string> = {
+  url: "URL",
+  text: "Texte",
+  file: "Fichier",
+  batch: "Lot",
+  compare: "Comparer",
+};
+
+const BATCH_SOURCE_LABELS: Record<BatchSourceType, string> = {
+  urls: "Liste d’URL",
+  feed: "Flux RSS/Atom",
+  sitemap: "Sitemap",
+};
+
+const WATCH_INTERVALS: { minutes: number; label: string }[] = [
+  { minutes: 60, label: "toutes les heures" },
+  { minutes: 6 * 60, label: "toutes les 6 heures" },
+  { minutes: 24 * 60, label: "tous les jours" },
+  { minutes: 7 * 24 * 60, label: "toutes les semaines" },
+];
+
+const ACCEPTED_FILES = ".pdf,.txt,.md,.markdown,.html,.htm,application/pdf,text/plain,text/markdown,text/html";
+
+type ProgressStage = "fetched" | "extracted" | "summarizing" | "sources" | "comparing";
+
+type Progress = {
+  stage: ProgressStage;
+  chunks_done?: number;
+  chunks_total?: number;
+  sources_done?: number;
+  sources_total?: number;
+};
+
+/** Offline copy of the history; the server is the source of truth. */
 const LOCAL_KEY = "sws_history_v1";
+const HISTORY_PAGE_SIZE = 20;
+const OPTIONS_KEY = "sws_options_v1";
+
+const STAGE_LABELS: Record<ProgressStage, string> = {
+  fetched: "Page récupérée, extraction du contenu…",
+  extracted: "Contenu extrait, envoi au modèle…",
+  summarizing: "Rédaction du résumé…",
+  sources: "Résumé des sources…",
+  comparing: "Comparaison des sources…",
+};
+
+type DisplayedError = {
+  message: string;
+  retryable: boolean;
+};
+
+/** Error returned by the API, as a JSON body or an SSE `error` event. */
+class ApiFailure extends Error {
+  constructor(readonly body: Partial<ErrorBody>) {
+    super(body.error ?? "Échec de la génération du résumé");
+  }
+}
+
+const ERROR_MESSAGES: Partial<Record<ErrorCode, string>> = {
+  INVALID_URL: "Cette URL n'est pas valide. Vérifiez qu'elle commence par http:// ou https://.",
+  BLOCKED_URL: "Cette adresse pointe vers un réseau privé ou local et ne peut pas être résumée.",
+  UNAUTHORIZED: "Votre session a expiré. Reconnectez-vous.",
+  FORBIDDEN: "Vous ne faites pas partie de cet espace.",
+  PAYLOAD_TOO_LARGE: "Le contenu est trop volumineux. Essayez un extrait plus court ou un fichier de moins de 10 Mo.",
+  UNSUPPORTED_CONTENT: "Ce type de contenu n'est pas pris en charge. Utilisez une page HTML, un PDF, un fichier texte ou Markdown.",
+  CONTENT_EMPTY:
+    "Aucun texte n'a pu être extrait. La page est peut-être générée en JavaScript ou protégée : essayez de coller son texte.",
+  QUOTA_EXCEEDED: "Quota quotidien atteint. Il sera réinitialisé à minuit UTC.",
+  FETCH_FAILED: "Impossible de joindre le site. Vérifiez l'adresse ou réessayez plus tard.",
+  TOO_MANY_REDIRECTS: "La page redirige en boucle. Essayez avec l'URL finale de l'article.",
+  FETCH_TIMEOUT: "Le site met trop de temps à répondre. Réessayez dans un instant.",
+  LLM_RATE_LIMITED: "Le modèle est saturé. Réessayez dans quelques secondes.",
+  LLM_UNAVAILABLE: "Le service de résumé est indisponible. Réessayez plus tard.",
+  LLM_TIMEOUT: "La génération a pris trop de temps. Réessayez, ou choisissez un format plus court.",
+  LLM_BAD_OUTPUT: "Le modèle a renvoyé une réponse inexploitable. Réessayez.",
+  PERSISTENCE_FAILED: "Le résumé n'a pas pu être enregistré. Réessayez.",
+  SERVICE_UNAVAILABLE: "Service momentanément indisponible. Réessayez dans un instant.",
+};
+
+function describeError(e: unknown): DisplayedError {
+  if (!(e instanceof ApiFailure)) {
+    // fetch() itself failed: offline, or the connection dropped mid-stream.
+    return { message: "Connexion au serveur impossible. Vérifiez votre réseau et réessayez.", retryable: true };
+  }
+  const { code, error, retryable = false, retry_after, details } = e.body;
+  if (code === "RATE_LIMITED") {
+    const wait = retry_after ? ` dans ${retry_after} s` : " dans un instant";
+    return { message: `Trop de demandes. Réessayez${wait}.`, retryable };
+  }
+  if (code === "UPSTREAM_HTTP_ERROR") {
+    const status = Number(details?.upstream_status);
+    const hint =
+      status === 404 || status === 410
+        ? " Vérifiez l'URL."
+        : status === 401 || status === 403
+          ? " La page est protégée : essayez de coller son texte."
+          : "";
+    return { message: `Le site a répondu par une erreur${status ? ` ${status}` : ""}.${hint}`, retryable };
+  }
+  const message = (code && ERROR_MESSAGES[code]) ?? error ?? "Échec de la génération du résumé";
+  return { message, retryable };
+}
+
+async function readApiFailure(res: Response): Promise<ApiFailure> {
+  const body = (await res.json().catch(() => ({}))) as Partial<ErrorBody>;
+  return new ApiFailure({ status: res.status, retryable: res.status >= 500, ...body });
+}
+
+/** fetch() that renews an expired session once before giving up. */
+async function apiFetch(input: string, init?: RequestInit): Promise<Response> {
+  const res = await fetch(input, init);
+  if (res.status !== 401) return res;
+  const refreshed = await fetch("/api/auth/refresh", { method: "POST" });
+  return refreshed.ok ? fetch(input, init) : res;
+}
 
 function loadLocalHistory(): Summary[] {
   try {
@@ -31,65 +198,1005 @@ function saveLocalHistory(items: Summary[]) {
   } catch {}
 }
 
+function loadSummaryOptions(): SummaryOptions {
+  try {
+    const raw = typeof window !== "undefined" ? localStorage.getItem(OPTIONS_KEY) : null;
+    const parsed = parseSummaryOptions(raw ? JSON.parse(raw) : undefined);
+    return parsed.ok ? parsed.options : { ...DEFAULT_SUMMARY_OPTIONS };
+  } catch {
+    return { ...DEFAULT_SUMMARY_OPTIONS };
+  }
+}
+
+function saveSummaryOptions(options: SummaryOptions) {
+  try {
+    if (typeof window !== "undefined") {
+      localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+    }
+  } catch {}
+}
+
+/** Renders search highlights; `<mark>` is the only markup, everything else stays text. */
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/(<mark>[\s\S]*?<\/mark>)/).map((part, i) =>
+        part.startsWith("<mark>") ? (
+          <mark key={i} className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-700/60">
+            {part.slice(6, -7)}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+/** Replaces one item of a batch streamed from the server and recounts. */
+function withBatchItem(batch: Batch, item: BatchItem): Batch {
+  const items = batch.items.map((i) => (i.position === item.position ? item : i));
+  const counts = { total: items.length, queued: 0, running: 0, done: 0, failed: 0 };
+  for (const i of items) counts[i.status]++;
+  return { ...batch, items, counts };
+}
+
+function BatchProgress({ batch }: { batch: Batch }) {
+  const finished = batch.counts.done + batch.counts.failed;
+  const pending = batch.items.filter((i) => i.status === "queued" || i.status === "running");
+  const failed = batch.items.filter((i) => i.status === "failed");
+  const bySite = new Map<string, BatchItem[]>();
+  for (const item of batch.items) {
+    if (item.status !== "done" || !item.summary) continue;
+    const site = hostOf(item.url);
+    bySite.set(site, [...(bySite.get(site) ?? []), item]);
+  }
+
+  return (
+    <div className="flex flex-col gap-4 rounded-lg border border-black/10 dark:border-white/15 p-5">
+      <div className="flex flex-col gap-2">
+        <div className="flex items-baseline justify-between gap-4 text-sm text-zinc-700 dark:text-zinc-300">
+          <span>
+            {batch.status === "done" ? "Lot terminé" : "Lot en cours…"} {finished}/{batch.counts.total}
+          </span>
+          {batch.counts.failed > 0 && (
+            <span className="text-red-600 dark:text-red-400">
+              {batch.counts.failed} échec{batch.counts.failed > 1 ? "s" : ""}
+            </span>
+          )}
+        </div>
+        <div
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={batch.counts.total}
+          aria-valuenow={finished}
+          className="h-2 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800"
+        >
+          <div
+            className="h-full bg-black dark:bg-white transition-all"
+            style={{ width: `${batch.counts.total ? (finished / batch.counts.total) * 100 : 0}%` }}
+          />
+        </div>
+      </div>
+
+      {[...bySite].map(([site, items]) => (
+        <div key={site} className="flex flex-col gap-2">
+          <h3 className="text-sm font-semibold text-black dark:text-zinc-100">
+            {site} <span className="font-normal text-zinc-500">({items.length})</span>
+          </h3>
+          <ul className="flex flex-col gap-2">
+            {items.map((item) => (
+              <li key={item.position}>
+                <a href={item.url} target="_blank" rel="noopener noreferrer" className="font-medium text-black hover:underline dark:text-zinc-100">
+                  {item.summary!.title}
+                </a>
+                <ul className="mt-1 list-disc pl-5 text-sm text-zinc-700 dark:text-zinc-300">
+                  {item.summary!.bullets.slice(0, 3).map((bullet, i) => (
+                    <li key={i} className="line-clamp-2">{bullet}</li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+
+      {pending.length > 0 && (
+        <div className="flex flex-col gap-1">
+          <h3 className="text-sm font-semibold text-black dark:text-zinc-100">En attente ({pending.length})</h3>
+          <ul className="text-sm text-zinc-600 dark:text-zinc-400">
+            {pending.map((item) => (
+              <li key={item.position} className="truncate">
+                {item.status === "running" ? "⏳ " : ""}
+                {item.url}
+                {item.attempts > 1 ? ` (tentative ${item.attempts})` : ""}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {failed.length > 0 && (
+        <div className="flex flex-col gap-1">
+          <h3 className="text-sm font-semibold text-red-700 dark:text-red-300">Échecs ({failed.length})</h3>
+          <ul className="flex flex-col gap-1 text-sm">
+            {failed.map((item) => (
+              <li key={item.position}>
+                <span className="block truncate text-zinc-700 dark:text-zinc-300">{item.url}</span>
+                <span className="text-red-600 dark:text-red-400">
+                  {describeError(new ApiFailure(item.error ?? {})).message}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Latest summaries have no date until they reach the history; they are exported as of now. */
+function exportableLatest(summary: LatestSummary): ExportableSummary {
+  return { ...summary, url: summary.url ?? null, created_at: new Date().toISOString() };
+}
+
+function ExportSelect({
+  label,
+  onExport,
+  formats = EXPORT_FORMATS.filter((f) => f !== "zip"),
+  placeholder = "Exporter…",
+}: {
+  label: string;
+  onExport: (format: ExportFormat) => void;
+  formats?: readonly ExportFormat[];
+  placeholder?: string;
+}) {
+  return (
+    <select
+      aria-label={label}
+      value=""
+      onChange={(e) => onExport(e.target.value as ExportFormat)}
+      className="rounded-md border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-950 px-2 py-1 text-sm text-zinc-700 dark:text-zinc-300"
+    >
+      <option value="" disabled>
+        {placeholder}
+      </option>
+      {formats.map((format) => (
+        <option key={format} value={format}>
+          {EXPORT_FORMAT_LABELS[format]}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function intervalLabel(minutes: number): string {
+  return WATCH_INTERVALS.find((i) => i.minutes === minutes)?.label ?? `toutes les ${minutes} minutes`;
+}
+
+/** Versions of a watched page, newest first, with what changed in each. */
+function WatchTimeline({ watch }: { watch: Watch }) {
+  return (
+    <div className="mt-3 border-t border-black/10 dark:border-white/15 pt-3 text-sm">
+      <p className="text-zinc-600 dark:text-zinc-400">
+        Suivi {intervalLabel(watch.interval_minutes)}
+        {watch.last_checked_at && ` · vérifié le ${new Date(watch.last_checked_at).toLocaleString()}`}
+      </p>
+      {watch.last_error && (
+        <p className="text-red-600 dark:text-red-400">
+          Dernière vérification en échec : {describeError(new ApiFailure(watch.last_error)).message}
+        </p>
+      )}
+      <ol className="mt-2 flex flex-col gap-2 border-l border-zinc-300 dark:border-zinc-700 pl-3">
+        {watch.versions.map((version, idx) => (
+          <li key={version.id}>
+            <div className="flex items-baseline gap-2">
+              <time className="text-xs text-zinc-500 dark:text-zinc-400">
+                {new Date(version.created_at).toLocaleString()}
+              </time>
+              {idx === 0 && <span className="text-xs font-medium text-emerald-700 dark:text-emerald-400">actuelle</span>}
+              {version.changes !== null && (
+                <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                  +{version.added_lines} / −{version.removed_lines} lignes
+                </span>
+              )}
+            </div>
+            <p className="text-zinc-800 dark:text-zinc-200">{version.title ?? "Résumé supprimé"}</p>
+            {version.changes === null ? (
+              <p className="text-zinc-500 dark:text-zinc-400">Version de départ</p>
+            ) : version.changes.length ? (
+              <ul className="list-disc pl-5 text-zinc-700 dark:text-zinc-300">
+                {version.changes.map((change, i) => (
+                  <li key={i}>{change}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-zinc-500 dark:text-zinc-400">Changements non décrits.</p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+function SignInForm({ onSignedIn }: { onSignedIn: () => void }) {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function signIn(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password }),
+      });
+      if (!res.ok) throw await readApiFailure(res);
+      onSignedIn();
+    } catch (e: unknown) {
+      const failure = e instanceof ApiFailure ? e.body : null;
+      setError(failure?.code === "UNAUTHORIZED" ? "Email ou mot de passe incorrect." : describeError(e).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <form onSubmit={signIn} className="flex flex-col gap-3 max-w-sm">
+      <h2 className="text-lg font-semibold text-black dark:text-zinc-50">Connexion</h2>
+      <label className="flex flex-col gap-1 text-sm text-zinc-700 dark:text-zinc-300">
+        Email
+        <input
+          type="email"
+          autoComplete="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+          className="h-10 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-950 px-3 text-black dark:text-white"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-sm text-zinc-700 dark:text-zinc-300">
+        Mot de passe
+        <input
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+          className="h-10 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-950 px-3 text-black dark:text-white"
+        />
+      </label>
+      {error && (
+        <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+          {error}
+        </p>
+      )}
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="h-10 rounded-lg bg-black text-white dark:bg-white dark:text-black px-5 font-medium disabled:opacity-50"
+      >
+        {isSubmitting ? "Connexion…" : "Se connecter"}
+      </button>
+    </form>
+  );
+}
+
+/** Tooltip of a point: the passages of the source that support it. */
+function citationTitle(citations: Citation[] | undefined): string | undefined {
+  return citations?.length ? citations.map((c) => `§${c.paragraph + 1} « ${c.quote} »`).join("\n") : undefined;
+}
+
+function PointSources({ citations, unsupported }: { citations?: Citation[]; unsupported: boolean }) {
+  if (unsupported) {
+    return (
+      <span
+        className="ml-2 rounded-full bg-amber-100 dark:bg-amber-900/40 px-2 py-0.5 text-xs text-amber-800 dark:text-amber-300"
+        title="Aucun passage de la source ne confirme ce point"
+      >
+        Non vérifié
+      </span>
+    );
+  }
+  if (!citations?.length) return null;
+  return (
+    <details className="mt-1 text-sm">
+      <summary className="cursor-pointer text-zinc-500 hover:text-zinc-800 dark:text-zinc-400 dark:hover:text-zinc-200">
+        {citations.length} source{citations.length > 1 ? "s" : ""}
+      </summary>
+      <ul className="mt-1 flex flex-col gap-1">
+        {citations.map((citation, i) => (
+          <li key={i} className="border-l-2 border-zinc-300 dark:border-zinc-700 pl-2 text-zinc-600 dark:text-zinc-400">
+            <span className="italic">« {citation.quote} »</span>
+            <span className="ml-2 text-xs text-zinc-500">§{citation.paragraph + 1}</span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+function SummaryBody({
+  summary,
+  isExpanded,
+}: {
+  summary: Pick<Summary, "bullets" | "sections" | "options" | "citations" | "unsupported_points">;
+  isExpanded: boolean;
+}) {
+  const mode = summary.options?.mode ?? "bullets";
+  const sources = (idx: number) => (
+    <PointSources
+      citations={summary.citations?.[idx]}
+      unsupported={summary.unsupported_points?.includes(idx) ?? false}
+    />
+  );
+  if (mode === "tldr" || mode === "abstract") {
+    return (
+      <div className="mt-2 text-zinc-700 dark:text-zinc-300">
+        <p title={citationTitle(summary.citations?.flat())}>{summary.bullets.join(" ")}</p>
+        {summary.bullets.map((_, idx) => (
+          <div key={idx}>{sources(idx)}</div>
+        ))}
+      </div>
+    );
+  }
+  if (mode === "sections" && summary.sections?.length) {
+    return (
+      <div className="mt-2 flex flex-col gap-3">
+        {summary.sections.map((section, idx) => (
+          <div key={idx}>
+            <h4 className="font-medium text-black dark:text-zinc-100" title={citationTitle(summary.citations?.[idx])}>
+              {section.heading}
+            </h4>
+            {sources(idx)}
+            <ul className="mt-1 list-disc pl-5 text-zinc-700 dark:text-zinc-300">
+              {section.points.map((point, i) => (
+                <li key={i}>{point}</li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    );
+  }
+  return (
+    <ul className="mt-2 list-disc pl-5 text-zinc-700 dark:text-zinc-300">
+      {(isExpanded ? summary.bullets : summary.bullets.slice(0, 3)).map((point, idx) => (
+        <li key={idx}>
+          <span className={isExpanded ? undefined : "line-clamp-2"} title={citationTitle(summary.citations?.[idx])}>
+            {point}
+          </span>
+          {sources(idx)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function SourceLink({ url }: { url: string }) {
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2 hover:text-black dark:hover:text-white">
+      {hostOf(url)}
+    </a>
+  );
+}
+
+/** Shared points, disagreements and points unique to each source, each with the sources behind it. */
+function ComparisonBody({
+  summary,
+}: {
+  summary: Pick<Summary, "comparison" | "sources" | "failed_sources"> & { comparison: Comparison };
+}) {
+  const { shared, disagreements, unique } = summary.comparison;
+  const heading = "font-medium text-black dark:text-zinc-100";
+  return (
+    <div className="mt-2 flex flex-col gap-3 text-zinc-700 dark:text-zinc-300">
+      {shared.length > 0 && (
+        <div>
+          <h4 className={heading}>Points communs</h4>
+          <ul className="mt-1 list-disc pl-5">
+            {shared.map((item, i) => (
+              <li key={i}>
+                {item.point}
+                <span className="ml-2 text-xs text-zinc-500">
+                  {item.sources.map((url, j) => (
+                    <span key={url}>
+                      {j > 0 && ", "}
+                      <SourceLink url={url} />
+                    </span>
+                  ))}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {disagreements.length > 0 && (
+        <div>
+          <h4 className={heading}>Divergences</h4>
+          <ul className="mt-1 flex flex-col gap-2">
+            {disagreements.map((item, i) => (
+              <li key={i}>
+                {item.topic}
+                <ul className="mt-1 flex flex-col gap-1 text-sm">
+                  {item.positions.map((position) => (
+                    <li key={position.source} className="border-l-2 border-zinc-300 dark:border-zinc-700 pl-2">
+                      <span className="text-xs text-zinc-500">
+                        <SourceLink url={position.source} />
+                      </span>{" "}
+                      {position.claim}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {unique.map((item) => (
+        <div key={item.source}>
+          <h4 className={heading}>
+            Seulement dans <SourceLink url={item.source} />
+          </h4>
+          <ul className="mt-1 list-disc pl-5">
+            {item.points.map((point, i) => (
+              <li key={i}>{point}</li>
+            ))}
+          </ul>
+        </div>
+      ))}
+      {summary.sources && (
+        <details className="text-sm">
+          <summary className="cursor-pointer text-zinc-500 hover:text-zinc-800 dark:text-zinc-400 dark:hover:text-zinc-200">
+            {summary.sources.length} sources comparées
+          </summary>
+          <ul className="mt-1 flex flex-col gap-1">
+            {summary.sources.map((source) => (
+              <li key={source.url}>
+                <a href={source.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                  {source.title}
+                </a>
+                <span className="ml-2 text-xs text-zinc-500">{hostOf(source.url)}</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {summary.failed_sources?.length ? (
+        <ul className="text-xs text-amber-700 dark:text-amber-300">
+          {summary.failed_sources.map((failure) => (
+            <li key={failure.url}>
+              {hostOf(failure.url)} n’a pas pu être comparé : {describeError(new ApiFailure(failure.error)).message}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
+
+/** Questions about the summarized page, answered from its text with the passages quoted. */
+function SummaryChat({ summaryId }: { summaryId: number }) {
+  const [turns, setTurns] = useState<SummaryQuestion[] | null>(null);
+  const [question, setQuestion] = useState("");
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function chatError(e: unknown): string {
+    if (e instanceof ApiFailure && e.body.code === "CONTENT_EMPTY") {
+      return "Le texte de cette page n’a pas été conservé : résumez-la de nouveau pour poser des questions.";
+    }
+    return describeError(e).message;
+  }
+
+  async function loadTurns() {
+    if (turns !== null) return;
+    try {
+      const res = await apiFetch(`/api/summaries/${summaryId}/ask`);
+      if (!res.ok) throw await readApiFailure(res);
+      setTurns(((await res.json()) as { questions: SummaryQuestion[] }).questions);
+    } catch (e) {
+      setError(chatError(e));
+    }
+  }
+
+  async function ask(e: React.FormEvent) {
+    e.preventDefault();
+    if (!question.trim() || isAsking) return;
+    setIsAsking(true);
+    setError(null);
+    try {
+      const res = await apiFetch(`/api/summaries/${summaryId}/ask`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ question }),
+      });
+      if (!res.ok) throw await readApiFailure(res);
+      const turn = (await res.json()) as SummaryQuestion;
+      setTurns((prev) => [...(prev ?? []), turn]);
+      setQuestion("");
+    } catch (e) {
+      setError(chatError(e));
+    } finally {
+      setIsAsking(false);
+    }
+  }
+
+  return (
+    <details className="mt-3 text-sm" onToggle={(e) => e.currentTarget.open && loadTurns()}>
+      <summary className="cursor-pointer text-zinc-700 hover:text-black dark:text-zinc-300 dark:hover:text-white">
+        Poser une question sur la page
+      </summary>
+      {turns && turns.length > 0 && (
+        <ol className="mt-2 flex flex-col gap-3">
+          {turns.map((turn) => (
+            <li key={turn.id}>
+              <p className="font-medium text-black dark:text-zinc-100">{turn.question}</p>
+              <p className="mt-1 text-zinc-700 dark:text-zinc-300">{turn.answer}</p>
+              {turn.citations.length > 0 && (
+                <ul className="mt-1 flex flex-col gap-1">
+                  {turn.citations.map((citation, i) => (
+                    <li key={i} className="border-l-2 border-zinc-300 dark:border-zinc-700 pl-2 text-zinc-600 dark:text-zinc-400">
+                      <span className="italic">« {citation.quote} »</span>
+                      <span className="ml-2 text-xs text-zinc-500">§{citation.paragraph + 1}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+      <form onSubmit={ask} className="mt-2 flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder={turns?.length ? "Une autre question…" : "Que dit l’article sur…"}
+          aria-label="Question sur la page"
+          maxLength={1000}
+          className="min-w-0 flex-1 rounded-md border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-950 px-2 py-1 text-zinc-900 dark:text-zinc-100"
+        />
+        <button
+          type="submit"
+          disabled={!question.trim() || isAsking}
+          className="rounded-md bg-black text-white dark:bg-white dark:text-black px-3 py-1 disabled:opacity-50"
+        >
+          {isAsking ? "…" : "Demander"}
+        </button>
+      </form>
+      {error && <p className="mt-1 text-red-600 dark:text-red-400">{error}</p>}
+    </details>
+  );
+}
+
 function removeFromHistory(items: Summary[], entry: Pick<Summary, "id" | "url">): Summary[] {
   return items.filter((i) => !(i.id === entry.id && i.url === entry.url));
 }
 
-function upsertByUrl(items: Summary[], entry: Summary): Summary[] {
-  const without = items.filter((i) => i.url !== entry.url);
+function sourceLabel(summary: Pick<Summary, "url" | "source_type" | "source_name">): string {
+  return summary.url ?? summary.source_name ?? (summary.source_type === "file" ? "Fichier importé" : "Texte collé");
+}
+
+function upsertSummary(items: Summary[], entry: Summary): Summary[] {
+  const without = items.filter((i) => i.id !== entry.id && (entry.url === null || i.url !== entry.url));
   return [entry, ...without];
 }
 
 export default function Home() {
+  const [inputMode, setInputMode] = useState<InputMode>("url");
   const [url, setUrl] = useState("");
+  const [rawText, setRawText] = useState("");
+  const [file, setFile] = useState<File | null>(null);
   const [isSummarizing, setIsSummarizing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [latestSummary, setLatestSummary] = useState<Pick<Summary, "title" | "bullets"> | null>(null);
-  const [localHistory, setLocalHistory] = useState<Summary[]>([]);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [error, setError] = useState<DisplayedError | null>(null);
+  const [latestSummary, setLatestSummary] = useState<LatestSummary | null>(null);
+  const [options, setOptions] = useState<SummaryOptions>(DEFAULT_SUMMARY_OPTIONS);
+  const [history, setHistory] = useState<Summary[]>([]);
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  const [isHistoryOffline, setIsHistoryOffline] = useState(false);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
   const [toast, setToast] = useState<string | null>(null);
+  const [authState, setAuthState] = useState<AuthState>("checking");
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  /** Empty for the personal space. */
+  const [workspaceId, setWorkspaceId] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  /** Null when not searching: the history is shown instead. */
+  const [searchResults, setSearchResults] = useState<SearchHit[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [batchSource, setBatchSource] = useState<BatchSourceType>("urls");
+  const [batchInput, setBatchInput] = useState("");
+  const [batch, setBatch] = useState<Batch | null>(null);
+  const [isBatchActive, setIsBatchActive] = useState(false);
+  const [compareInput, setCompareInput] = useState("");
+  const [watches, setWatches] = useState<Watch[]>([]);
+
+  async function loadHistory(cursor: string | null, workspace: string) {
+    setIsLoadingHistory(true);
+    try {
+      const params = new URLSearchParams({ limit: String(HISTORY_PAGE_SIZE) });
+      if (cursor) params.set("cursor", cursor);
+      if (workspace) params.set("workspace", workspace);
+      const res = await apiFetch(`/api/summaries?${params}`);
+      if (res.status === 401) {
+        setAuthState("signed-out");
+        return;
+      }
+      if (!res.ok) throw await readApiFailure(res);
+      const page = (await res.json()) as { items: Summary[]; next_cursor: string | null };
+      setHistory((prev) => {
+        const next = cursor ? [...prev, ...page.items.filter((i) => !prev.some((p) => p.id === i.id))] : page.items;
+        saveLocalHistory(next);
+        return next;
+      });
+      setHistoryCursor(page.next_cursor);
+      setIsHistoryOffline(false);
+    } catch {
+      // Keep showing the local copy.
+      setIsHistoryOffline(true);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }
+
+  async function loadWatches() {
+    try {
+      const res = await apiFetch("/api/watches");
+      if (!res.ok) throw await readApiFailure(res);
+      setWatches(((await res.json()) as { items: Watch[] }).items);
+    } catch {
+      // Cards are shown without their timeline.
+    }
+  }
+
+  /** The watch whose versions include this summary. */
+  function watchOf(summaryId: number): Watch | undefined {
+    return watches.find((w) => w.versions.some((v) => v.summary_id === summaryId));
+  }
+
+  async function watchSummary(entry: Summary, intervalMinutes: number) {
+    try {
+      const res = await apiFetch("/api/watches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ summary_id: entry.id, interval_minutes: intervalMinutes }),
+      });
+      if (!res.ok) throw await readApiFailure(res);
+      const watch = (await res.json()) as Watch;
+      setWatches((prev) => [watch, ...prev.filter((w) => w.id !== watch.id)]);
+      setToast(`Page suivie ${intervalLabel(intervalMinutes)}`);
+    } catch (e: unknown) {
+      setToast(describeError(e).message);
+    }
+    setTimeout(() => setToast(null), 3000);
+  }
+
+  async function unwatch(watch: Watch) {
+    try {
+      const res = await apiFetch(`/api/watches/${watch.id}`, { method: "DELETE" });
+      if (!res.ok && res.status !== 404) throw await readApiFailure(res);
+      setWatches((prev) => prev.filter((w) => w.id !== watch.id));
+      setToast("Page plus suivie");
+    } catch (e: unknown) {
+      setToast(describeError(e).message);
+    }
+    setTimeout(() => setToast(null), 3000);
+  }
+
+  async function loadSession() {
+    try {
+      const res = await apiFetch("/api/auth/me");
+      if (res.status === 401) {
+        setAuthState("signed-out");
+        return;
+      }
+      if (!res.ok) throw await readApiFailure(res);
+      const me = (await res.json()) as { user: AuthUser; workspaces: Workspace[] };
+      setUser(me.user);
+      setWorkspaces(me.workspaces);
+      setAuthState("signed-in");
+    } catch {
+      setAuthState("offline");
+      setIsHistoryOffline(true);
+    }
+  }
+
+  async function signOut() {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => {});
+    // The local copy belongs to the previous user.
+    saveLocalHistory([]);
+    setHistory([]);
+    setHistoryCursor(null);
+    setLatestSummary(null);
+    setUser(null);
+    setWorkspaces([]);
+    setWorkspaceId("");
+    setWatches([]);
+    setAuthState("signed-out");
+  }
+
+  function selectWorkspace(id: string) {
+    setWorkspaceId(id);
+    setHistoryCursor(null);
+    setSearchResults(null);
+    loadHistory(null, id);
+  }
+
+  async function searchHistory(e: React.FormEvent) {
+    e.preventDefault();
+    const q = searchQuery.trim();
+    if (!q) {
+      setSearchResults(null);
+      return;
+    }
+    setIsSearching(true);
+    try {
+      const params = new URLSearchParams({ q });
+      if (workspaceId) params.set("workspace", workspaceId);
+      const res = await apiFetch(`/api/search?${params}`);
+      if (!res.ok) throw await readApiFailure(res);
+      const page = (await res.json()) as { items: SearchHit[] };
+      setSearchResults(page.items);
+    } catch (e: unknown) {
+      setToast(describeError(e).message);
+      setTimeout(() => setToast(null), 3000);
+    } finally {
+      setIsSearching(false);
+    }
+  }
+
+  function clearSearch() {
+    setSearchQuery("");
+    setSearchResults(null);
+  }
 
   useEffect(() => {
-    setLocalHistory(loadLocalHistory());
+    setHistory(loadLocalHistory());
+    setOptions(loadSummaryOptions());
+    loadSession();
   }, []);
 
+  useEffect(() => {
+    if (authState === "signed-in") {
+      loadHistory(null, "");
+      loadWatches();
+    }
+  }, [authState]);
+
+  async function deleteSummary(entry: Summary) {
+    try {
+      const res = await apiFetch(`/api/summaries/${entry.id}`, { method: "DELETE" });
+      // Already gone from the server: just drop the local copy.
+      if (!res.ok && res.status !== 404) throw await readApiFailure(res);
+    } catch (e: unknown) {
+      setToast(describeError(e).message);
+      setTimeout(() => setToast(null), 3000);
+      return;
+    }
+    setHistory((prev) => {
+      const next = removeFromHistory(prev, { id: entry.id, url: entry.url });
+      saveLocalHistory(next);
+      return next;
+    });
+    setToast("Élément supprimé");
+    setTimeout(() => setToast(null), 2000);
+  }
+
+  function updateOptions(patch: Partial<SummaryOptions>) {
+    setOptions((prev) => {
+      const next = { ...prev, ...patch };
+      saveSummaryOptions(next);
+      return next;
+    });
+  }
+
 
-  async function handleSummarize() {
+  async function handleSummarize(force = false) {
     setError(null);
     setIsSummarizing(true);
+    setProgress(null);
+    setLatestSummary(null);
+    const requestOptions = options;
     try {
-      const res = await fetch("/api/summarize", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ url }),
-      });
-      if (!res.ok) {
-        throw new Error("Échec de la génération du résumé");
+      let init: RequestInit;
+      if (inputMode === "file" && file) {
+        const form = new FormData();
+        form.append("file", file);
+        form.append("options", JSON.stringify(requestOptions));
+        form.append("stream", "true");
+        form.append("force", String(force));
+        if (workspaceId) form.append("workspace_id", workspaceId);
+        init = { method: "POST", headers: { Accept: "text/event-stream" }, body: form };
+      } else {
+        const source = inputMode === "text" ? { text: rawText } : { url };
+        init = {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+          body: JSON.stringify({
+            ...source,
+            stream: true,
+            force,
+            options: requestOptions,
+            ...(workspaceId ? { workspace_id: workspaceId } : {}),
+          }),
+        };
+      }
+      const res = await apiFetch("/api/summarize", init);
+      if (res.status === 401) setAuthState("signed-out");
+      if (!res.ok) throw await readApiFailure(res);
+      if (!res.body) throw new ApiFailure({ retryable: true });
+      let payload: Summary | null = null;
+      for await (const message of readSseEvents(res.body)) {
+        const data = JSON.parse(message.data);
+        if (message.event === "progress") {
+          setProgress(data as Progress);
+        } else if (message.event === "title") {
+          setLatestSummary((prev) => ({ title: String(data.title), bullets: prev?.bullets ?? [], options: requestOptions }));
+        } else if (message.event === "bullet") {
+          setLatestSummary((prev) => ({
+            title: prev?.title ?? "",
+            bullets: [...(prev?.bullets ?? []), String(data.text)],
+            options: requestOptions,
+          }));
+        } else if (message.event === "done") {
+          payload = data;
+        } else if (message.event === "error") {
+          throw new ApiFailure(data as ErrorBody);
+        }
+      }
+      if (!payload) {
+        throw new ApiFailure({ retryable: true });
       }
-      const payload: { id: number; url: string; title: string; bullets: string[]; created_at: string } = await res.json();
       const normalized = {
+        url: payload.url,
+        source_name: payload.source_name,
         title: payload.title ?? "Résumé",
         bullets: Array.isArray(payload.bullets) ? payload.bullets : [],
+        sections: payload.sections,
+        options: payload.options,
+        coverage: payload.coverage,
+        citations: payload.citations,
+        unsupported_points: payload.unsupported_points,
+        cached: payload.cached,
       };
       setLatestSummary(normalized);
       setIsExpanded(false);
       const created: Summary = {
         id: payload.id,
         url: payload.url,
+        source_type: payload.source_type,
+        source_name: payload.source_name,
         title: payload.title,
         bullets: normalized.bullets,
+        sections: payload.sections,
+        options: payload.options,
         created_at: payload.created_at,
+        coverage: payload.coverage,
+        citations: payload.citations,
+        unsupported_points: payload.unsupported_points,
       };
-      setLocalHistory((prev) => {
-        const next = upsertByUrl(prev, created);
+      setHistory((prev) => {
+        const next = upsertSummary(prev, created);
         saveLocalHistory(next);
         return next;
       });
     } catch (e: unknown) {
-      const message = e instanceof Error ? e.message : "Une erreur est survenue";
-      setError(message);
+      setError(describeError(e));
+      setLatestSummary(null);
     } finally {
       setIsSummarizing(false);
+      setProgress(null);
+    }
+  }
+
+  /** Follows the batch until it is done, reconnecting when the server closes the stream. */
+  async function followBatch(id: string) {
+    for (let done = false; !done; ) {
+      const res = await apiFetch(`/api/batches/${id}/events`, { headers: { Accept: "text/event-stream" } });
+      if (!res.ok) throw await readApiFailure(res);
+      if (!res.body) throw new ApiFailure({ retryable: true });
+      for await (const message of readSseEvents(res.body)) {
+        const data = JSON.parse(message.data);
+        if (message.event === "batch" || message.event === "done") {
+          setBatch(data as Batch);
+          done = message.event === "done";
+        } else if (message.event === "item") {
+          setBatch((prev) => (prev ? withBatchItem(prev, data as BatchItem) : prev));
+        } else if (message.event === "error") {
+          throw new ApiFailure(data as ErrorBody);
+        }
+      }
+    }
+  }
+
+  async function startBatch() {
+    setError(null);
+    setIsBatchActive(true);
+    setBatch(null);
+    try {
+      const source =
+        batchSource === "urls"
+          ? { urls: batchInput.split(/\s+/).filter(Boolean).map(ensureProtocol) }
+          : { [batchSource]: ensureProtocol(batchInput.trim()) };
+      const res = await apiFetch("/api/batches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...source,
+          options,
+          ...(workspaceId ? { workspace_id: workspaceId } : {}),
+        }),
+      });
+      if (!res.ok) throw await readApiFailure(res);
+      const created = (await res.json()) as Batch;
+      setBatch(created);
+      await followBatch(created.id);
+      loadHistory(null, workspaceId);
+    } catch (e: unknown) {
+      setError(describeError(e));
+    } finally {
+      setIsBatchActive(false);
+    }
+  }
+
+  async function startComparison() {
+    setError(null);
+    setIsSummarizing(true);
+    setProgress(null);
+    setLatestSummary(null);
+    try {
+      const res = await apiFetch("/api/compare", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+        body: JSON.stringify({
+          urls: compareUrls,
+          stream: true,
+          options,
+          ...(workspaceId ? { workspace_id: workspaceId } : {}),
+        }),
+      });
+      if (res.status === 401) setAuthState("signed-out");
+      if (!res.ok) throw await readApiFailure(res);
+      if (!res.body) throw new ApiFailure({ retryable: true });
+      let payload: Summary | null = null;
+      for await (const message of readSseEvents(res.body)) {
+        const data = JSON.parse(message.data);
+        if (message.event === "progress") {
+          setProgress(data as Progress);
+        } else if (message.event === "done") {
+          payload = data;
+        } else if (message.event === "error") {
+          throw new ApiFailure(data as ErrorBody);
+        }
+      }
+      if (!payload) throw new ApiFailure({ retryable: true });
+      setLatestSummary(payload);
+      setIsExpanded(false);
+      // The summaries of the sources were added to the history too.
+      loadHistory(null, workspaceId);
+    } catch (e: unknown) {
+      setError(describeError(e));
+      setLatestSummary(null);
+    } finally {
+      setIsSummarizing(false);
+      setProgress(null);
     }
   }
 
@@ -103,6 +1210,18 @@ export default function Home() {
     }
   }, [url]);
 
+  const compareUrls = [...new Set(compareInput.split(/\s+/).filter(Boolean).map(ensureProtocol))];
+
+  const canSubmit =
+    !isSummarizing &&
+    (inputMode === "url"
+      ? isUrlValid
+      : inputMode === "text"
+        ? rawText.trim().length > 0
+        : inputMode === "compare"
+          ? compareUrls.length >= 2 && compareUrls.length <= 10
+          : file !== null);
+
   // Auto-prefix protocol on blur if missing
   function ensureProtocol(value: string): string {
     if (!value) return value;
@@ -143,137 +1262,432 @@ export default function Home() {
     }
   }
 
-  function formatSummaryForExport(summary: { title: string; bullets: string[] }, url?: string): string {
-    const lines: string[] = [];
-    lines.push(summary.title);
-    lines.push("");
-    if (url) {
-      lines.push(`URL: ${url}`);
-      lines.push("");
-    }
-    lines.push("Points clés:");
-    summary.bullets.forEach((bullet, index) => {
-      lines.push(`${index + 1}. ${bullet}`);
-    });
-    return lines.join("\n");
-  }
-
-  function exportSummaryToTxt(summary: { title: string; bullets: string[] }, url?: string): void {
-    const content = formatSummaryForExport(summary, url);
-    const blob = new Blob([content], { type: "text/plain;charset=utf-8" });
-    const filename = summary.title
-      .replace(/[^a-z0-9]+/gi, "-")
-      .replace(/^-+|-+$/g, "")
-      .toLowerCase()
-      .slice(0, 50) || "resume";
+  function downloadFile(blob: Blob, filename: string) {
     const urlObj = URL.createObjectURL(blob);
     const link = document.createElement("a");
     link.href = urlObj;
-    link.download = `${filename}.txt`;
+    link.download = filename;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(urlObj);
-    setToast("Résumé exporté");
+  }
+
+  async function exportSummaries(items: ExportableSummary[], format: ExportFormat) {
+    try {
+      const { renderExport } = await import("@/lib/export");
+      const file = await renderExport(items, format);
+      downloadFile(new Blob([file.data as BlobPart], { type: file.contentType }), file.filename);
+      setToast(items.length > 1 ? `${items.length} résumés exportés` : "Résumé exporté");
+    } catch {
+      setToast("Impossible d’exporter");
+    }
     setTimeout(() => setToast(null), 2000);
   }
 
+  /** The whole history of the current space, rendered by the server, or the local copy when offline. */
+  async function exportHistory(format: ExportFormat) {
+    if (authState !== "signed-in" || isHistoryOffline) {
+      await exportSummaries(history, format);
+      return;
+    }
+    try {
+      const params = new URLSearchParams({ format });
+      if (workspaceId) params.set("workspace", workspaceId);
+      const res = await apiFetch(`/api/summaries/export?${params}`);
+      if (!res.ok) throw await readApiFailure(res);
+      const filename = res.headers.get("content-disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `resumes.${format}`;
+      downloadFile(await res.blob(), filename);
+      setToast("Historique exporté");
+    } catch (e: unknown) {
+      setToast(describeError(e).message);
+    }
+    setTimeout(() => setToast(null), 3000);
+  }
+
+  /** Reads back a JSON or ZIP export, into the server history or, offline, the local copy. */
+  async function importHistory(file: File) {
+    try {
+      const data = new Uint8Array(await file.arrayBuffer());
+      if (authState === "signed-in" && !isHistoryOffline) {
+        const params = new URLSearchParams();
+        if (workspaceId) params.set("workspace", workspaceId);
+        const res = await apiFetch(`/api/summaries/import?${params}`, {
+          method: "POST",
+          headers: { "Content-Type": file.type || "application/octet-stream" },
+          body: data,
+        });
+        if (!res.ok) throw await readApiFailure(res);
+        const { imported, skipped } = (await res.json()) as { imported: number; skipped: number };
+        setToast(`${imported} résumé${imported > 1 ? "s" : ""} importé${imported > 1 ? "s" : ""}${skipped ? `, ${skipped} déjà présent${skipped > 1 ? "s" : ""}` : ""}`);
+        await loadHistory(null, workspaceId);
+      } else {
+        const { readBundle } = await import("@/lib/export");
+        const result = readBundle(data);
+        if (!result.ok) throw new ApiFailure({ error: result.error });
+        const imported: Summary[] = result.bundle.items.map((item, i) => ({ ...item, id: item.id ?? -(i + 1) }));
+        setHistory((prev) => {
+          const next = [...imported, ...prev.filter((p) => !imported.some((i) => i.id === p.id))].sort((a, b) =>
+            b.created_at.localeCompare(a.created_at)
+          );
+          saveLocalHistory(next);
+          return next;
+        });
+        setToast(`${imported.length} résumé${imported.length > 1 ? "s" : ""} importé${imported.length > 1 ? "s" : ""} localement`);
+      }
+    } catch (e: unknown) {
+      setToast(describeError(e).message);
+    }
+    setTimeout(() => setToast(null), 3000);
+  }
+
+  const submitButton = (
+    <button
+      onClick={() => (inputMode === "compare" ? startComparison() : handleSummarize())}
+      disabled={!canSubmit}
+      className="w-full sm:w-auto shrink-0 h-12 rounded-lg bg-black text-white dark:bg-white dark:text-black px-5 font-medium focus:outline-none focus:ring-2 focus:ring-zinc-800/10 dark:focus:ring-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {isSummarizing ? (
+        <span className="inline-flex items-center gap-2">
+          <svg className="h-4 w-4 animate-spin" viewBox="0 0 24 24" aria-hidden="true">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+            <path className="opacity-75" d="M4 12a8 8 0 018-8" fill="currentColor" />
+          </svg>
+          {inputMode === "compare" ? "Comparaison en cours…" : "Résumé en cours…"}
+        </span>
+      ) : inputMode === "compare" ? (
+        "Comparer"
+      ) : (
+        "Résumer"
+      )}
+    </button>
+  );
+
+  const title = (
+    <div className="flex flex-col gap-2">
+      <h1 className="text-2xl sm:text-3xl font-semibold tracking-tight text-black dark:text-zinc-50">
+        Smart Web Summarizer
+      </h1>
+      <p className="text-zinc-600 dark:text-zinc-400">Collez une URL et obtenez un résumé concis.</p>
+    </div>
+  );
+
+  if (authState === "signed-out") {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-zinc-50 font-sans dark:bg-black">
+        <main className="flex min-h-screen w-full max-w-3xl flex-col gap-10 py-16 px-6 sm:px-10 bg-white dark:bg-black">
+          <header>{title}</header>
+          <SignInForm onSignedIn={loadSession} />
+        </main>
+      </div>
+    );
+  }
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-zinc-50 font-sans dark:bg-black">
       <main className="flex min-h-screen w-full max-w-3xl flex-col gap-10 py-16 px-6 sm:px-10 bg-white dark:bg-black">
-        <header className="flex flex-col gap-2">
-          <div className="flex flex-col gap-2">
-            <h1 className="text-2xl sm:text-3xl font-semibold tracking-tight text-black dark:text-zinc-50">
-              Smart Web Summarizer
-            </h1>
-            <p className="text-zinc-600 dark:text-zinc-400">Collez une URL et obtenez un résumé concis.</p>
-          </div>
+        <header className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          {title}
+          {user && (
+            <div className="flex flex-col items-start sm:items-end gap-2 text-sm">
+              <div className="flex items-center gap-3">
+                <span className="text-zinc-600 dark:text-zinc-400">{user.email}</span>
+                <button onClick={signOut} className="underline underline-offset-2 text-zinc-700 dark:text-zinc-300">
+                  Se déconnecter
+                </button>
+              </div>
+              {workspaces.length > 0 && (
+                <label className="flex items-center gap-2 text-zinc-700 dark:text-zinc-300">
+                  Espace
+                  <select
+                    value={workspaceId}
+                    onChange={(e) => selectWorkspace(e.target.value)}
+                    disabled={isSummarizing}
+                    className="h-8 rounded-md border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-950 px-2 text-black dark:text-white"
+                  >
+                    <option value="">Personnel (privé)</option>
+                    {workspaces.map((workspace) => (
+                      <option key={workspace.id} value={workspace.id}>
+                        {workspace.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+          )}
         </header>
 
         <section className="flex flex-col gap-2">
-          <label htmlFor="url" className="text-sm font-medium text-black dark:text-zinc-100">
-            URL à résumer
-          </label>
-          <div className="flex flex-col sm:flex-row gap-3 items-stretch">
-            <div className="relative flex-1">
-              <input
-                id="url"
-                type="url"
-                inputMode="url"
-                placeholder="https://exemple.com/article"
-                value={url}
-                onChange={(e) => setUrl(e.target.value)}
-                onBlur={(e) => setUrl(ensureProtocol(e.target.value))}
-                onKeyDown={(e) => {
-                  if ((e.key === "Enter" || (e.key.toLowerCase() === "enter" && (e.metaKey || e.ctrlKey))) && isUrlValid && !isSummarizing) {
-                    e.preventDefault();
-                    handleSummarize();
-                  }
-                }}
-                autoFocus
-                aria-describedby={`url-help${url && !isUrlValid ? " url-error" : ""}`}
-                aria-invalid={Boolean(url) && !isUrlValid}
-                className={`w-full h-12 rounded-lg border bg-white dark:bg-zinc-900 pl-4 pr-16 py-3 text-black dark:text-zinc-100 placeholder:text-zinc-400 focus:outline-none focus:ring-2 ${
-                  url
-                    ? isUrlValid
-                      ? "border-emerald-400/50 focus:ring-emerald-500/20"
-                      : "border-red-300 focus:ring-red-500/20"
-                    : "border-black/10 dark:border-white/20 focus:ring-zinc-800/10 dark:focus:ring-white/10"
+          <div role="tablist" aria-label="Source à résumer" className="flex gap-1 self-start rounded-lg bg-zinc-100 dark:bg-zinc-900 p-1">
+            {(Object.keys(INPUT_MODE_LABELS) as InputMode[]).map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                role="tab"
+                aria-selected={inputMode === mode}
+                onClick={() => setInputMode(mode)}
+                className={`rounded-md px-3 py-1 text-sm ${
+                  inputMode === mode
+                    ? "bg-white text-black shadow-sm dark:bg-zinc-700 dark:text-white"
+                    : "text-zinc-600 hover:text-black dark:text-zinc-400 dark:hover:text-white"
                 }`}
+              >
+                {INPUT_MODE_LABELS[mode]}
+              </button>
+            ))}
+          </div>
+          {inputMode === "url" && (
+            <>
+            <label htmlFor="url" className="text-sm font-medium text-black dark:text-zinc-100">
+              URL à résumer
+            </label>
+            <div className="flex flex-col sm:flex-row gap-3 items-stretch">
+              <div className="relative flex-1">
+                <input
+                  id="url"
+                  type="url"
+                  inputMode="url"
+                  placeholder="https://exemple.com/article"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  onBlur={(e) => setUrl(ensureProtocol(e.target.value))}
+                  onKeyDown={(e) => {
+                    if ((e.key === "Enter" || (e.key.toLowerCase() === "enter" && (e.metaKey || e.ctrlKey))) && canSubmit) {
+                      e.preventDefault();
+                      handleSummarize();
+                    }
+                  }}
+                  autoFocus
+                  aria-describedby={`url-help${url && !isUrlValid ? " url-error" : ""}`}
+                  aria-invalid={Boolean(url) && !isUrlValid}
+                  className={`w-full h-12 rounded-lg border bg-white dark:bg-zinc-900 pl-4 pr-16 py-3 text-black dark:text-zinc-100 placeholder:text-zinc-400 focus:outline-none focus:ring-2 ${
+                    url
+                      ? isUrlValid
+                        ? "border-emerald-400/50 focus:ring-emerald-500/20"
+                        : "border-red-300 focus:ring-red-500/20"
+                      : "border-black/10 dark:border-white/20 focus:ring-zinc-800/10 dark:focus:ring-white/10"
+                  }`}
+                />
+                {url && isUrlValid && (
+                  <span className="absolute right-9 top-1/2 -translate-y-1/2 text-emerald-500" aria-hidden="true">
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                      <path d="M5 13l4 4L19 7" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                    </svg>
+                  </span>
+                )}
+                {url && (
+                  <button
+                    type="button"
+                    onClick={() => setUrl("")}
+                    aria-label="Effacer"
+                    className="absolute right-2 top-1/2 -translate-y-1/2 rounded-md p-1 text-zinc-500 hover:text-black dark:text-zinc-400 dark:hover:text-white focus:outline-none focus:ring-2 focus:ring-zinc-800/10 dark:focus:ring-white/10"
+                  >
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true">
+                      <path d="M6 6l12 12M18 6L6 18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
+                    </svg>
+                  </button>
+                )}
+              </div>
+              {submitButton}
+            </div>
+            <p id="url-help" className="text-xs text-zinc-500 dark:text-zinc-400">
+              Entrez une URL complète (https://…).
+            </p>
+            {url && !isUrlValid && (
+              <p id="url-error" className="text-xs text-red-600 dark:text-red-300">
+                URL invalide. Vérifiez le format.
+              </p>
+            )}
+            </>
+          )}
+          {inputMode === "text" && (
+            <>
+              <label htmlFor="raw-text" className="text-sm font-medium text-black dark:text-zinc-100">
+                Texte à résumer
+              </label>
+              <textarea
+                id="raw-text"
+                rows={8}
+                placeholder="Collez ici le texte d’un document, d’un e-mail, de notes…"
+                value={rawText}
+                onChange={(e) => setRawText(e.target.value)}
+                className="w-full rounded-lg border border-black/10 dark:border-white/20 bg-white dark:bg-zinc-900 px-4 py-3 text-black dark:text-zinc-100 placeholder:text-zinc-400 focus:outline-none focus:ring-2 focus:ring-zinc-800/10 dark:focus:ring-white/10"
               />
-              {url && isUrlValid && (
-                <span className="absolute right-9 top-1/2 -translate-y-1/2 text-emerald-500" aria-hidden="true">
-                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                    <path d="M5 13l4 4L19 7" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-                  </svg>
-                </span>
+              <div className="flex justify-end">{submitButton}</div>
+            </>
+          )}
+          {inputMode === "batch" && (
+            <>
+              <div className="flex flex-wrap items-center gap-3">
+                <label htmlFor="batch-input" className="text-sm font-medium text-black dark:text-zinc-100">
+                  Résumer plusieurs pages
+                </label>
+                <select
+                  value={batchSource}
+                  onChange={(e) => setBatchSource(e.target.value as BatchSourceType)}
+                  aria-label="Type de lot"
+                  className="h-9 rounded-md border border-black/10 dark:border-white/20 bg-white dark:bg-zinc-900 px-2 text-sm text-black dark:text-zinc-100"
+                >
+                  {(Object.keys(BATCH_SOURCE_LABELS) as BatchSourceType[]).map((source) => (
+                    <option key={source} value={source}>{BATCH_SOURCE_LABELS[source]}</option>
+                  ))}
+                </select>
+              </div>
+              {batchSource === "urls" ? (
+                <textarea
+                  id="batch-input"
+                  rows={6}
+                  placeholder={"https://exemple.com/article-1\nhttps://exemple.com/article-2"}
+                  value={batchInput}
+                  onChange={(e) => setBatchInput(e.target.value)}
+                  className="w-full rounded-lg border border-black/10 dark:border-white/20 bg-white dark:bg-zinc-900 px-4 py-3 text-black dark:text-zinc-100 placeholder:text-zinc-400 focus:outline-none focus:ring-2 focus:ring-zinc-800/10 dark:focus:ring-white/10"
+                />
+              ) : (
+                <input
+                  id="batch-input"
+                  type="url"
+                  inputMode="url"
+                  placeholder={batchSource === "feed" ? "https://exemple.com/feed.xml" : "https://exemple.com/sitemap.xml"}
+                  value={batchInput}
+                  onChange={(e) => setBatchInput(e.target.value)}
+                  className="h-12 w-full rounded-lg border border-black/10 dark:border-white/20 bg-white dark:bg-zinc-900 px-4 text-black dark:text-zinc-100 placeholder:text-zinc-400 focus:outline-none focus:ring-2 focus:ring-zinc-800/10 dark:focus:ring-white/10"
+                />
               )}
-              {url && (
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {batchSource === "urls" ? "Une URL par ligne, 50 au plus." : "Les 20 articles les plus récents sont résumés."}
+                </p>
                 <button
-                  type="button"
-                  onClick={() => setUrl("")}
-                  aria-label="Effacer"
-                  className="absolute right-2 top-1/2 -translate-y-1/2 rounded-md p-1 text-zinc-500 hover:text-black dark:text-zinc-400 dark:hover:text-white focus:outline-none focus:ring-2 focus:ring-zinc-800/10 dark:focus:ring-white/10"
+                  onClick={startBatch}
+                  disabled={!batchInput.trim() || isBatchActive}
+                  className="shrink-0 h-12 rounded-lg bg-black text-white dark:bg-white dark:text-black px-5 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true">
-                    <path d="M6 6l12 12M18 6L6 18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
-                  </svg>
+                  {isBatchActive ? (batch ? "Lot en cours…" : "Préparation…") : "Lancer le lot"}
                 </button>
-              )}
-            </div>
-            <button
-              onClick={handleSummarize}
-              disabled={!isUrlValid || isSummarizing}
-              className="w-full sm:w-auto shrink-0 h-12 rounded-lg bg-black text-white dark:bg-white dark:text-black px-5 font-medium focus:outline-none focus:ring-2 focus:ring-zinc-800/10 dark:focus:ring-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isSummarizing ? (
-                <span className="inline-flex items-center gap-2">
-                  <svg className="h-4 w-4 animate-spin" viewBox="0 0 24 24" aria-hidden="true">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
-                    <path className="opacity-75" d="M4 12a8 8 0 018-8" fill="currentColor" />
-                  </svg>
-                  Résumé en cours…
-                </span>
-              ) : (
-                "Résumer"
-              )}
-            </button>
-          </div>
-          <p id="url-help" className="text-xs text-zinc-500 dark:text-zinc-400">
-            Entrez une URL complète (https://…).
-          </p>
-          {url && !isUrlValid && (
-            <p id="url-error" className="text-xs text-red-600 dark:text-red-300">
-              URL invalide. Vérifiez le format.
-            </p>
+              </div>
+              {batch && <BatchProgress batch={batch} />}
+            </>
+          )}
+          {inputMode === "compare" && (
+            <>
+              <label htmlFor="compare-input" className="text-sm font-medium text-black dark:text-zinc-100">
+                Pages à comparer
+              </label>
+              <textarea
+                id="compare-input"
+                rows={5}
+                placeholder={"https://exemple.com/article\nhttps://autre-exemple.com/meme-sujet"}
+                value={compareInput}
+                onChange={(e) => setCompareInput(e.target.value)}
+                aria-describedby="compare-help"
+                className="w-full rounded-lg border border-black/10 dark:border-white/20 bg-white dark:bg-zinc-900 px-4 py-3 text-black dark:text-zinc-100 placeholder:text-zinc-400 focus:outline-none focus:ring-2 focus:ring-zinc-800/10 dark:focus:ring-white/10"
+              />
+              <div className="flex items-center justify-between gap-3">
+                <p id="compare-help" className="text-xs text-zinc-500 dark:text-zinc-400">
+                  Une URL par ligne, de 2 à 10 articles sur un même sujet : points communs, divergences et points propres à chaque source.
+                </p>
+                {submitButton}
+              </div>
+            </>
+          )}
+          {inputMode === "file" && (
+            <>
+              <label htmlFor="file" className="text-sm font-medium text-black dark:text-zinc-100">
+                Document à résumer
+              </label>
+              <div className="flex flex-col sm:flex-row gap-3 items-stretch">
+                <input
+                  id="file"
+                  type="file"
+                  accept={ACCEPTED_FILES}
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                  aria-describedby="file-help"
+                  className="flex-1 h-12 rounded-lg border border-black/10 dark:border-white/20 bg-white dark:bg-zinc-900 px-4 py-2.5 text-sm text-black dark:text-zinc-100 file:mr-3 file:rounded-md file:border-0 file:bg-zinc-100 dark:file:bg-zinc-800 file:px-3 file:py-1 file:text-sm"
+                />
+                {submitButton}
+              </div>
+              <p id="file-help" className="text-xs text-zinc-500 dark:text-zinc-400">
+                PDF, texte brut, Markdown ou HTML, 10 Mo maximum.
+              </p>
+            </>
           )}
+          <div className="mt-2 flex flex-wrap gap-3">
+            <label className="flex flex-col gap-1 text-xs text-zinc-600 dark:text-zinc-400">
+              Format
+              <select
+                value={options.mode}
+                onChange={(e) => updateOptions({ mode: e.target.value as SummaryOptions["mode"] })}
+                className="h-9 rounded-md border border-black/10 dark:border-white/20 bg-white dark:bg-zinc-900 px-2 text-sm text-black dark:text-zinc-100"
+              >
+                {SUMMARY_MODES.map((mode) => (
+                  <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+            </label>
+            {(options.mode === "bullets" || options.mode === "sections") && (
+              <label className="flex flex-col gap-1 text-xs text-zinc-600 dark:text-zinc-400">
+                {options.mode === "sections" ? "Sections" : "Points"}
+                <input
+                  type="number"
+                  min={MIN_BULLETS}
+                  max={MAX_BULLETS}
+                  value={options.bullets}
+                  onChange={(e) => {
+                    const value = Number(e.target.value);
+                    if (Number.isInteger(value) && value >= MIN_BULLETS && value <= MAX_BULLETS) {
+                      updateOptions({ bullets: value });
+                    }
+                  }}
+                  className="h-9 w-20 rounded-md border border-black/10 dark:border-white/20 bg-white dark:bg-zinc-900 px-2 text-sm text-black dark:text-zinc-100"
+                />
+              </label>
+            )}
+            <label className="flex flex-col gap-1 text-xs text-zinc-600 dark:text-zinc-400">
+              Langue
+              <select
+                value={options.language}
+                onChange={(e) => updateOptions({ language: e.target.value as SummaryOptions["language"] })}
+                className="h-9 rounded-md border border-black/10 dark:border-white/20 bg-white dark:bg-zinc-900 px-2 text-sm text-black dark:text-zinc-100"
+              >
+                {SUMMARY_LANGUAGES.map((language) => (
+                  <option key={language} value={language}>{LANGUAGE_LABELS[language]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-zinc-600 dark:text-zinc-400">
+              Ton
+              <select
+                value={options.tone}
+                onChange={(e) => updateOptions({ tone: e.target.value as SummaryOptions["tone"] })}
+                className="h-9 rounded-md border border-black/10 dark:border-white/20 bg-white dark:bg-zinc-900 px-2 text-sm text-black dark:text-zinc-100"
+              >
+                {SUMMARY_TONES.map((tone) => (
+                  <option key={tone} value={tone}>{TONE_LABELS[tone]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
         </section>
 
         {error && (
           <div role="alert" aria-live="assertive" className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-red-700 dark:border-red-900/30 dark:bg-red-950/40 dark:text-red-200">
             <div className="flex items-start justify-between gap-4">
-              <span>{error}</span>
-              <button onClick={() => setError(null)} className="text-sm opacity-70 hover:opacity-100">Fermer</button>
+              <span>{error.message}</span>
+              <div className="flex shrink-0 gap-3">
+                {error.retryable && (
+                  <button
+                    onClick={() =>
+                      inputMode === "batch" ? startBatch() : inputMode === "compare" ? startComparison() : handleSummarize()
+                    }
+                    disabled={isSummarizing || isBatchActive}
+                    className="text-sm font-medium underline underline-offset-2 disabled:opacity-50"
+                  >
+                    Réessayer
+                  </button>
+                )}
+                <button onClick={() => setError(null)} className="text-sm opacity-70 hover:opacity-100">Fermer</button>
+              </div>
             </div>
           </div>
         )}
@@ -282,7 +1696,14 @@ export default function Home() {
           <h2 id="dernier-resume" className="text-xl font-semibold text-black dark:text-zinc-50">
             Nouveau résumé
           </h2>
-          {isSummarizing ? (
+          {isSummarizing && (
+            <p className="text-sm text-zinc-600 dark:text-zinc-400">
+              {progress ? STAGE_LABELS[progress.stage] : "Chargement de la page…"}
+              {progress?.chunks_total ? ` (${progress.chunks_done ?? 0}/${progress.chunks_total} parties)` : ""}
+              {progress?.sources_total ? ` (${progress.sources_done ?? 0}/${progress.sources_total} sources)` : ""}
+            </p>
+          )}
+          {isSummarizing && !latestSummary ? (
             <div className="rounded-lg border border-black/10 dark:border-white/15 bg-white dark:bg-zinc-900 p-5 animate-pulse">
               <div className="h-5 w-2/3 bg-zinc-200 dark:bg-zinc-800 rounded" />
               <div className="mt-3 space-y-2">
@@ -295,9 +1716,9 @@ export default function Home() {
             <article className="rounded-lg border border-black/10 dark:border-white/15 bg-white dark:bg-zinc-900 p-5 transition-all hover:border-black/20 dark:hover:border-white/25 hover:shadow-sm">
               <div className="flex items-start gap-3">
                 {/* Favicon */}
-                {url && (
+                {latestSummary.url && (
                   <img
-                    src={`https://www.google.com/s2/favicons?domain=${encodeURIComponent(url)}&sz=64`}
+                    src={`https://www.google.com/s2/favicons?domain=${encodeURIComponent(latestSummary.url)}&sz=64`}
                     alt=""
                     width={20}
                     height={20}
@@ -305,41 +1726,60 @@ export default function Home() {
                   />
                 )}
                 <h3 className="text-lg font-medium text-black dark:text-zinc-100 flex-1">{latestSummary.title}</h3>
+                {latestSummary.cached && (
+                  <span className="shrink-0 rounded-full bg-zinc-100 dark:bg-zinc-800 px-2 py-0.5 text-xs text-zinc-600 dark:text-zinc-300">
+                    Déjà résumé
+                  </span>
+                )}
               </div>
-              <ul className="mt-2 list-disc pl-5 text-zinc-700 dark:text-zinc-300">
-                {(isExpanded ? latestSummary.bullets : latestSummary.bullets.slice(0, 3)).map((point, idx) => (
-                  <li key={idx} className="line-clamp-2">{point}</li>
-                ))}
-              </ul>
+              {latestSummary.comparison ? (
+                <ComparisonBody summary={{ ...latestSummary, comparison: latestSummary.comparison }} />
+              ) : (
+                <SummaryBody summary={latestSummary} isExpanded={isExpanded} />
+              )}
+              {latestSummary.coverage && !latestSummary.coverage.complete && (
+                <p className="mt-2 text-xs text-amber-700 dark:text-amber-300">
+                  Document trop long : résumé des {latestSummary.coverage.chunks_summarized} premières parties sur {latestSummary.coverage.chunks_total}.
+                </p>
+              )}
               <div className="mt-3 flex items-center gap-3 flex-wrap">
-                {latestSummary.bullets.length > 3 && (
-                  <button
-                    type="button"
-                    className="text-sm underline text-zinc-700 hover:text-black dark:text-zinc-300 dark:hover:text-white"
-                    onClick={() => setIsExpanded((v) => !v)}
-                  >
-                    {isExpanded ? "Afficher moins" : "Afficher plus"}
-                  </button>
-                )}
+                {!latestSummary.comparison &&
+                  (latestSummary.options?.mode ?? "bullets") === "bullets" &&
+                  latestSummary.bullets.length > 3 && (
+                    <button
+                      type="button"
+                      className="text-sm underline text-zinc-700 hover:text-black dark:text-zinc-300 dark:hover:text-white"
+                      onClick={() => setIsExpanded((v) => !v)}
+                    >
+                      {isExpanded ? "Afficher moins" : "Afficher plus"}
+                    </button>
+                  )}
                 <button
                   type="button"
                   className="text-sm underline text-zinc-700 hover:text-black dark:text-zinc-300 dark:hover:text-white"
                   onClick={async () => {
-                    const text = [latestSummary.title, ...(latestSummary.bullets)].join("\n- ");
-                    const ok = await copyToClipboard(text);
+                    const { summaryToMarkdown } = await import("@/lib/export");
+                    const ok = await copyToClipboard(summaryToMarkdown(exportableLatest(latestSummary)));
                     setToast(ok ? "Résumé copié" : "Impossible de copier");
                     setTimeout(() => setToast(null), 2000);
                   }}
                 >
                   Copier tout
                 </button>
-                <button
-                  type="button"
-                  className="text-sm underline text-zinc-700 hover:text-black dark:text-zinc-300 dark:hover:text-white"
-                  onClick={() => exportSummaryToTxt(latestSummary, url)}
-                >
-                  Exporter en TXT
-                </button>
+                <ExportSelect
+                  label={`Exporter ${latestSummary.title}`}
+                  onExport={(format) => exportSummaries([exportableLatest(latestSummary)], format)}
+                />
+                {latestSummary.cached && (
+                  <button
+                    type="button"
+                    className="text-sm underline text-zinc-700 hover:text-black dark:text-zinc-300 dark:hover:text-white"
+                    onClick={() => handleSummarize(true)}
+                    disabled={isSummarizing}
+                  >
+                    Régénérer
+                  </button>
+                )}
               </div>
             </article>
           ) : (
@@ -348,82 +1788,226 @@ export default function Home() {
         </section>
 
         <section aria-labelledby="mon-historique" className="flex flex-col gap-3 pb-12">
-          <h2 id="mon-historique" className="text-xl font-semibold text-black dark:text-zinc-50">
-            Mon Historique
-          </h2>
-          {localHistory.length === 0 ? (
+          <div className="flex items-center justify-between gap-3 flex-wrap">
+            <h2 id="mon-historique" className="text-xl font-semibold text-black dark:text-zinc-50">
+              Mon Historique
+            </h2>
+            <div className="flex items-center gap-2">
+              {history.length > 0 && (
+                <ExportSelect
+                  label="Exporter l’historique"
+                  placeholder="Tout exporter…"
+                  formats={EXPORT_FORMATS}
+                  onExport={exportHistory}
+                />
+              )}
+              <label className="cursor-pointer rounded-md border border-zinc-200 dark:border-zinc-800 px-2 py-1 text-sm text-zinc-700 dark:text-zinc-300">
+                Importer…
+                <input
+                  type="file"
+                  accept=".json,.zip,application/json,application/zip"
+                  className="sr-only"
+                  onChange={(e) => {
+                    const selected = e.target.files?.[0];
+                    e.target.value = "";
+                    if (selected) importHistory(selected);
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+          {isHistoryOffline && (
+            <p className="text-sm text-amber-700 dark:text-amber-300">
+              Serveur injoignable : affichage de la copie locale de l’historique.
+            </p>
+          )}
+          {!isHistoryOffline && (
+            <form role="search" onSubmit={searchHistory} className="flex gap-2">
+              <input
+                type="search"
+                aria-label="Rechercher dans l’historique"
+                placeholder="Rechercher dans les titres, les points clés et les sources…"
+                value={searchQuery}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  if (!e.target.value) setSearchResults(null);
+                }}
+                className="h-10 flex-1 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-950 px-3 text-sm text-black dark:text-white"
+              />
+              <button
+                type="submit"
+                disabled={isSearching || !searchQuery.trim()}
+                className="h-10 rounded-lg border border-black/10 dark:border-white/15 px-4 text-sm text-zinc-700 hover:border-black/20 dark:text-zinc-300 dark:hover:border-white/25 disabled:opacity-50"
+              >
+                {isSearching ? "Recherche…" : "Rechercher"}
+              </button>
+            </form>
+          )}
+          {searchResults !== null ? (
+            <div className="flex flex-col gap-3">
+              <div className="flex items-baseline justify-between gap-4 text-sm text-zinc-600 dark:text-zinc-400">
+                <span>
+                  {searchResults.length === 0
+                    ? "Aucun résultat."
+                    : `${searchResults.length} résultat${searchResults.length > 1 ? "s" : ""}`}
+                </span>
+                <button type="button" onClick={clearSearch} className="underline underline-offset-2">
+                  Revenir à l’historique
+                </button>
+              </div>
+              <ul className="flex flex-col gap-3">
+                {searchResults.map((hit) => (
+                  <li
+                    key={hit.id}
+                    className="rounded-lg border border-black/10 dark:border-white/15 bg-white dark:bg-zinc-900 p-5"
+                  >
+                    <div className="flex items-baseline justify-between gap-4">
+                      <h3 className="text-lg font-medium text-black dark:text-zinc-100">
+                        {hit.url ? (
+                          <a href={hit.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                            <Highlighted text={hit.highlights.title} />
+                          </a>
+                        ) : (
+                          <Highlighted text={hit.highlights.title} />
+                        )}
+                      </h3>
+                      <time className="text-xs text-zinc-500 dark:text-zinc-400">
+                        {new Date(hit.created_at).toLocaleDateString()}
+                      </time>
+                    </div>
+                    <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400 truncate">{sourceLabel(hit)}</p>
+                    <p className="mt-2 text-sm text-zinc-700 dark:text-zinc-300">
+                      <Highlighted text={hit.highlights.snippet} />
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : history.length === 0 ? (
             <p className="text-zinc-600 dark:text-zinc-400">Aucun élément dans l’historique.</p>
           ) : (
             <ul className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-              {localHistory.map((s) => (
-                <li key={`${s.id}-${s.url}`} className="rounded-lg border border-black/10 dark:border-white/15 bg-white dark:bg-zinc-900 p-5 transition-all hover:border-black/20 dark:hover:border-white/25 hover:shadow-sm">
-                  <a href={s.url} target="_blank" rel="noopener noreferrer" className="block focus:outline-none focus:ring-2 focus:ring-zinc-800/10 dark:focus:ring-white/10 rounded-md">
+              {history.map((s) => {
+                const watch = watchOf(s.id);
+                const cardBody = (
+                  <>
                     <div className="flex items-baseline justify-between gap-4">
                       <div className="flex items-center gap-2 min-w-0">
-                        <img
-                          src={`https://www.google.com/s2/favicons?domain=${encodeURIComponent(s.url)}&sz=64`}
-                          alt=""
-                          width={16}
-                          height={16}
-                          className="rounded-sm shrink-0"
-                        />
+                        {s.url && (
+                          <img
+                            src={`https://www.google.com/s2/favicons?domain=${encodeURIComponent(s.url)}&sz=64`}
+                            alt=""
+                            width={16}
+                            height={16}
+                            className="rounded-sm shrink-0"
+                          />
+                        )}
                         <h3 className="text-lg font-medium text-black dark:text-zinc-100 line-clamp-2">{s.title}</h3>
                       </div>
                       <time className="text-xs text-zinc-500 dark:text-zinc-400">
                         {new Date(s.created_at).toLocaleDateString()}
                       </time>
                     </div>
-                    <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400 truncate">{s.url}</p>
+                    <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400 truncate">{sourceLabel(s)}</p>
                     <ul className="mt-2 list-disc pl-5 text-zinc-700 dark:text-zinc-300">
                       {(Array.isArray(s.bullets) ? s.bullets : []).slice(0, 3).map((b, i) => (
-                        <li key={i} className="line-clamp-2">{b}</li>
+                        <li key={i} className="line-clamp-2" title={citationTitle(s.citations?.[i])}>
+                          {b}
+                        </li>
                       ))}
                     </ul>
-                  </a>
-                  <div className="mt-3 flex items-center gap-3 flex-wrap">
-                    <button
-                      type="button"
-                      className="text-sm underline text-zinc-700 hover:text-black dark:text-zinc-300 dark:hover:text-white"
-                      onClick={async () => {
-                        const text = [s.title, ...((Array.isArray(s.bullets) ? s.bullets : []).slice(0, 3))].join("\n- ");
-                        const ok = await copyToClipboard(text);
-                        setToast(ok ? "Résumé copié" : "Impossible de copier");
-                        setTimeout(() => setToast(null), 2000);
-                      }}
-                    >
-                      Copier le résumé
-                    </button>
-                    <button
-                      type="button"
-                      className="text-sm underline text-zinc-700 hover:text-black dark:text-zinc-300 dark:hover:text-white"
-                      onClick={() => exportSummaryToTxt({ title: s.title, bullets: Array.isArray(s.bullets) ? s.bullets : [] }, s.url)}
-                    >
-                      Exporter en TXT
-                    </button>
-                    <a href={s.url} target="_blank" rel="noopener noreferrer" className="text-sm underline text-zinc-700 hover:text-black dark:text-zinc-300 dark:hover:text-white">
-                      Ouvrir l'article
-                    </a>
-                    <button
-                      type="button"
-                      aria-label={`Supprimer ${s.title}`}
-                      className="text-sm text-red-600 hover:text-red-700 underline"
-                      onClick={() => {
-                        setLocalHistory((prev) => {
-                          const next = removeFromHistory(prev, { id: s.id, url: s.url });
-                          saveLocalHistory(next);
-                          return next;
-                        });
-                        setToast("Élément supprimé");
-                        setTimeout(() => setToast(null), 2000);
-                      }}
-                    >
-                      Supprimer
-                    </button>
-                  </div>
-                </li>
-              ))}
+                  </>
+                );
+                return (
+                  <li key={`${s.id}-${s.url}`} className="rounded-lg border border-black/10 dark:border-white/15 bg-white dark:bg-zinc-900 p-5 transition-all hover:border-black/20 dark:hover:border-white/25 hover:shadow-sm">
+                    {s.url ? (
+                      <a href={s.url} target="_blank" rel="noopener noreferrer" className="block focus:outline-none focus:ring-2 focus:ring-zinc-800/10 dark:focus:ring-white/10 rounded-md">
+                        {cardBody}
+                      </a>
+                    ) : (
+                      <div>{cardBody}</div>
+                    )}
+                    {watch &&
+                      (watch.summary_id === s.id ? (
+                        <WatchTimeline watch={watch} />
+                      ) : (
+                        <p className="mt-3 text-sm text-zinc-500 dark:text-zinc-400">
+                          Version antérieure d’une page suivie.
+                        </p>
+                      ))}
+                    {!isHistoryOffline && <SummaryChat summaryId={s.id} />}
+                    <div className="mt-3 flex items-center gap-3 flex-wrap">
+                      <button
+                        type="button"
+                        className="text-sm underline text-zinc-700 hover:text-black dark:text-zinc-300 dark:hover:text-white"
+                        onClick={async () => {
+                          const { summaryToMarkdown } = await import("@/lib/export");
+                          const ok = await copyToClipboard(summaryToMarkdown(s));
+                          setToast(ok ? "Résumé copié" : "Impossible de copier");
+                          setTimeout(() => setToast(null), 2000);
+                        }}
+                      >
+                        Copier le résumé
+                      </button>
+                      <ExportSelect label={`Exporter ${s.title}`} onExport={(format) => exportSummaries([s], format)} />
+                      {s.url && (
+                        <a href={s.url} target="_blank" rel="noopener noreferrer" className="text-sm underline text-zinc-700 hover:text-black dark:text-zinc-300 dark:hover:text-white">
+                          Ouvrir l'article
+                        </a>
+                      )}
+                      {watch ? (
+                        <button
+                          type="button"
+                          className="text-sm underline text-zinc-700 hover:text-black dark:text-zinc-300 dark:hover:text-white"
+                          onClick={() => unwatch(watch)}
+                        >
+                          Ne plus suivre
+                        </button>
+                      ) : (
+                        s.url &&
+                        (s.source_type ?? "url") === "url" &&
+                        !isHistoryOffline && (
+                          <select
+                            aria-label={`Suivre ${s.title}`}
+                            value=""
+                            onChange={(e) => watchSummary(s, Number(e.target.value))}
+                            className="rounded-md border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-950 px-2 py-1 text-sm text-zinc-700 dark:text-zinc-300"
+                          >
+                            <option value="" disabled>
+                              Suivre les changements…
+                            </option>
+                            {WATCH_INTERVALS.map((i) => (
+                              <option key={i.minutes} value={i.minutes}>
+                                {i.label.charAt(0).toUpperCase() + i.label.slice(1)}
+                              </option>
+                            ))}
+                          </select>
+                        )
+                      )}
+                      <button
+                        type="button"
+                        aria-label={`Supprimer ${s.title}`}
+                        className="text-sm text-red-600 hover:text-red-700 underline"
+                        onClick={() => deleteSummary(s)}
+                      >
+                        Supprimer
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
             </ul>
           )}
+          {historyCursor && !isHistoryOffline && searchResults === null && (
+            <button
+              type="button"
+              onClick={() => loadHistory(historyCursor, workspaceId)}
+              disabled={isLoadingHistory}
+              className="self-center rounded-lg border border-black/10 dark:border-white/15 px-4 py-2 text-sm text-zinc-700 hover:border-black/20 dark:text-zinc-300 dark:hover:border-white/25 disabled:opacity-50"
+            >
+              {isLoadingHistory ? "Chargement…" : "Charger plus"}
+            </button>
+          )}
         </section>
         {toast && (
           <div className="fixed inset-x-0 bottom-4 flex justify-center px-4">
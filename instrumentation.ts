@@ -0,0 +1,20 @@
+/**
+ * Runs the job worker, the watch scheduler and the webhook dispatcher inside
+ * the server unless JOB_WORKER=external, where `npm run worker` runs them in
+ * its own process. Refuses to start on incompatible JOB_STORE and SUMMARY_STORE,
+ * and warns when TRUSTED_PROXY_HOPS is missing in production.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  const { checkStoreConfiguration } = await import("@/lib/jobs");
+  checkStoreConfiguration();
+  const { checkProxyConfiguration } = await import("@/lib/access");
+  checkProxyConfiguration();
+  if ((process.env.JOB_WORKER?.trim() || "in-process") !== "in-process") return;
+  const { startInProcessWorker } = await import("@/lib/jobs/worker");
+  const { startInProcessWatchScheduler } = await import("@/lib/watchScheduler");
+  const { startInProcessWebhookDispatcher } = await import("@/lib/webhookDispatcher");
+  startInProcessWorker();
+  startInProcessWatchScheduler();
+  startInProcessWebhookDispatcher();
+}
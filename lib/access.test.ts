@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { mintAccessToken } from "./auth/local";
+import { authorizeRequest, clientIp } from "./access";
+
+Object.assign(process.env, {
+  AUTH_PROVIDER: "local",
+  SUPABASE_JWT_SECRET: "test-secret-test-secret-test-secret",
+  RATE_LIMIT_STORE: "memory",
+  RATE_LIMIT_USER_MAX: "2",
+  RATE_LIMIT_IP_MAX: "2",
+});
+
+function requestFrom(forwardedFor?: string, realIp?: string): Request {
+  const headers = new Headers();
+  if (forwardedFor !== undefined) headers.set("x-forwarded-for", forwardedFor);
+  if (realIp !== undefined) headers.set("x-real-ip", realIp);
+  return new Request("http://localhost/api/summarize", { headers });
+}
+
+afterEach(() => {
+  delete process.env.TRUSTED_PROXY_HOPS;
+});
+
+describe("clientIp", () => {
+  it("ignores forwarded headers without trusted proxies", () => {
+    expect(clientIp(requestFrom("203.0.113.9", "203.0.113.10"))).toBe("unknown");
+  });
+
+  it("takes the entry added by the last trusted proxy, not what the caller sent", () => {
+    process.env.TRUSTED_PROXY_HOPS = "1";
+    expect(clientIp(requestFrom("1.1.1.1, 2.2.2.2, 198.51.100.7"))).toBe("198.51.100.7");
+    process.env.TRUSTED_PROXY_HOPS = "2";
+    expect(clientIp(requestFrom("1.1.1.1, 198.51.100.7, 10.0.0.2"))).toBe("198.51.100.7");
+  });
+
+  it("rotating a spoofed X-Forwarded-For does not change the address", () => {
+    process.env.TRUSTED_PROXY_HOPS = "1";
+    const ips = ["9.9.9.1", "9.9.9.2", "9.9.9.3"].map((spoofed) => clientIp(requestFrom(`${spoofed}, 198.51.100.7`)));
+    expect(new Set(ips)).toEqual(new Set(["198.51.100.7"]));
+  });
+
+  it("falls back to unknown when fewer proxies than configured appended an entry", () => {
+    process.env.TRUSTED_PROXY_HOPS = "2";
+    expect(clientIp(requestFrom("198.51.100.7"))).toBe("unknown");
+    expect(clientIp(requestFrom())).toBe("unknown");
+  });
+});
+
+function requestAs(userId?: string): Request {
+  const headers = new Headers();
+  if (userId) {
+    const { accessToken } = mintAccessToken({ id: userId, email: `${userId}@example.com` });
+    headers.set("authorization", `Bearer ${accessToken}`);
+  }
+  return new Request("http://localhost/api/summarize", { method: "POST", headers });
+}
+
+async function statusOf(req: Request): Promise<string> {
+  try {
+    await authorizeRequest(req);
+    return "ok";
+  } catch (e) {
+    return (e as { code: string }).code;
+  }
+}
+
+describe("authorizeRequest without trusted proxies", () => {
+  it("counts signed-in users one by one, apart from anonymous callers", async () => {
+    const alice = "00000000-0000-4000-8000-00000000000a";
+    const bob = "00000000-0000-4000-8000-00000000000b";
+    for (let i = 0; i < 3; i++) await statusOf(requestAs());
+    expect(await statusOf(requestAs())).toBe("RATE_LIMITED");
+
+    expect([await statusOf(requestAs(alice)), await statusOf(requestAs(alice))]).toEqual(["ok", "ok"]);
+    expect(await statusOf(requestAs(alice))).toBe("RATE_LIMITED");
+    expect(await statusOf(requestAs(bob))).toBe("ok");
+  });
+});
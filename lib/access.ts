@@ -0,0 +1,152 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { AppError } from "@/lib/errors";
+import { getSession, sessionForUser, type Session } from "@/lib/auth";
+import { findApiKey, getTokensUsedToday, recordTokenUsage, type ApiKeyRecord } from "@/lib/apiKeys";
+import { getLLMProvider, withUsageTracking, type LLMProvider } from "@/lib/llm";
+import { checkRateLimit, getIpRateLimit, getKeyRateLimit, getUserRateLimit } from "@/lib/rateLimit";
+
+/** Signed-in user, or a program using an API key on behalf of the key's owner. */
+export type Client = { type: "user"; ip: string; session: Session } | { type: "key"; key: ApiKeyRecord; session: Session };
+
+function trustedProxyHops(): number {
+  const value = Number.parseInt(process.env.TRUSTED_PROXY_HOPS ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Address of the caller, for per-IP limits. Anyone can send X-Forwarded-For,
+ * so it is only read behind TRUSTED_PROXY_HOPS proxies, each of which appends
+ * the address it was reached from: the caller is that many entries from the
+ * right, and entries further left are ignored. Without trusted proxies, the
+ * server cannot tell callers apart and they all share "unknown", which is why
+ * signed-in callers are limited by user instead.
+ */
+export function clientIp(req: Request): string {
+  const hops = trustedProxyHops();
+  if (!hops) return "unknown";
+  const forwarded = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return forwarded[forwarded.length - hops] || "unknown";
+}
+
+/**
+ * Warns, at startup, when a production server was not told about its proxies:
+ * anonymous callers then share one per-IP counter.
+ */
+export function checkProxyConfiguration(): void {
+  if (process.env.NODE_ENV !== "production" || process.env.TRUSTED_PROXY_HOPS !== undefined) return;
+  console.warn(
+    "[access] TRUSTED_PROXY_HOPS n'est pas défini : X-Forwarded-For est ignoré et les appels anonymes " +
+      "partagent une seule limite par IP. Indiquez le nombre de proxys devant le serveur (0 s'il n'y en a aucun)."
+  );
+}
+
+/** The API key sent as `Authorization: Bearer sws_…` or `X-API-Key`, if any. */
+export function readApiKey(req: Request): string | null {
+  const header = req.headers.get("x-api-key")?.trim();
+  if (header) return header;
+  const match = req.headers.get("authorization")?.match(/^Bearer\s+(sws_\S+)$/i);
+  return match ? match[1] : null;
+}
+
+function secondsUntilNextUtcDay(): number {
+  const now = new Date();
+  const next = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.max(1, Math.ceil((next - now.getTime()) / 1000));
+}
+
+async function identify(req: Request): Promise<Client> {
+  const apiKey = readApiKey(req);
+  if (apiKey) {
+    const key = await findApiKey(apiKey);
+    if (!key) throw new AppError("UNAUTHORIZED", { details: { reason: "invalid_api_key" } });
+    if (!key.user_id) throw new AppError("UNAUTHORIZED", { details: { reason: "api_key_without_owner" } });
+
+    const limit = await checkRateLimit(`key:${key.id}`, key.rate_limit ?? getKeyRateLimit());
+    if (!limit.ok) throw new AppError("RATE_LIMITED", { retryAfterSeconds: limit.retryAfterSeconds });
+    if (key.daily_token_quota !== null && (await getTokensUsedToday(key.id)) >= key.daily_token_quota) {
+      throw new AppError("QUOTA_EXCEEDED", { retryAfterSeconds: secondsUntilNextUtcDay() });
+    }
+    return { type: "key", key, session: sessionForUser({ id: key.user_id, email: null }) };
+  }
+
+  const ip = clientIp(req);
+  const session = await getSession(req);
+  const limit = session
+    ? await checkRateLimit(`user:${session.user.id}`, getUserRateLimit())
+    : await checkRateLimit(`ip:${ip}`, getIpRateLimit());
+  if (!limit.ok) throw new AppError("RATE_LIMITED", { retryAfterSeconds: limit.retryAfterSeconds });
+  if (!session) throw new AppError("UNAUTHORIZED", { details: { reason: "not_signed_in" } });
+  return { type: "user", ip, session };
+}
+
+/**
+ * Identifies the caller, by API key or session, and applies the rate limit:
+ * per API key when one is sent, per user for a session and per IP otherwise,
+ * then the key's daily token quota. Throws an AppError when the request must be rejected.
+ */
+export async function authorizeRequest(req: Request): Promise<Client> {
+  try {
+    return await identify(req);
+  } catch (e) {
+    if (e instanceof AppError) throw e;
+    console.error("[access] contrôle d'accès impossible", e);
+    throw new AppError("SERVICE_UNAVAILABLE", { cause: e });
+  }
+}
+
+/**
+ * Session of the caller, by API key or session, without rate limit or quota:
+ * for reading results of work that was already authorized.
+ */
+export async function authenticateRequest(req: Request): Promise<Session> {
+  const apiKey = readApiKey(req);
+  try {
+    if (apiKey) {
+      const key = await findApiKey(apiKey);
+      if (!key) throw new AppError("UNAUTHORIZED", { details: { reason: "invalid_api_key" } });
+      if (!key.user_id) throw new AppError("UNAUTHORIZED", { details: { reason: "api_key_without_owner" } });
+      return sessionForUser({ id: key.user_id, email: null });
+    }
+    const session = await getSession(req);
+    if (!session) throw new AppError("UNAUTHORIZED", { details: { reason: "not_signed_in" } });
+    return session;
+  } catch (e) {
+    if (e instanceof AppError) throw e;
+    console.error("[access] authentification impossible", e);
+    throw new AppError("SERVICE_UNAVAILABLE", { cause: e });
+  }
+}
+
+/** Adds LLM tokens to the caller's daily usage; anonymous callers have no quota. */
+export async function recordUsage(client: Client, tokens: number): Promise<void> {
+  if (client.type !== "key" || tokens <= 0) return;
+  try {
+    await recordTokenUsage(client.key.id, tokens);
+  } catch (e) {
+    console.warn("[access] enregistrement de la consommation impossible", e);
+  }
+}
+
+/** Provider that adds the tokens spent to the client's usage once the work is over. */
+export function meteredProvider(): { provider: LLMProvider; flush: (client: Client) => Promise<void> } {
+  let tokens = 0;
+  const provider = withUsageTracking(getLLMProvider(), (usage) => {
+    tokens += usage.promptTokens + usage.completionTokens;
+  });
+  return { provider, flush: (client) => recordUsage(client, tokens) };
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/** True when the request carries ADMIN_TOKEN as a bearer token. Always false if it is not set. */
+export function isAdminRequest(req: Request): boolean {
+  const adminToken = process.env.ADMIN_TOKEN;
+  const match = req.headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i);
+  if (!adminToken || !match) return false;
+  return timingSafeEqual(digest(match[1]), digest(adminToken));
+}
@@ -0,0 +1,108 @@
+import { createHash, randomBytes } from "node:crypto";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+
+export type ApiKeyRecord = {
+  id: string;
+  name: string;
+  /** User the key acts as; keys without one are rejected. */
+  user_id: string | null;
+  /** First characters of the key, shown to tell keys apart. */
+  prefix: string;
+  /** Requests per rate-limit window; null uses RATE_LIMIT_KEY_MAX. */
+  rate_limit: number | null;
+  /** LLM tokens the key may spend per UTC day; null means unlimited. */
+  daily_token_quota: number | null;
+  created_at: string;
+  revoked_at: string | null;
+};
+
+export type NewApiKey = {
+  name: string;
+  user_id: string;
+  rate_limit?: number | null;
+  daily_token_quota?: number | null;
+};
+
+const KEY_PREFIX = "sws_";
+const API_KEY_COLUMNS = "id, name, user_id, prefix, rate_limit, daily_token_quota, created_at, revoked_at";
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/** Creates a key and returns it in clear, which is the only time it is available: only its hash is stored. */
+export async function createApiKey(input: NewApiKey): Promise<{ key: string; record: ApiKeyRecord }> {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const { data, error } = await getSupabaseAdmin()
+    .from("api_keys")
+    .insert({
+      name: input.name,
+      user_id: input.user_id,
+      prefix: key.slice(0, KEY_PREFIX.length + 6),
+      key_hash: hashApiKey(key),
+      rate_limit: input.rate_limit ?? null,
+      daily_token_quota: input.daily_token_quota ?? null,
+    })
+    .select(API_KEY_COLUMNS)
+    .single();
+  if (error) throw new Error(error.message);
+  return { key, record: data as ApiKeyRecord };
+}
+
+export async function listApiKeys(): Promise<ApiKeyRecord[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("api_keys")
+    .select(API_KEY_COLUMNS)
+    .order("created_at", { ascending: false });
+  if (error) throw new Error(error.message);
+  return (data ?? []) as ApiKeyRecord[];
+}
+
+/** Returns false when no active key has this id. */
+export async function revokeApiKey(id: string): Promise<boolean> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("api_keys")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("revoked_at", null)
+    .select("id");
+  if (error) throw new Error(error.message);
+  return (data ?? []).length > 0;
+}
+
+/** The active key matching `key`, or null when it is unknown or revoked. */
+export async function findApiKey(key: string): Promise<ApiKeyRecord | null> {
+  if (!key.startsWith(KEY_PREFIX)) return null;
+  const { data, error } = await getSupabaseAdmin()
+    .from("api_keys")
+    .select(API_KEY_COLUMNS)
+    .eq("key_hash", hashApiKey(key))
+    .is("revoked_at", null)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data as ApiKeyRecord | null;
+}
+
+export async function getTokensUsedToday(keyId: string): Promise<number> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("api_key_usage")
+    .select("tokens")
+    .eq("api_key_id", keyId)
+    .eq("day", today())
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data as { tokens: number } | null)?.tokens ?? 0;
+}
+
+export async function recordTokenUsage(keyId: string, tokens: number): Promise<void> {
+  const { error } = await getSupabaseAdmin().rpc("record_api_key_usage", {
+    p_api_key_id: keyId,
+    p_day: today(),
+    p_tokens: tokens,
+  });
+  if (error) throw new Error(error.message);
+}
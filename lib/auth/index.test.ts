@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { AppError } from "@/lib/errors";
+import { readCookie, requireSession, SESSION_COOKIE } from "./index";
+
+Object.assign(process.env, {
+  AUTH_PROVIDER: "local",
+  SUPABASE_JWT_SECRET: "test-secret-test-secret-test-secret",
+});
+
+function withCookie(cookie: string): Request {
+  return new Request("http://localhost/api/summaries", { headers: { cookie } });
+}
+
+describe("readCookie", () => {
+  it("decodes the named cookie", () => {
+    expect(readCookie(withCookie("theme=dark; sws_session=a%2Bb%3D"), SESSION_COOKIE)).toBe("a+b=");
+    expect(readCookie(withCookie("theme=dark"), SESSION_COOKIE)).toBeNull();
+  });
+
+  it("treats a malformed percent-encoding as a missing cookie", () => {
+    expect(readCookie(withCookie(`${SESSION_COOKIE}=%E0%A4%A`), SESSION_COOKIE)).toBeNull();
+  });
+});
+
+describe("requireSession", () => {
+  it("answers UNAUTHORIZED, not an internal error, for a malformed session cookie", async () => {
+    const error = await requireSession(withCookie(`${SESSION_COOKIE}=%E0%A4%A`)).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(AppError);
+    expect((error as AppError).code).toBe("UNAUTHORIZED");
+    expect((error as AppError).status).toBe(401);
+  });
+});
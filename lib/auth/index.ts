@@ -0,0 +1,115 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { NextResponse } from "next/server";
+import { AppError } from "@/lib/errors";
+import { createUserClient } from "@/lib/supabaseClient";
+import { createLocalAuthProvider, mintAccessToken } from "./local";
+import { createSupabaseAuthProvider } from "./supabase";
+import type { AuthProvider, AuthTokens, AuthUser } from "./types";
+
+export type { AuthProvider, AuthTokens, AuthUser } from "./types";
+
+export const SESSION_COOKIE = "sws_session";
+export const REFRESH_COOKIE = "sws_refresh";
+
+/** Authenticated caller and a database client that acts as them. */
+export type Session = {
+  user: AuthUser;
+  /** Created on first use, so that sessions work without Supabase, e.g. with SUMMARY_STORE=sqlite. */
+  readonly db: SupabaseClient;
+};
+
+function createSession(user: AuthUser, accessToken: string): Session {
+  let db: SupabaseClient | null = null;
+  return {
+    user,
+    get db() {
+      db ??= createUserClient(accessToken);
+      return db;
+    },
+  };
+}
+
+let provider: AuthProvider | null = null;
+
+/** The provider named by AUTH_PROVIDER (supabase | local). */
+export function getAuthProvider(): AuthProvider {
+  if (provider) return provider;
+  const name = process.env.AUTH_PROVIDER?.trim() || "supabase";
+  switch (name) {
+    case "supabase":
+      provider = createSupabaseAuthProvider();
+      break;
+    case "local":
+      provider = createLocalAuthProvider();
+      break;
+    default:
+      throw new Error(`Fournisseur d'authentification inconnu: ${name}`);
+  }
+  return provider;
+}
+
+/** Value of cookie `name`; null when it is missing or not validly percent-encoded. */
+export function readCookie(req: Request, name: string): string | null {
+  for (const part of (req.headers.get("cookie") ?? "").split(";")) {
+    const separator = part.indexOf("=");
+    if (separator > 0 && part.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(separator + 1).trim());
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+/** Session token from the cookie set at sign-in, or a bearer token that is not an API key. */
+function readAccessToken(req: Request): string | null {
+  const bearer = req.headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (bearer && !bearer.startsWith("sws_")) return bearer;
+  return readCookie(req, SESSION_COOKIE);
+}
+
+export async function getSession(req: Request): Promise<Session | null> {
+  const accessToken = readAccessToken(req);
+  if (!accessToken) return null;
+  const user = await getAuthProvider().verify(accessToken);
+  return user ? createSession(user, accessToken) : null;
+}
+
+export async function requireSession(req: Request): Promise<Session> {
+  const session = await getSession(req);
+  if (!session) throw new AppError("UNAUTHORIZED", { details: { reason: "not_signed_in" } });
+  return session;
+}
+
+/** Session on behalf of `userId`, for API keys, which act as the user who owns them. */
+export function sessionForUser(user: AuthUser): Session {
+  const { accessToken } = mintAccessToken(user, 15 * 60);
+  return createSession(user, accessToken);
+}
+
+export function setSessionCookies(res: NextResponse, tokens: AuthTokens): void {
+  const secure = process.env.NODE_ENV === "production";
+  res.cookies.set(SESSION_COOKIE, tokens.accessToken, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure,
+    path: "/",
+    expires: new Date(tokens.expiresAt * 1000),
+  });
+  if (tokens.refreshToken) {
+    res.cookies.set(REFRESH_COOKIE, tokens.refreshToken, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure,
+      path: "/api/auth",
+      maxAge: 30 * 24 * 3600,
+    });
+  }
+}
+
+export function clearSessionCookies(res: NextResponse): void {
+  res.cookies.set(SESSION_COOKIE, "", { path: "/", maxAge: 0 });
+  res.cookies.set(REFRESH_COOKIE, "", { path: "/api/auth", maxAge: 0 });
+}
@@ -0,0 +1,39 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export type JwtClaims = {
+  sub: string;
+  exp: number;
+  [claim: string]: unknown;
+};
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function sign(input: string, secret: string): string {
+  return createHmac("sha256", secret).update(input).digest("base64url");
+}
+
+/** HS256 token, as issued by Supabase Auth with the project's JWT secret. */
+export function signJwt(claims: JwtClaims, secret: string): string {
+  const input = `${encode({ alg: "HS256", typ: "JWT" })}.${encode({ iat: Math.floor(Date.now() / 1000), ...claims })}`;
+  return `${input}.${sign(input, secret)}`;
+}
+
+/** Claims of a well-signed, unexpired HS256 token, or null. */
+export function verifyJwt(token: string, secret: string): JwtClaims | null {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return null;
+  const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, "base64url").toString()) as { alg?: string };
+    if (alg !== "HS256") return null;
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString()) as JwtClaims;
+    if (typeof claims.sub !== "string" || typeof claims.exp !== "number") return null;
+    return claims.exp * 1000 > Date.now() ? claims : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,70 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { AppError } from "@/lib/errors";
+import { signJwt, verifyJwt } from "./jwt";
+import type { AuthProvider, AuthTokens, AuthUser } from "./types";
+
+const SESSION_TTL_SECONDS = 7 * 24 * 3600;
+
+/** Stable uuid for an email, so that local users keep their summaries across restarts. */
+export function localUserId(email: string): string {
+  const hex = createHash("sha256").update(`local:${email}`).digest("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+export function getJwtSecret(): string {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) throw new Error("SUPABASE_JWT_SECRET manquant");
+  return secret;
+}
+
+/** Access token accepted by Supabase for `userId`, signed with the project's JWT secret. */
+export function mintAccessToken(user: AuthUser, ttlSeconds = SESSION_TTL_SECONDS): AuthTokens {
+  const expiresAt = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const accessToken = signJwt(
+    { sub: user.id, email: user.email, role: "authenticated", aud: "authenticated", exp: expiresAt },
+    getJwtSecret()
+  );
+  return { user, accessToken, expiresAt };
+}
+
+function localUsers(): Map<string, string> {
+  const users = new Map<string, string>();
+  for (const entry of (process.env.LOCAL_AUTH_USERS ?? "").split(",")) {
+    const separator = entry.indexOf(":");
+    if (separator > 0) users.set(entry.slice(0, separator).trim().toLowerCase(), entry.slice(separator + 1));
+  }
+  return users;
+}
+
+function samePassword(a: string, b: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+/**
+ * Email/password stand-in for development: users come from LOCAL_AUTH_USERS
+ * ("email:password,…") and tokens are signed like Supabase's, so row level
+ * security works the same way.
+ */
+export function createLocalAuthProvider(): AuthProvider {
+  async function signIn(email: string, password: string): Promise<AuthTokens> {
+    const normalized = email.trim().toLowerCase();
+    const expected = localUsers().get(normalized);
+    if (expected === undefined || !samePassword(password, expected)) {
+      throw new AppError("UNAUTHORIZED", { details: { reason: "invalid_credentials" } });
+    }
+    return mintAccessToken({ id: localUserId(normalized), email: normalized });
+  }
+
+  async function verify(accessToken: string): Promise<AuthUser | null> {
+    const claims = verifyJwt(accessToken, getJwtSecret());
+    if (!claims) return null;
+    return { id: claims.sub, email: typeof claims.email === "string" ? claims.email : null };
+  }
+
+  async function refresh(): Promise<AuthTokens> {
+    throw new AppError("UNAUTHORIZED", { details: { reason: "refresh_unsupported" } });
+  }
+
+  return { name: "local", signIn, verify, refresh };
+}
@@ -0,0 +1,37 @@
+import type { Session } from "@supabase/supabase-js";
+import { AppError } from "@/lib/errors";
+import { createUserClient } from "@/lib/supabaseClient";
+import type { AuthProvider, AuthTokens, AuthUser } from "./types";
+
+function toTokens(session: Session | null): AuthTokens {
+  if (!session) throw new AppError("UNAUTHORIZED");
+  return {
+    user: { id: session.user.id, email: session.user.email ?? null },
+    accessToken: session.access_token,
+    refreshToken: session.refresh_token,
+    expiresAt: session.expires_at ?? Math.floor(Date.now() / 1000) + session.expires_in,
+  };
+}
+
+/** Supabase Auth with email and password; users are managed in the Supabase dashboard. */
+export function createSupabaseAuthProvider(): AuthProvider {
+  async function signIn(email: string, password: string): Promise<AuthTokens> {
+    const { data, error } = await createUserClient().auth.signInWithPassword({ email, password });
+    if (error) throw new AppError("UNAUTHORIZED", { details: { reason: "invalid_credentials" }, cause: error });
+    return toTokens(data.session);
+  }
+
+  async function verify(accessToken: string): Promise<AuthUser | null> {
+    const { data, error } = await createUserClient().auth.getUser(accessToken);
+    if (error || !data.user) return null;
+    return { id: data.user.id, email: data.user.email ?? null };
+  }
+
+  async function refresh(refreshToken: string): Promise<AuthTokens> {
+    const { data, error } = await createUserClient().auth.refreshSession({ refresh_token: refreshToken });
+    if (error) throw new AppError("UNAUTHORIZED", { details: { reason: "refresh_failed" }, cause: error });
+    return toTokens(data.session);
+  }
+
+  return { name: "supabase", signIn, verify, refresh };
+}
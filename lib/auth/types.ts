@@ -0,0 +1,21 @@
+export type AuthUser = {
+  id: string;
+  email: string | null;
+};
+
+export type AuthTokens = {
+  user: AuthUser;
+  accessToken: string;
+  /** Absent when the provider cannot refresh sessions. */
+  refreshToken?: string;
+  /** Expiry of the access token, in epoch seconds. */
+  expiresAt: number;
+};
+
+export interface AuthProvider {
+  readonly name: string;
+  signIn(email: string, password: string): Promise<AuthTokens>;
+  /** The user an access token belongs to, or null when it is invalid or expired. */
+  verify(accessToken: string): Promise<AuthUser | null>;
+  refresh(refreshToken: string): Promise<AuthTokens>;
+}
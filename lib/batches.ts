@@ -0,0 +1,195 @@
+import type { Client } from "@/lib/access";
+import type { Session } from "@/lib/auth";
+import { AppError, toAppError, type ErrorBody } from "@/lib/errors";
+import { getJobMaxAttempts, getJobStore } from "@/lib/jobs";
+import { SUMMARY_COLUMNS, toSummaryResponse, type SummaryResponse, type SummaryRow } from "@/lib/summaries";
+import type { SummaryOptions } from "@/lib/summaryOptions";
+import { requireSupabaseSummaries } from "@/lib/summaryStore";
+import { notifyWebhooks } from "@/lib/webhooks";
+
+export const MAX_BATCH_ITEMS = 50;
+
+export type BatchSourceType = "urls" | "feed" | "sitemap";
+export type BatchStatus = "running" | "done";
+export type BatchItemStatus = "queued" | "running" | "done" | "failed";
+
+export type NewBatch = {
+  sourceType: BatchSourceType;
+  /** Feed or sitemap the URLs were read from. */
+  sourceUrl: string | null;
+  urls: string[];
+  workspaceId: string | null;
+  options: SummaryOptions;
+  force: boolean;
+};
+
+export type BatchItem = {
+  position: number;
+  url: string;
+  status: BatchItemStatus;
+  attempts: number;
+  summary: SummaryResponse | null;
+  error: ErrorBody | null;
+};
+
+export type Batch = {
+  id: string;
+  status: BatchStatus;
+  source_type: BatchSourceType;
+  source_url: string | null;
+  workspace_id: string | null;
+  options: SummaryOptions;
+  force: boolean;
+  created_at: string;
+  finished_at: string | null;
+  counts: Record<BatchItemStatus, number> & { total: number };
+  items: BatchItem[];
+};
+
+type BatchRow = Omit<Batch, "counts" | "items">;
+
+type BatchItemRow = Omit<BatchItem, "summary"> & { summaries: SummaryRow | null };
+
+const BATCH_COLUMNS = "id, status, source_type, source_url, workspace_id, options, force, created_at, finished_at";
+const ITEM_COLUMNS = `position, url, status, attempts, error, summaries (${SUMMARY_COLUMNS})`;
+
+function toBatch(row: BatchRow, itemRows: BatchItemRow[]): Batch {
+  const items = itemRows
+    .map(({ summaries, ...item }) => ({ ...item, summary: summaries ? toSummaryResponse(summaries) : null }))
+    .sort((a, b) => a.position - b.position);
+  const counts = { total: items.length, queued: 0, running: 0, done: 0, failed: 0 };
+  for (const item of items) counts[item.status]++;
+  return { ...row, counts, items };
+}
+
+export async function createBatch(session: Session, input: NewBatch): Promise<Batch> {
+  requireSupabaseSummaries("Le traitement par lots");
+  const { data: row, error } = await session.db
+    .from("batches")
+    .insert({
+      user_id: session.user.id,
+      workspace_id: input.workspaceId,
+      source_type: input.sourceType,
+      source_url: input.sourceUrl,
+      options: input.options,
+      force: input.force,
+    })
+    .select(BATCH_COLUMNS)
+    .single();
+  if (error) throw new AppError("PERSISTENCE_FAILED", { cause: error });
+
+  const { data: items, error: itemsError } = await session.db
+    .from("batch_items")
+    .insert(input.urls.map((url, position) => ({ batch_id: row.id, position, url })))
+    .select(ITEM_COLUMNS);
+  if (itemsError) throw new AppError("PERSISTENCE_FAILED", { cause: itemsError });
+  return toBatch(row as BatchRow, (items ?? []) as unknown as BatchItemRow[]);
+}
+
+/** Batches are only visible to the user who started them. */
+export async function getBatch(session: Session, id: string): Promise<Batch> {
+  const { data: row, error } = await session.db.from("batches").select(BATCH_COLUMNS).eq("id", id).maybeSingle();
+  if (error) throw new AppError("PERSISTENCE_FAILED", { cause: error });
+  if (!row) throw new AppError("NOT_FOUND");
+
+  const { data: items, error: itemsError } = await session.db
+    .from("batch_items")
+    .select(ITEM_COLUMNS)
+    .eq("batch_id", id);
+  if (itemsError) throw new AppError("PERSISTENCE_FAILED", { cause: itemsError });
+  return toBatch(row as BatchRow, (items ?? []) as unknown as BatchItemRow[]);
+}
+
+async function updateItem(session: Session, batchId: string, position: number, update: Record<string, unknown>) {
+  const { error } = await session.db
+    .from("batch_items")
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq("batch_id", batchId)
+    .eq("position", position);
+  if (error) console.warn(`[batches] mise à jour de l'élément ${batchId}/${position} impossible`, error.message);
+}
+
+/**
+ * Marks the batch as done once none of its items is queued or running, and
+ * sends `batch.completed`. Only the call that closes the batch sends it.
+ */
+async function closeBatchIfFinished(session: Session, batchId: string): Promise<void> {
+  const { count, error: countError } = await session.db
+    .from("batch_items")
+    .select("position", { count: "exact", head: true })
+    .eq("batch_id", batchId)
+    .in("status", ["queued", "running"]);
+  if (countError) {
+    console.warn(`[batches] lecture du lot ${batchId} impossible`, countError.message);
+    return;
+  }
+  if (count) return;
+
+  const { data: closed, error } = await session.db
+    .from("batches")
+    .update({ status: "done", finished_at: new Date().toISOString() })
+    .eq("id", batchId)
+    .eq("status", "running")
+    .select("id");
+  if (error) console.warn(`[batches] clôture du lot ${batchId} impossible`, error.message);
+  if (!closed?.length) return;
+
+  try {
+    await notifyWebhooks(session.user.id, "batch.completed", { batch: await getBatch(session, batchId) });
+  } catch (e) {
+    console.warn(`[batches] lecture du lot ${batchId} terminé impossible`, e);
+  }
+}
+
+export type BatchItemUpdate = {
+  status: BatchItemStatus;
+  attempts: number;
+  summaryId?: number | null;
+  error?: ErrorBody | null;
+};
+
+/** Records the progress of the job summarizing a batch item, and closes the batch after its last item. */
+export async function updateBatchItem(
+  session: Session,
+  item: { id: string; position: number },
+  update: BatchItemUpdate
+): Promise<void> {
+  await updateItem(session, item.id, item.position, {
+    status: update.status,
+    attempts: update.attempts,
+    ...(update.summaryId !== undefined && { summary_id: update.summaryId }),
+    ...(update.error !== undefined && { error: update.error }),
+  });
+  if (update.status === "done" || update.status === "failed") await closeBatchIfFinished(session, item.id);
+}
+
+/**
+ * Queues one background job per queued item of `batch`. The worker mints a
+ * session for each job, so a long batch does not outlive the caller's token.
+ * Items that could not be queued are marked as failed.
+ */
+export async function enqueueBatch(client: Client, batch: Batch): Promise<void> {
+  const session = client.session;
+  let failed = false;
+  for (const item of batch.items.filter((item) => item.status === "queued")) {
+    try {
+      await getJobStore().enqueue({
+        userId: session.user.id,
+        apiKeyId: client.type === "key" ? client.key.id : null,
+        idempotencyKey: null,
+        maxAttempts: getJobMaxAttempts(),
+        input: {
+          source: { type: "url", url: item.url },
+          options: batch.options,
+          force: batch.force,
+          workspaceId: batch.workspace_id,
+          batch: { id: batch.id, position: item.position },
+        },
+      });
+    } catch (e) {
+      failed = true;
+      await updateItem(session, batch.id, item.position, { status: "failed", error: toAppError(e).toBody() });
+    }
+  }
+  if (failed) await closeBatchIfFinished(session, batch.id);
+}
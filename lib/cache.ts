@@ -0,0 +1,28 @@
+import { createHash } from "node:crypto";
+import type { Session } from "@/lib/auth";
+import type { SummaryRow } from "@/lib/summaries";
+import { getSummaryStore, type SummaryScope } from "@/lib/summaryStore";
+
+export function hashContent(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Latest summary of the same page, in the same format, whose extracted text has
+ * not changed since. Pasted text and uploads have no URL and match on content alone.
+ */
+export async function findCachedSummary(
+  session: Session,
+  scope: SummaryScope,
+  canonicalUrl: string | null,
+  contentHash: string,
+  optionsKey: string
+): Promise<SummaryRow | null> {
+  try {
+    return await getSummaryStore().findCached(session, scope, { canonicalUrl, contentHash, optionsKey });
+  } catch (e) {
+    // A cache failure should only cost a fresh summary.
+    console.warn("[cache] lecture impossible", e);
+    return null;
+  }
+}
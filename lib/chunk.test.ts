@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { numberParagraphs } from "./citations";
+import { chunkText, estimateTokens } from "./chunk";
+
+const SENTENCE = "La ligne de tramway sera prolongée de trois kilomètres jusqu'à la gare.";
+
+describe("chunkText", () => {
+  it("keeps paragraphs whole when they fit", () => {
+    const text = numberParagraphs(["Premier paragraphe.", "Deuxième paragraphe.", "Troisième paragraphe."]);
+    expect(chunkText(text, { maxTokens: 12, overlapTokens: 0 })).toEqual([
+      "[§1] Premier paragraphe.",
+      "[§2] Deuxième paragraphe.",
+      "[§3] Troisième paragraphe.",
+    ]);
+  });
+
+  it("numbers every sentence of an oversized paragraph with that paragraph", () => {
+    const text = numberParagraphs(["Court.", Array(6).fill(SENTENCE).join(" ")]);
+    const chunks = chunkText(text, { maxTokens: 40, overlapTokens: 0 });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks.every((chunk) => estimateTokens(chunk) <= 40)).toBe(true);
+    const units = chunks.flatMap((chunk) => chunk.split("\n\n"));
+    expect(units).toEqual(["[§1] Court.", ...Array(6).fill(`[§2] ${SENTENCE}`)]);
+  });
+
+  it("numbers every slice of a sentence too long to fit", () => {
+    const text = numberParagraphs(["x".repeat(100)]);
+    const chunks = chunkText(text, { maxTokens: 10, overlapTokens: 0 });
+
+    expect(chunks.every((chunk) => chunk.startsWith("[§1] ") && estimateTokens(chunk) <= 10)).toBe(true);
+    expect(chunks.map((chunk) => chunk.slice(5)).join("")).toBe("x".repeat(100));
+  });
+
+  it("leaves text without numbers as it is", () => {
+    const chunks = chunkText(Array(4).fill(SENTENCE).join(" "), { maxTokens: 20, overlapTokens: 0 });
+    expect(chunks).toEqual(Array(4).fill(SENTENCE));
+  });
+});
@@ -0,0 +1,82 @@
+export type ChunkOptions = {
+  maxTokens: number;
+  overlapTokens: number;
+};
+
+/** Rough token count (~4 characters per token), good enough for budgeting. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?…])\s+/).filter(Boolean);
+}
+
+function hardSplit(text: string, maxChars: number): string[] {
+  const parts: string[] = [];
+  for (let i = 0; i < text.length; i += maxChars) parts.push(text.slice(i, i + maxChars));
+  return parts;
+}
+
+/** The `[§n]` number a paragraph starts with, see numberParagraphs. */
+const PARAGRAPH_MARKER = /^\[§\d+\]\s*/;
+
+/**
+ * Breaks text into units no larger than maxTokens: paragraphs, then sentences, then raw slices.
+ * Every piece of a split paragraph keeps its `[§n]` number, so that whichever chunk it lands in
+ * can be cited.
+ */
+function splitUnits(text: string, maxTokens: number): string[] {
+  const maxChars = maxTokens * 4;
+  const units: string[] = [];
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+    if (estimateTokens(trimmed) <= maxTokens) {
+      units.push(trimmed);
+      continue;
+    }
+    const marker = trimmed.match(PARAGRAPH_MARKER)?.[0] ?? "";
+    const prefix = marker && `${marker.trimEnd()} `;
+    for (const sentence of splitSentences(trimmed.slice(marker.length))) {
+      if (estimateTokens(prefix + sentence) <= maxTokens) units.push(prefix + sentence);
+      else units.push(...hardSplit(sentence, Math.max(1, maxChars - prefix.length)).map((part) => prefix + part));
+    }
+  }
+  return units;
+}
+
+/**
+ * Splits text into chunks of at most maxTokens on paragraph or sentence boundaries.
+ * Each chunk starts with the trailing units of the previous one, up to overlapTokens.
+ */
+export function chunkText(text: string, { maxTokens, overlapTokens }: ChunkOptions): string[] {
+  const units = splitUnits(text, maxTokens);
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+  let freshUnits = 0;
+
+  for (const unit of units) {
+    const unitTokens = estimateTokens(unit);
+    if (freshUnits > 0 && currentTokens + unitTokens > maxTokens) {
+      chunks.push(current.join("\n\n"));
+      const overlap: string[] = [];
+      let overlapSize = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        const size = estimateTokens(current[i]);
+        if (overlapSize + size > overlapTokens || overlapSize + size + unitTokens > maxTokens) break;
+        overlap.unshift(current[i]);
+        overlapSize += size;
+      }
+      current = overlap;
+      currentTokens = overlapSize;
+      freshUnits = 0;
+    }
+    current.push(unit);
+    currentTokens += unitTokens;
+    freshUnits++;
+  }
+  if (freshUnits > 0) chunks.push(current.join("\n\n"));
+  return chunks;
+}
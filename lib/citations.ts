@@ -0,0 +1,158 @@
+/** A passage of the extracted text supporting a summary point. */
+export type Citation = {
+  /** Index of the paragraph in the extracted text, from 0; paragraphs are separated by blank lines. */
+  paragraph: number;
+  /** Words of that paragraph, as the model quoted them; "…" stands for skipped words. */
+  quote: string;
+};
+
+/** Citation as written by the model, before it is checked against the source. */
+export type RawCitation = Citation & {
+  /** Index of the point it supports, from 0. */
+  point: number;
+};
+
+export const MAX_CITATIONS_PER_POINT = 3;
+/** Shorter quotes ("le", "2024") would be found almost anywhere. */
+const MIN_QUOTE_CHARS = 12;
+/** Paragraphs offered to the model when it rewrites an unsupported point. */
+const CANDIDATE_PARAGRAPHS = 4;
+
+export function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+}
+
+/** Marker put before each paragraph sent to the model, which cites it back by that number. */
+export function paragraphMarker(index: number): string {
+  return `[§${index + 1}]`;
+}
+
+/** The text as sent to the model: one numbered paragraph per block. */
+export function numberParagraphs(paragraphs: string[]): string {
+  return paragraphs.map((paragraph, index) => `${paragraphMarker(index)} ${paragraph}`).join("\n\n");
+}
+
+/**
+ * Reads `citations: [{ point, paragraph, quote }]` from a model answer, where
+ * point and paragraph count from 1 as in the prompt.
+ */
+export function parseRawCitations(input: unknown, pointCount: number): RawCitation[] {
+  if (!Array.isArray(input)) return [];
+  return input.flatMap((entry) => {
+    const { point, paragraph, quote } = (entry ?? {}) as { point?: unknown; paragraph?: unknown; quote?: unknown };
+    const pointIndex = Number(point) - 1;
+    const paragraphIndex = Number(paragraph) - 1;
+    if (!Number.isInteger(pointIndex) || pointIndex < 0 || pointIndex >= pointCount) return [];
+    if (typeof quote !== "string" || !quote.trim()) return [];
+    return [{ point: pointIndex, paragraph: Number.isInteger(paragraphIndex) ? paragraphIndex : -1, quote: quote.trim() }];
+  });
+}
+
+/** Groups citations by point, for points numbered 0 to pointCount - 1. */
+export function groupCitations(citations: RawCitation[], pointCount: number): Citation[][] {
+  const grouped: Citation[][] = Array.from({ length: pointCount }, () => []);
+  for (const { point, paragraph, quote } of citations) grouped[point]?.push({ paragraph, quote });
+  return grouped;
+}
+
+/** Case, spacing and typographic quotes or dashes differ between the model's quotes and the source. */
+function normalizeForMatch(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[\u2018\u2019\u201b\u00b4`]/g, "'")
+    .replace(/[\u00ab\u00bb\u201c\u201d\u201e]/g, '"')
+    .replace(/[\u2010-\u2015]/g, "-")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function stripQuoteMarks(quote: string): string {
+  return quote.trim().replace(/^["'\u00ab\u201c\u2018\s]+|["'\u00bb\u201d\u2019\s]+$/g, "");
+}
+
+/** Parts of a quote that must appear in order in the paragraph. */
+function quoteFragments(quote: string): string[] {
+  return quote
+    .split(/\[\u2026\]|\(\u2026\)|\u2026|\.{3}/)
+    .map(normalizeForMatch)
+    .filter(Boolean);
+}
+
+function containsFragments(paragraph: string, fragments: string[]): boolean {
+  let from = 0;
+  for (const fragment of fragments) {
+    const at = paragraph.indexOf(fragment, from);
+    if (at === -1) return false;
+    from = at + fragment.length;
+  }
+  return true;
+}
+
+/**
+ * Keeps the citations whose quote is really in the source. A quote found in
+ * another paragraph than the one cited is kept with the right paragraph; a
+ * quote found nowhere is dropped. Returns the verified citations per point and
+ * the points left without any.
+ */
+export function verifyCitations(
+  citations: Citation[][],
+  paragraphs: string[]
+): { citations: Citation[][]; unsupported: number[] } {
+  const normalized = paragraphs.map(normalizeForMatch);
+  const verified = citations.map((pointCitations) => {
+    const kept: Citation[] = [];
+    for (const citation of pointCitations) {
+      const quote = stripQuoteMarks(citation.quote);
+      const fragments = quoteFragments(quote);
+      if (fragments.join(" ").length < MIN_QUOTE_CHARS) continue;
+      const paragraph =
+        normalized[citation.paragraph] !== undefined && containsFragments(normalized[citation.paragraph], fragments)
+          ? citation.paragraph
+          : normalized.findIndex((text) => containsFragments(text, fragments));
+      if (paragraph === -1) continue;
+      if (kept.some((c) => c.paragraph === paragraph && c.quote === quote)) continue;
+      kept.push({ paragraph, quote });
+      if (kept.length === MAX_CITATIONS_PER_POINT) break;
+    }
+    return kept;
+  });
+  const unsupported = verified.flatMap((kept, index) => (kept.length ? [] : [index]));
+  return { citations: verified, unsupported };
+}
+
+function words(text: string): Set<string> {
+  return new Set(
+    normalizeForMatch(text)
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .match(/[a-z0-9]{4,}/g) ?? []
+  );
+}
+
+/** Indexes of the paragraphs sharing the most words with `point`, in document order. */
+export function candidateParagraphs(point: string, paragraphs: string[], count = CANDIDATE_PARAGRAPHS): number[] {
+  const pointWords = words(point);
+  return paragraphs
+    .map((paragraph, index) => {
+      let shared = 0;
+      for (const word of words(paragraph)) if (pointWords.has(word)) shared++;
+      return { index, shared };
+    })
+    .filter(({ shared }) => shared > 0)
+    .sort((a, b) => b.shared - a.shared || a.index - b.index)
+    .slice(0, count)
+    .map(({ index }) => index)
+    .sort((a, b) => a - b);
+}
+
+/** Citations written after a partial point, so that the next pass can cite them again. */
+export function formatCitations(citations: Citation[]): string {
+  if (citations.length === 0) return "";
+  return ` (sources : ${citations
+    .map((citation) => `${paragraphMarker(citation.paragraph)} « ${citation.quote} »`)
+    .join(" ; ")})`;
+}
@@ -0,0 +1,164 @@
+import type { Session } from "@/lib/auth";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { toAppError, type AppError } from "@/lib/errors";
+import type { LLMProvider } from "@/lib/llm";
+import { runSummarizePipeline } from "@/lib/pipeline";
+import { embedSummary } from "@/lib/search";
+import {
+  toSummaryResponse,
+  type ComparisonSource,
+  type FailedSource,
+  type SummaryResponse,
+} from "@/lib/summaries";
+import { compareSummaries, type Comparison, type SummarySection } from "@/lib/summarize";
+import { getSummaryStore } from "@/lib/summaryStore";
+import { DEFAULT_SUMMARY_OPTIONS, MAX_BULLETS, type SummaryOptions } from "@/lib/summaryOptions";
+import { notifyWebhooks } from "@/lib/webhooks";
+
+export const MIN_COMPARED_URLS = 2;
+export const MAX_COMPARED_URLS = 10;
+
+export type CompareEvent =
+  | { type: "progress"; stage: "sources"; sources_done: number; sources_total: number }
+  | { type: "progress"; stage: "comparing" };
+
+export type CompareOptions = {
+  /** Owner of the comparison and of the summaries of its sources. */
+  session: Session;
+  workspaceId?: string | null;
+  /** Language and tone of the synthesis; `bullets` caps the shared points and the disagreements. */
+  summaryOptions?: SummaryOptions;
+  /** Summarize the sources again instead of reusing cached summaries. */
+  force?: boolean;
+  emit?: (event: CompareEvent) => void;
+  provider?: LLMProvider;
+};
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+/** Host name of each source, numbered when several sources share it. */
+function sourceLabels(urls: string[]): Map<string, string> {
+  const hosts = urls.map(hostOf);
+  const seen = new Map<string, number>();
+  return new Map(
+    urls.map((url, i) => {
+      if (hosts.indexOf(hosts[i]) === hosts.lastIndexOf(hosts[i])) return [url, hosts[i]];
+      const count = (seen.get(hosts[i]) ?? 0) + 1;
+      seen.set(hosts[i], count);
+      return [url, `${hosts[i]} (${count})`];
+    })
+  );
+}
+
+/** The synthesis as headed groups of points, for the history and exports. */
+function comparisonSections(comparison: Comparison, labels: Map<string, string>): SummarySection[] {
+  const label = (url: string) => labels.get(url) ?? hostOf(url);
+  const labelAll = (urls: string[]) => urls.map(label).join(", ");
+  const sections: SummarySection[] = [];
+  if (comparison.shared.length) {
+    sections.push({
+      heading: "Points communs",
+      points: comparison.shared.map(({ point, sources }) => `${point} (${labelAll(sources)})`),
+    });
+  }
+  if (comparison.disagreements.length) {
+    sections.push({
+      heading: "Divergences",
+      points: comparison.disagreements.map(
+        ({ topic, positions }) =>
+          `${topic} : ${positions.map(({ source, claim }) => `${label(source)} : ${claim}`).join(" ; ")}`
+      ),
+    });
+  }
+  for (const { source, points } of comparison.unique) {
+    sections.push({ heading: `Seulement dans ${label(source)}`, points });
+  }
+  return sections;
+}
+
+/**
+ * Compares several pages on one topic. Each URL is summarized by the usual
+ * pipeline, so its summary lands in the history and may come from the cache;
+ * the key points of those summaries are then compared (see compareSummaries)
+ * and the synthesis is stored as one summary of type "comparison", linked to
+ * the summaries of its sources. Pages that cannot be summarized are left out
+ * and listed in failed_sources; with fewer than two left, the first failure
+ * is thrown.
+ */
+export async function runComparePipeline(
+  urls: string[],
+  {
+    session,
+    workspaceId = null,
+    summaryOptions = DEFAULT_SUMMARY_OPTIONS,
+    force = false,
+    emit,
+    provider,
+  }: CompareOptions
+): Promise<SummaryResponse> {
+  // As many points per source as a summary may have, for the comparison to work with.
+  const sourceOptions: SummaryOptions = { ...summaryOptions, mode: "bullets", bullets: MAX_BULLETS };
+  let done = 0;
+  emit?.({ type: "progress", stage: "sources", sources_done: 0, sources_total: urls.length });
+  const results = await mapWithConcurrency(urls, envInt("COMPARE_CONCURRENCY", 3), async (url) => {
+    let result: { url: string; summary: SummaryResponse } | { url: string; error: AppError };
+    try {
+      const summary = await runSummarizePipeline(
+        { type: "url", url },
+        { session, workspaceId, summaryOptions: sourceOptions, force, provider }
+      );
+      result = { url, summary };
+    } catch (e) {
+      result = { url, error: toAppError(e) };
+    }
+    emit?.({ type: "progress", stage: "sources", sources_done: ++done, sources_total: urls.length });
+    return result;
+  });
+
+  const summaries = results.flatMap((result) => ("summary" in result ? [result.summary] : []));
+  const failures = results.flatMap((result) => ("error" in result ? [result] : []));
+  if (summaries.length < MIN_COMPARED_URLS) throw failures[0].error;
+
+  emit?.({ type: "progress", stage: "comparing" });
+  const inputs = summaries.map((summary) => ({ url: summary.url!, title: summary.title, points: summary.bullets }));
+  const { title, comparison } = await compareSummaries(inputs, summaryOptions, provider);
+  const labels = sourceLabels(inputs.map((input) => input.url));
+  const sections = comparisonSections(comparison, labels);
+  const summary_points = sections.map((section) => `${section.heading} : ${section.points.join(" ; ")}`);
+  const sources: ComparisonSource[] = summaries.map((summary) => ({
+    url: summary.url!,
+    title: summary.title,
+    summary_id: summary.id,
+  }));
+  const failed_sources: FailedSource[] = failures.map(({ url, error }) => ({ url, error: error.toBody() }));
+
+  const store = getSummaryStore();
+  const inserted = await store.insert(session, {
+    user_id: session.user.id,
+    workspace_id: workspaceId,
+    original_url: null,
+    canonical_url: null,
+    source_type: "comparison",
+    source_name: [...new Set(inputs.map((input) => hostOf(input.url)))].join(", "),
+    title,
+    summary: JSON.stringify({ summary_points, sections, comparison, sources, failed_sources, options: summaryOptions }),
+    // What was compared, for full-text search.
+    source_text: inputs.map((input) => [input.title, ...input.points].join("\n")).join("\n\n"),
+    embedding: store.semanticSearch ? await embedSummary(title, summary_points) : null,
+  });
+
+  const response = { ...toSummaryResponse(inserted), cached: false };
+  await notifyWebhooks(session.user.id, "summary.completed", { summary: response });
+  return response;
+}
@@ -0,0 +1,43 @@
+export type LineDiff = {
+  /** Lines of the new text missing from the old one, in order. */
+  added: string[];
+  /** Lines of the old text missing from the new one, in order. */
+  removed: string[];
+};
+
+function lines(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+}
+
+function counts(items: string[]): Map<string, number> {
+  const result = new Map<string, number>();
+  for (const item of items) result.set(item, (result.get(item) ?? 0) + 1);
+  return result;
+}
+
+function missingFrom(items: string[], other: Map<string, number>): string[] {
+  const remaining = new Map(other);
+  return items.filter((item) => {
+    const left = remaining.get(item) ?? 0;
+    if (left === 0) return true;
+    remaining.set(item, left - 1);
+    return false;
+  });
+}
+
+/**
+ * Lines added and removed between two extracted texts, ignoring whitespace.
+ * Lines are compared as multisets, so moving a paragraph is not a change and
+ * a modified line shows up as one removal and one addition.
+ */
+export function diffLines(before: string, after: string): LineDiff {
+  const oldLines = lines(before);
+  const newLines = lines(after);
+  return {
+    added: missingFrom(newLines, counts(oldLines)),
+    removed: missingFrom(oldLines, counts(newLines)),
+  };
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { localeFromRequest, toAppError } from "@/lib/errors";
+
+/** JSON error response with the code's status, plus Retry-After when the error carries a delay. */
+export function errorResponse(error: unknown, req: Request): NextResponse {
+  const appError = toAppError(error);
+  const headers: Record<string, string> = {};
+  if (appError.retryAfterSeconds !== undefined) headers["Retry-After"] = String(appError.retryAfterSeconds);
+  return NextResponse.json(appError.toBody(localeFromRequest(req)), { status: appError.status, headers });
+}
@@ -0,0 +1,196 @@
+export type ErrorLocale = "fr" | "en";
+
+type ErrorDefinition = {
+  status: number;
+  /** Whether the same request may succeed later without changes. */
+  retryable: boolean;
+  message: Record<ErrorLocale, string>;
+};
+
+const ERROR_DEFINITIONS = {
+  INVALID_REQUEST: {
+    status: 400,
+    retryable: false,
+    message: { fr: "Requête invalide", en: "Invalid request" },
+  },
+  INVALID_URL: {
+    status: 400,
+    retryable: false,
+    message: { fr: "URL invalide", en: "Invalid URL" },
+  },
+  BLOCKED_URL: {
+    status: 400,
+    retryable: false,
+    message: { fr: "Cette adresse n'est pas autorisée", en: "This address is not allowed" },
+  },
+  UNAUTHORIZED: {
+    status: 401,
+    retryable: false,
+    message: { fr: "Authentification requise ou invalide", en: "Missing or invalid credentials" },
+  },
+  FORBIDDEN: {
+    status: 403,
+    retryable: false,
+    message: { fr: "Accès refusé", en: "Forbidden" },
+  },
+  NOT_FOUND: {
+    status: 404,
+    retryable: false,
+    message: { fr: "Ressource introuvable", en: "Not found" },
+  },
+  PAYLOAD_TOO_LARGE: {
+    status: 413,
+    retryable: false,
+    message: { fr: "Contenu trop volumineux", en: "Content too large" },
+  },
+  UNSUPPORTED_CONTENT: {
+    status: 415,
+    retryable: false,
+    message: { fr: "Type de contenu non pris en charge", en: "Unsupported content type" },
+  },
+  CONTENT_EMPTY: {
+    status: 422,
+    retryable: false,
+    message: { fr: "Aucun contenu exploitable", en: "No readable content" },
+  },
+  RATE_LIMITED: {
+    status: 429,
+    retryable: true,
+    message: { fr: "Trop de requêtes", en: "Too many requests" },
+  },
+  QUOTA_EXCEEDED: {
+    status: 429,
+    retryable: true,
+    message: { fr: "Quota quotidien de tokens atteint", en: "Daily token quota exceeded" },
+  },
+  FETCH_FAILED: {
+    status: 502,
+    retryable: true,
+    message: { fr: "Impossible de joindre la page", en: "Could not reach the page" },
+  },
+  UPSTREAM_HTTP_ERROR: {
+    status: 502,
+    retryable: false,
+    message: { fr: "La page a répondu par une erreur", en: "The page responded with an error" },
+  },
+  TOO_MANY_REDIRECTS: {
+    status: 502,
+    retryable: false,
+    message: { fr: "Trop de redirections", en: "Too many redirects" },
+  },
+  FETCH_TIMEOUT: {
+    status: 504,
+    retryable: true,
+    message: { fr: "La page a mis trop de temps à répondre", en: "The page took too long to respond" },
+  },
+  LLM_RATE_LIMITED: {
+    status: 503,
+    retryable: true,
+    message: { fr: "Le modèle est saturé", en: "The model is rate limited" },
+  },
+  LLM_UNAVAILABLE: {
+    status: 502,
+    retryable: true,
+    message: { fr: "Le modèle est indisponible", en: "The model is unavailable" },
+  },
+  LLM_TIMEOUT: {
+    status: 504,
+    retryable: true,
+    message: { fr: "Le modèle a mis trop de temps à répondre", en: "The model took too long to respond" },
+  },
+  LLM_BAD_OUTPUT: {
+    status: 502,
+    retryable: true,
+    message: { fr: "Réponse du modèle inexploitable", en: "The model returned an unusable response" },
+  },
+  PERSISTENCE_FAILED: {
+    status: 500,
+    retryable: true,
+    message: { fr: "Échec de l'enregistrement du résumé", en: "Could not save the summary" },
+  },
+  SERVICE_UNAVAILABLE: {
+    status: 503,
+    retryable: true,
+    message: { fr: "Service momentanément indisponible", en: "Service temporarily unavailable" },
+  },
+  INTERNAL_ERROR: {
+    status: 500,
+    retryable: false,
+    message: { fr: "Erreur serveur", en: "Internal server error" },
+  },
+} satisfies Record<string, ErrorDefinition>;
+
+export type ErrorCode = keyof typeof ERROR_DEFINITIONS;
+
+export const ERROR_CODES = Object.keys(ERROR_DEFINITIONS) as ErrorCode[];
+
+/** JSON body of every error response, and data of the SSE `error` event. */
+export type ErrorBody = {
+  error: string;
+  code: ErrorCode;
+  status: number;
+  retryable: boolean;
+  /** Seconds to wait before retrying, when known. */
+  retry_after?: number;
+  details?: Record<string, unknown>;
+};
+
+export type AppErrorOptions = {
+  /** Replaces the default localized message, e.g. to name the offending value. Not translated. */
+  message?: string;
+  retryable?: boolean;
+  retryAfterSeconds?: number;
+  details?: Record<string, unknown>;
+  cause?: unknown;
+};
+
+/**
+ * Error with a stable machine-readable code. The code fixes the HTTP status and
+ * whether retrying makes sense; the message is localized when serialized.
+ */
+export class AppError extends Error {
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly retryAfterSeconds?: number;
+  readonly details?: Record<string, unknown>;
+  private readonly customMessage?: string;
+
+  constructor(
+    readonly code: ErrorCode,
+    options: AppErrorOptions = {}
+  ) {
+    super(options.message ?? ERROR_DEFINITIONS[code].message.fr, { cause: options.cause });
+    this.name = "AppError";
+    this.status = ERROR_DEFINITIONS[code].status;
+    this.retryable = options.retryable ?? ERROR_DEFINITIONS[code].retryable;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+    this.details = options.details;
+    this.customMessage = options.message;
+  }
+
+  toBody(locale: ErrorLocale = "fr"): ErrorBody {
+    return {
+      error: this.customMessage ?? ERROR_DEFINITIONS[this.code].message[locale],
+      code: this.code,
+      status: this.status,
+      retryable: this.retryable,
+      ...(this.retryAfterSeconds !== undefined ? { retry_after: this.retryAfterSeconds } : {}),
+      ...(this.details ? { details: this.details } : {}),
+    };
+  }
+}
+
+/** Unknown errors become INTERNAL_ERROR; their message is logged, not returned. */
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) return error;
+  console.error("[error]", error);
+  return new AppError("INTERNAL_ERROR", { cause: error });
+}
+
+/** English when the client prefers it over French, French otherwise. */
+export function localeFromRequest(req: Request): ErrorLocale {
+  const header = req.headers.get("accept-language")?.toLowerCase() ?? "";
+  const en = header.search(/\ben\b/);
+  const fr = header.search(/\bfr\b/);
+  return en !== -1 && (fr === -1 || en < fr) ? "en" : "fr";
+}
@@ -0,0 +1,350 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import { PageSizes, PDFDocument, rgb, StandardFonts, type PDFFont } from "pdf-lib";
+import type { ExportFormat } from "@/lib/exportFormats";
+import type { SummaryResponse } from "@/lib/summaries";
+import { parseSummaryOptions } from "@/lib/summaryOptions";
+
+export { EXPORT_FORMAT_LABELS, EXPORT_FORMATS, type ExportFormat } from "@/lib/exportFormats";
+
+/*
+ * Summary exports, shared by the page (single summaries, offline history) and
+ * GET /api/summaries/export. Nothing here needs Node: it runs in the browser too.
+ * The page imports this module lazily, since PDF and ZIP support are large.
+ */
+
+/** What an export keeps of a summary; bundles hold exactly this. */
+export type ExportableSummary = Pick<SummaryResponse, "title" | "bullets" | "created_at"> &
+  Partial<Pick<SummaryResponse, "id" | "source_type" | "source_name" | "sections" | "options" | "format">> & {
+    url: string | null;
+  };
+
+/** JSON bundle of a history, re-importable into the page or the server. */
+export type ExportBundle = {
+  format: typeof BUNDLE_FORMAT;
+  version: 1;
+  exported_at: string;
+  items: ExportableSummary[];
+};
+
+export type ExportFile = {
+  filename: string;
+  contentType: string;
+  data: Uint8Array | string;
+};
+
+export type BundleResult = { ok: true; bundle: ExportBundle } | { ok: false; error: string };
+
+const BUNDLE_FORMAT = "smart-web-summarizer";
+/** Name of the bundle inside ZIP exports. */
+const BUNDLE_FILENAME = "resumes.json";
+export const MAX_BUNDLE_ITEMS = 1000;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  markdown: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  html: "text/html; charset=utf-8",
+  pdf: "application/pdf",
+  txt: "text/plain; charset=utf-8",
+  zip: "application/zip",
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: "md",
+  json: "json",
+  html: "html",
+  pdf: "pdf",
+  txt: "txt",
+  zip: "zip",
+};
+
+function slug(text: string): string {
+  return (
+    text
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9]+/gi, "-")
+      .replace(/^-+|-+$/g, "")
+      .toLowerCase()
+      .slice(0, 50) || "resume"
+  );
+}
+
+function formatDate(iso: string): string {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toISOString().slice(0, 10);
+}
+
+function sourceOf(summary: ExportableSummary): string {
+  return summary.url ?? summary.source_name ?? (summary.source_type === "file" ? "Fichier importé" : "Texte collé");
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+/** Sections, including those of comparisons, or the key points as one group without a heading. */
+function groupsOf(summary: ExportableSummary): { heading: string | null; points: string[] }[] {
+  const sectioned = summary.options?.mode === "sections" || summary.source_type === "comparison";
+  if (sectioned && summary.sections?.length) {
+    return summary.sections.map((s) => ({ heading: s.heading || null, points: s.points }));
+  }
+  return [{ heading: null, points: summary.bullets }];
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>])/g, "\\$1");
+}
+
+/** Markdown with a link to the source, as pasted into Notion or Confluence. */
+export function summaryToMarkdown(summary: ExportableSummary, level = 1): string {
+  const lines = [`${"#".repeat(level)} ${escapeMarkdown(summary.title)}`, ""];
+  const source = summary.url
+    ? `[${escapeMarkdown(hostOf(summary.url))}](${summary.url.replace(/\(/g, "%28").replace(/\)/g, "%29")})`
+    : escapeMarkdown(sourceOf(summary));
+  lines.push(`Source : ${source} · ${formatDate(summary.created_at)}`, "");
+  const singleParagraph = summary.options?.mode === "tldr" || summary.options?.mode === "abstract";
+  for (const group of groupsOf(summary)) {
+    if (group.heading) lines.push(`${"#".repeat(level + 1)} ${escapeMarkdown(group.heading)}`, "");
+    if (singleParagraph) lines.push(group.points.map(escapeMarkdown).join(" "));
+    else lines.push(...group.points.map((point) => `- ${escapeMarkdown(point)}`));
+    lines.push("");
+  }
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+export function summaryToText(summary: ExportableSummary): string {
+  const lines = [summary.title, "", `Source : ${sourceOf(summary)}`, `Date : ${formatDate(summary.created_at)}`, ""];
+  for (const group of groupsOf(summary)) {
+    if (group.heading) lines.push(group.heading);
+    lines.push(...group.points.map((point) => `- ${point}`), "");
+  }
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function summaryToHtml(summary: ExportableSummary): string {
+  const source = summary.url
+    ? `<a href="${escapeHtml(summary.url)}">${escapeHtml(hostOf(summary.url))}</a>`
+    : escapeHtml(sourceOf(summary));
+  const body = groupsOf(summary)
+    .map(
+      (group) =>
+        (group.heading ? `<h3>${escapeHtml(group.heading)}</h3>` : "") +
+        `<ul>${group.points.map((point) => `<li>${escapeHtml(point)}</li>`).join("")}</ul>`
+    )
+    .join("");
+  return (
+    `<article><h2>${escapeHtml(summary.title)}</h2>` +
+    `<p class="meta">${source} · <time datetime="${escapeHtml(summary.created_at)}">${formatDate(summary.created_at)}</time></p>` +
+    `${body}</article>`
+  );
+}
+
+const HTML_STYLE =
+  "body{font-family:system-ui,sans-serif;max-width:48rem;margin:2rem auto;padding:0 1rem;color:#18181b;line-height:1.5}" +
+  "article{border-bottom:1px solid #e4e4e7;padding:1rem 0}h2{margin:0 0 .25rem}h3{font-size:1rem;margin:.75rem 0 .25rem}" +
+  ".meta{color:#71717a;font-size:.875rem;margin:0}a{color:inherit}";
+
+/** A standalone page: styles are inline and nothing is loaded from elsewhere. */
+export function summariesToHtml(summaries: ExportableSummary[], heading: string): string {
+  return (
+    `<!doctype html>\n<html lang="fr"><head><meta charset="utf-8">` +
+    `<meta name="viewport" content="width=device-width, initial-scale=1">` +
+    `<title>${escapeHtml(heading)}</title><style>${HTML_STYLE}</style></head>` +
+    `<body><h1>${escapeHtml(heading)}</h1>${summaries.map(summaryToHtml).join("")}</body></html>\n`
+  );
+}
+
+const WIN_ANSI_EXTRAS = "€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ";
+
+/** The standard PDF fonts only cover WinAnsi; other characters become "?". */
+function toWinAnsi(text: string): string {
+  return text
+    .normalize("NFC")
+    .replace(/[\u2009\u202f]/g, " ")
+    .replace(/\u2212/g, "-")
+    .replace(/[^\n\x20-\x7e\xa0-\xff]/g, (c) => (WIN_ANSI_EXTRAS.includes(c) ? c : "?"));
+}
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // Words wider than the page, such as long URLs, are cut anywhere.
+      line = word;
+      while (font.widthOfTextAtSize(line, size) > maxWidth) {
+        let cut = line.length - 1;
+        while (cut > 1 && font.widthOfTextAtSize(line.slice(0, cut), size) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+export async function summariesToPdf(summaries: ExportableSummary[], heading: string): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(heading);
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const [pageWidth, pageHeight] = PageSizes.A4;
+  const margin = 50;
+  let page = pdf.addPage(PageSizes.A4);
+  let y = pageHeight - margin;
+
+  function write(text: string, { font = regular, size = 11, indent = 0, grey = false, after = 4 } = {}) {
+    for (const line of wrapText(toWinAnsi(text), font, size, pageWidth - 2 * margin - indent)) {
+      if (y - size * 1.3 < margin) {
+        page = pdf.addPage(PageSizes.A4);
+        y = pageHeight - margin;
+      }
+      y -= size * 1.3;
+      page.drawText(line, { x: margin + indent, y, size, font, color: grey ? rgb(0.45, 0.45, 0.48) : rgb(0.1, 0.1, 0.1) });
+    }
+    y -= after;
+  }
+
+  if (summaries.length > 1) write(heading, { font: bold, size: 20, after: 16 });
+  for (const summary of summaries) {
+    write(summary.title, { font: bold, size: 15 });
+    write(`${sourceOf(summary)} · ${formatDate(summary.created_at)}`, { size: 9, grey: true, after: 8 });
+    for (const group of groupsOf(summary)) {
+      if (group.heading) write(group.heading, { font: bold, size: 12 });
+      for (const point of group.points) write(`•  ${point}`, { indent: 8 });
+    }
+    y -= 16;
+  }
+  return pdf.save();
+}
+
+export function toBundle(summaries: ExportableSummary[]): ExportBundle {
+  return { format: BUNDLE_FORMAT, version: 1, exported_at: new Date().toISOString(), items: summaries };
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function parseItem(raw: unknown): ExportableSummary | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const item = raw as Record<string, unknown>;
+  if (typeof item.title !== "string" || !item.title.trim() || !isStringArray(item.bullets)) return null;
+  if (item.url !== undefined && item.url !== null && typeof item.url !== "string") return null;
+  const createdAt = typeof item.created_at === "string" && !Number.isNaN(Date.parse(item.created_at))
+    ? item.created_at
+    : new Date().toISOString();
+  const options = parseSummaryOptions(item.options);
+  const sections = Array.isArray(item.sections)
+    ? item.sections.filter(
+        (s): s is { heading: string; points: string[] } =>
+          !!s && typeof s.heading === "string" && isStringArray(s.points)
+      )
+    : [];
+  const url = typeof item.url === "string" && item.url ? item.url : null;
+  return {
+    ...(Number.isInteger(item.id) ? { id: item.id as number } : {}),
+    title: item.title,
+    bullets: item.bullets,
+    url,
+    source_type: url ? "url" : item.source_type === "file" ? "file" : "text",
+    ...(typeof item.source_name === "string" ? { source_name: item.source_name } : {}),
+    ...(sections.length ? { sections: sections.map((s) => ({ heading: s.heading, points: s.points })) } : {}),
+    ...(options.ok ? { options: options.options } : {}),
+    created_at: createdAt,
+  };
+}
+
+/** Reads a bundle exported as JSON, or the ZIP export that contains it. */
+export function readBundle(input: string | Uint8Array): BundleResult {
+  let text: string;
+  if (typeof input === "string") {
+    text = input;
+  } else if (input[0] === 0x50 && input[1] === 0x4b) {
+    let files: Record<string, Uint8Array>;
+    try {
+      files = unzipSync(input, { filter: (file) => file.name === BUNDLE_FILENAME });
+    } catch {
+      return { ok: false, error: "Archive ZIP illisible" };
+    }
+    if (!files[BUNDLE_FILENAME]) return { ok: false, error: `Archive sans ${BUNDLE_FILENAME}` };
+    text = strFromU8(files[BUNDLE_FILENAME]);
+  } else {
+    text = strFromU8(input);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "Fichier JSON invalide" };
+  }
+  const bundle = raw as Partial<ExportBundle> | null;
+  if (!bundle || bundle.format !== BUNDLE_FORMAT || !Array.isArray(bundle.items)) {
+    return { ok: false, error: "Ce fichier n'est pas un export de résumés" };
+  }
+  if (bundle.items.length > MAX_BUNDLE_ITEMS) {
+    return { ok: false, error: `${MAX_BUNDLE_ITEMS} résumés au plus par import` };
+  }
+  const items: ExportableSummary[] = [];
+  for (const [index, rawItem] of bundle.items.entries()) {
+    const item = parseItem(rawItem);
+    if (!item) return { ok: false, error: `Résumé n°${index + 1} invalide` };
+    items.push(item);
+  }
+  return { ok: true, bundle: { ...toBundle(items), exported_at: String(bundle.exported_at ?? "") } };
+}
+
+/** Renders one summary, or several as a single document, in `format`. */
+export async function renderExport(summaries: ExportableSummary[], format: ExportFormat): Promise<ExportFile> {
+  const heading = summaries.length === 1 ? summaries[0].title : "Historique des résumés";
+  const basename =
+    summaries.length === 1 ? slug(summaries[0].title) : `resumes-${new Date().toISOString().slice(0, 10)}`;
+  let data: Uint8Array | string;
+  switch (format) {
+    case "markdown":
+      data =
+        summaries.length === 1
+          ? summaryToMarkdown(summaries[0])
+          : `# ${heading}\n\n${summaries.map((s) => summaryToMarkdown(s, 2)).join("\n---\n\n")}`;
+      break;
+    case "txt":
+      data = summaries.map(summaryToText).join("\n\n");
+      break;
+    case "json":
+      data = JSON.stringify(toBundle(summaries), null, 2);
+      break;
+    case "html":
+      data = summariesToHtml(summaries, heading);
+      break;
+    case "pdf":
+      data = await summariesToPdf(summaries, heading);
+      break;
+    case "zip": {
+      const files: Record<string, Uint8Array> = {
+        [BUNDLE_FILENAME]: strToU8(JSON.stringify(toBundle(summaries), null, 2)),
+      };
+      summaries.forEach((summary, i) => {
+        files[`${String(i + 1).padStart(3, "0")}-${slug(summary.title)}.md`] = strToU8(summaryToMarkdown(summary));
+      });
+      data = zipSync(files);
+      break;
+    }
+  }
+  return { filename: `${basename}.${EXTENSIONS[format]}`, contentType: CONTENT_TYPES[format], data };
+}
@@ -0,0 +1,11 @@
+export const EXPORT_FORMATS = ["markdown", "json", "html", "pdf", "txt", "zip"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: "Markdown",
+  json: "JSON",
+  html: "HTML",
+  pdf: "PDF",
+  txt: "Texte",
+  zip: "ZIP",
+};
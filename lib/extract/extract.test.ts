@@ -0,0 +1,117 @@
+import { readFileSync } from "node:fs";
+import * as cheerio from "cheerio";
+import { describe, expect, it } from "vitest";
+import { extractContent } from "./index";
+import { extractMetadata } from "./metadata";
+import { extractBlocks } from "./readability";
+
+function load(name: string) {
+  return cheerio.load(readFileSync(new URL(`./__fixtures__/${name}.html`, import.meta.url), "utf8"));
+}
+
+describe("extractBlocks", () => {
+  it("keeps the article and drops the cookie banner, navigation, comments and footer", () => {
+    const blocks = extractBlocks(load("news-article"));
+    expect(blocks.map((block) => block.type)).toEqual([
+      "heading",
+      "paragraph",
+      "paragraph",
+      "paragraph",
+      "heading",
+      "paragraph",
+      "quote",
+      "paragraph",
+      "list",
+    ]);
+    expect(blocks[0]).toEqual({ type: "heading", level: 1, text: "Le conseil municipal adopte le budget 2025" });
+    expect(blocks[4]).toEqual({ type: "heading", level: 2, text: "Une opposition divisée" });
+    expect(blocks[6]).toEqual({
+      type: "quote",
+      text: "Nous ne pouvions pas reporter une nouvelle fois la rénovation des écoles, a déclaré la maire.",
+    });
+    expect(blocks[8]).toEqual({
+      type: "list",
+      ordered: false,
+      items: [
+        "Rénovation des écoles élémentaires",
+        "Extension du réseau de pistes cyclables",
+        "Modernisation de l'éclairage public",
+      ],
+    });
+    const text = JSON.stringify(blocks);
+    expect(text).not.toMatch(/cookies|Tout accepter|Commentaires|impôts|Mentions légales|Sport/);
+  });
+
+  it("keeps code blocks verbatim and data tables as rows", () => {
+    const blocks = extractBlocks(load("docs-page"));
+    expect(blocks.map((block) => block.type)).toEqual([
+      "heading",
+      "paragraph",
+      "heading",
+      "paragraph",
+      "code",
+      "heading",
+      "paragraph",
+      "table",
+    ]);
+    expect(blocks[4]).toEqual({
+      type: "code",
+      text:
+        'import { createClient } from "queuekit";\n\nconst client = createClient({\n' +
+        "  url: process.env.QUEUE_URL,\n  concurrency: 4,\n});",
+    });
+    expect(blocks[7]).toEqual({
+      type: "table",
+      rows: [
+        ["Option", "Type", "Default"],
+        ["url", "string", "none"],
+        ["concurrency", "number", "1"],
+        ["retries", "number", "3"],
+      ],
+    });
+    expect(JSON.stringify(blocks)).not.toMatch(/Introduction|MIT license/);
+  });
+});
+
+describe("extractMetadata", () => {
+  it("reads meta tags, the html lang and a relative canonical link", () => {
+    expect(extractMetadata(load("news-article"), "https://gazette.example/articles/123")).toEqual({
+      title: "Le conseil municipal adopte le budget 2025 | La Gazette du Rhône",
+      author: "Claire Martin",
+      publishedAt: "2025-01-14T18:30:00+01:00",
+      siteName: "La Gazette du Rhône",
+      language: "fr",
+      canonicalUrl: "https://gazette.example/politique/budget-2025",
+    });
+  });
+
+  it("prefers JSON-LD to OpenGraph, and OpenGraph to plain tags", () => {
+    expect(extractMetadata(load("structured-metadata"), "https://science.example/p?id=7")).toEqual({
+      title: "Mapping the deep sea on a shoestring",
+      description: "How a small lab mapped the deep sea floor with cheap sensors.",
+      author: "Ada Ng, Tom Reyes",
+      publishedAt: "2024-11-02T09:00:00Z",
+      siteName: "Science Weekly",
+      language: "en-GB",
+      canonicalUrl: "https://science.example/og-url",
+    });
+  });
+
+  it("falls back to application-name for the site", () => {
+    const metadata = extractMetadata(load("docs-page"));
+    expect(metadata.siteName).toBe("Queuekit");
+    expect(metadata.language).toBe("en");
+    expect(metadata.author).toBeUndefined();
+    expect(metadata.publishedAt).toBeUndefined();
+  });
+});
+
+describe("extractContent", () => {
+  it("renders the blocks as Markdown text", () => {
+    const html = readFileSync(new URL("./__fixtures__/docs-page.html", import.meta.url), "utf8");
+    const { text } = extractContent(html, "https://docs.example/config");
+    expect(text).toContain("## Options");
+    expect(text).toContain('```\nimport { createClient } from "queuekit";');
+    expect(text).toContain("| concurrency | number | 1 |");
+  });
+});
@@ -0,0 +1,22 @@
+import * as cheerio from "cheerio";
+import { extractMetadata } from "./metadata";
+import { findPagination } from "./pagination";
+import { blocksToText, extractBlocks } from "./readability";
+import type { ExtractedContent } from "./types";
+
+export type { ContentBlock, ExtractedContent, PageMetadata, PaginationLinks } from "./types";
+
+export function extractContent(html: string, pageUrl?: string): ExtractedContent {
+  const $ = cheerio.load(html);
+  const metadata = extractMetadata($, pageUrl);
+  const pagination = findPagination($, pageUrl);
+  const blocks = extractBlocks($);
+  const firstHeading = blocks.find((b) => b.type === "heading" && b.level === 1);
+  return {
+    title: metadata.title ?? (firstHeading?.type === "heading" ? firstHeading.text : undefined),
+    blocks,
+    text: blocksToText(blocks),
+    metadata,
+    pagination,
+  };
+}
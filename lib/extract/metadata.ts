@@ -0,0 +1,96 @@
+import type { CheerioAPI } from "cheerio";
+import type { PageMetadata } from "./types";
+
+type JsonLdNode = Record<string, unknown>;
+
+const ARTICLE_TYPES = /Article|BlogPosting|Report|WebPage|TechArticle/;
+
+function clean(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.replace(/\s+/g, " ").trim();
+  return trimmed || undefined;
+}
+
+function resolveUrl(value: string | undefined, baseUrl: string | undefined): string | undefined {
+  if (!value) return undefined;
+  try {
+    return new URL(value, baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function flattenJsonLd(value: unknown, out: JsonLdNode[] = []): JsonLdNode[] {
+  if (Array.isArray(value)) {
+    value.forEach((v) => flattenJsonLd(v, out));
+  } else if (value && typeof value === "object") {
+    const node = value as JsonLdNode;
+    out.push(node);
+    if (node["@graph"]) flattenJsonLd(node["@graph"], out);
+  }
+  return out;
+}
+
+function nodeTypes(node: JsonLdNode): string[] {
+  const type = node["@type"];
+  if (Array.isArray(type)) return type.map(String);
+  return typeof type === "string" ? [type] : [];
+}
+
+function personName(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    const names = value.map(personName).filter((n): n is string => Boolean(n));
+    return names.length ? names.join(", ") : undefined;
+  }
+  if (value && typeof value === "object") return clean((value as JsonLdNode).name);
+  return clean(value);
+}
+
+function readJsonLd($: CheerioAPI): JsonLdNode | undefined {
+  const nodes: JsonLdNode[] = [];
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      flattenJsonLd(JSON.parse($(el).text()), nodes);
+    } catch {}
+  });
+  return nodes.find((n) => nodeTypes(n).some((t) => ARTICLE_TYPES.test(t)));
+}
+
+function meta($: CheerioAPI, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = clean(
+      $(`meta[property="${key}"]`).attr("content") ?? $(`meta[name="${key}"]`).attr("content")
+    );
+    if (value) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Reads page metadata from JSON-LD first, then OpenGraph, then plain meta tags.
+ * Must run before boilerplate removal, which strips <script> elements.
+ */
+export function extractMetadata($: CheerioAPI, pageUrl?: string): PageMetadata {
+  const ld = readJsonLd($);
+  const publisher = ld?.publisher as JsonLdNode | undefined;
+  const mainEntity = ld?.mainEntityOfPage;
+  const ldUrl = typeof mainEntity === "string" ? mainEntity : clean((mainEntity as JsonLdNode | undefined)?.["@id"]);
+
+  const ogLocale = meta($, "og:locale")?.replace("_", "-");
+
+  return {
+    title: clean(ld?.headline) ?? meta($, "og:title", "twitter:title") ?? clean($("title").first().text()),
+    description: meta($, "og:description", "description", "twitter:description") ?? clean(ld?.description),
+    author: personName(ld?.author) ?? meta($, "article:author", "author", "parsely-author", "dc.creator"),
+    publishedAt:
+      clean(ld?.datePublished) ??
+      meta($, "article:published_time", "date", "dc.date", "dc.date.issued", "pubdate") ??
+      clean($("time[datetime]").first().attr("datetime")),
+    siteName: meta($, "og:site_name", "application-name") ?? personName(publisher),
+    language: clean($("html").attr("lang")) ?? clean(ld?.inLanguage) ?? ogLocale,
+    canonicalUrl: resolveUrl(
+      clean($('link[rel="canonical"]').attr("href")) ?? meta($, "og:url") ?? ldUrl,
+      pageUrl
+    ),
+  };
+}
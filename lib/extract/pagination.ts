@@ -0,0 +1,104 @@
+import type { CheerioAPI } from "cheerio";
+import type { PaginationLinks } from "./types";
+
+/** Query parameters sites number their pages with. */
+// Not `p`, which WordPress uses for post ids.
+const PAGE_PARAMS = ["page", "pg", "paged", "pagina", "seite"];
+const NEXT_LABELS = ["suivant", "suivante", "page suivante", "next", "next page", "siguiente", "weiter", "successiva"];
+/** A "next" label, or arrows such as "›" and "»". */
+const NEXT_TEXT = new RegExp(`^(${NEXT_LABELS.join("|")})\\b|^[\u203a\u00bb>]+$`, "i");
+const PAGER = /pagination|pager|page-numbers|pages|paging/i;
+const PRINT_TEXT = /^(imprimer|version imprimable|print|printer[- ]friendly|print version)\b/i;
+
+function resolve(href: string | undefined, baseUrl: string): URL | null {
+  if (!href || href.startsWith("#") || href.startsWith("javascript:")) return null;
+  try {
+    const url = new URL(href, baseUrl);
+    return /^https?:$/.test(url.protocol) ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Number of the page `url` shows, from `?page=3` or `/page/3/`; 1 when it has none. */
+function pageNumber(url: URL): number {
+  for (const param of PAGE_PARAMS) {
+    const value = Number(url.searchParams.get(param));
+    if (Number.isInteger(value) && value > 0) return value;
+  }
+  const match = url.pathname.match(/\/page\/(\d+)\/?$/);
+  return match ? Number(match[1]) : 1;
+}
+
+/** Same article path, once the page number is left out. */
+function articleKey(url: URL): string {
+  const copy = new URL(url);
+  for (const param of PAGE_PARAMS) copy.searchParams.delete(param);
+  copy.hash = "";
+  return `${copy.host}${copy.pathname.replace(/\/page\/\d+\/?$/, "/").replace(/\/$/, "")}?${copy.searchParams}`;
+}
+
+function sameHost(a: URL, b: URL): boolean {
+  return a.hostname.replace(/^www\./, "") === b.hostname.replace(/^www\./, "");
+}
+
+function findNext($: CheerioAPI, page: URL): string | undefined {
+  const candidates: URL[] = [];
+  const relNext = $('link[rel~="next"], a[rel~="next"]').first().attr("href");
+  const declared = resolve(relNext, page.href);
+  if (declared) candidates.push(declared);
+
+  $("a[href]").each((_, el) => {
+    const anchor = $(el);
+    const url = resolve(anchor.attr("href"), page.href);
+    if (!url) return;
+    const label = (anchor.attr("aria-label") || anchor.text()).replace(/\s+/g, " ").trim();
+    const inPager = anchor
+      .parents()
+      .toArray()
+      .some((parent) => PAGER.test(`${$(parent).attr("class") ?? ""} ${$(parent).attr("id") ?? ""}`));
+    if (NEXT_TEXT.test(label) && (inPager || /next/i.test(anchor.attr("class") ?? ""))) candidates.push(url);
+    // `?page=2` links of the same article, as in a row of page numbers.
+    else if (articleKey(url) === articleKey(page) && pageNumber(url) === pageNumber(page) + 1) candidates.push(url);
+  });
+
+  return candidates.find((url) => sameHost(url, page) && url.href !== page.href)?.href;
+}
+
+/** A version of the article on one page: the print view, or AMP, which many sites do not split. */
+function findSinglePage($: CheerioAPI, page: URL): string | undefined {
+  const candidates = [
+    $('link[rel~="alternate"][media="print"]').attr("href"),
+    ...$("a[href]")
+      .toArray()
+      .filter((el) => {
+        const label = $(el).text().replace(/\s+/g, " ").trim();
+        return PRINT_TEXT.test(label) || /print/i.test($(el).attr("class") ?? "");
+      })
+      .map((el) => $(el).attr("href")),
+    $('link[rel~="amphtml"]').attr("href"),
+  ];
+  for (const href of candidates) {
+    const url = resolve(href, page.href);
+    if (url && sameHost(url, page) && url.href !== page.href) return url.href;
+  }
+  return undefined;
+}
+
+/**
+ * Links to the rest of a paginated article: the next page, from `rel="next"`,
+ * a "next" link in a pager or a `?page=` link to the following number, and a
+ * single-page variant. Must run before boilerplate removal, which drops pagers.
+ */
+export function findPagination($: CheerioAPI, pageUrl: string | undefined): PaginationLinks {
+  if (!pageUrl) return {};
+  let page: URL;
+  try {
+    page = new URL(pageUrl);
+  } catch {
+    return {};
+  }
+  const next = findNext($, page);
+  // Only worth looking for when the article is split.
+  return next ? { next, singlePage: findSinglePage($, page) } : {};
+}
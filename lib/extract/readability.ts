@@ -0,0 +1,310 @@
+import type { CheerioAPI } from "cheerio";
+import type { AnyNode, Element } from "domhandler";
+import type { ContentBlock } from "./types";
+
+const BOILERPLATE_SELECTORS = [
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "iframe",
+  "svg",
+  "canvas",
+  "form",
+  "button",
+  "nav",
+  "footer",
+  "aside",
+  "dialog",
+  "[role=navigation]",
+  "[role=banner]",
+  "[role=contentinfo]",
+  "[role=complementary]",
+  "[role=dialog]",
+  "[aria-hidden=true]",
+  "[hidden]",
+].join(", ");
+
+const UNLIKELY_CANDIDATES =
+  /banner|breadcrumb|combx|comment|community|consent|cookie|disqus|footer|gdpr|header|masthead|menu|modal|nav|newsletter|outbrain|pager|pagination|popup|promo|related|replies|rss|share|sharing|sidebar|skyscraper|social|sponsor|subscribe|taboola|teaser|toolbar|widget|(^|[-_\s])ads?([-_\s]|$)|advert/i;
+const LIKELY_CANDIDATES = /article|body|content|entry|main|post|story|text|prose/i;
+const NEGATIVE_WEIGHT = /byline|caption|hidden|meta|more|recommend|shopping|tags|author-bio/i;
+
+const HEADING_TAGS = new Set(["h1", "h2", "h3", "h4", "h5", "h6"]);
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "blockquote",
+  "details",
+  "div",
+  "dl",
+  "fieldset",
+  "figure",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "main",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "ul",
+]);
+const SCORED_TAGS = "p, pre, td, blockquote";
+const MIN_PARAGRAPH_CHARS = 25;
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function isElement(node: AnyNode): node is Element {
+  return node.type === "tag" || node.type === "script" || node.type === "style";
+}
+
+function classAndId(el: Element): string {
+  return `${el.attribs.class ?? ""} ${el.attribs.id ?? ""}`;
+}
+
+function classWeight(el: Element): number {
+  const names = classAndId(el);
+  let weight = 0;
+  if (LIKELY_CANDIDATES.test(names)) weight += 25;
+  if (UNLIKELY_CANDIDATES.test(names) || NEGATIVE_WEIGHT.test(names)) weight -= 25;
+  return weight;
+}
+
+function tagWeight(tag: string): number {
+  switch (tag) {
+    case "article":
+      return 10;
+    case "main":
+    case "div":
+    case "section":
+      return 5;
+    case "pre":
+    case "td":
+    case "blockquote":
+      return 3;
+    case "ol":
+    case "ul":
+    case "dl":
+    case "li":
+    case "form":
+      return -3;
+    default:
+      return HEADING_TAGS.has(tag) || tag === "th" ? -5 : 0;
+  }
+}
+
+function removeBoilerplate($: CheerioAPI) {
+  $(BOILERPLATE_SELECTORS).remove();
+  // Page-level headers hold logos and menus; headers inside an article hold its title.
+  $("header")
+    .filter((_, el) => $(el).closest("article, main").length === 0)
+    .remove();
+  $("*").each((_, node) => {
+    if (!isElement(node)) return;
+    const el = node;
+    if (el.tagName === "html" || el.tagName === "body" || el.tagName === "article" || el.tagName === "main") return;
+    const names = classAndId(el);
+    if (UNLIKELY_CANDIDATES.test(names) && !LIKELY_CANDIDATES.test(names)) {
+      $(el).remove();
+    }
+  });
+}
+
+function linkDensity($: CheerioAPI, el: Element): number {
+  const textLength = normalize($(el).text()).length;
+  if (textLength === 0) return 0;
+  const linkLength = $(el)
+    .find("a")
+    .toArray()
+    .reduce((sum, a) => sum + normalize($(a).text()).length, 0);
+  return linkLength / textLength;
+}
+
+/** Scores ancestors of paragraph-like nodes by their text and returns the best content root(s). */
+function findContentRoots($: CheerioAPI): Element[] {
+  const scores = new Map<Element, number>();
+  const initScore = (el: Element) => {
+    if (!scores.has(el)) scores.set(el, tagWeight(el.tagName) + classWeight(el));
+  };
+
+  $(SCORED_TAGS).each((_, el) => {
+    const text = normalize($(el).text());
+    if (text.length < MIN_PARAGRAPH_CHARS) return;
+    const contentScore = 1 + (text.match(/,/g)?.length ?? 0) + Math.min(Math.floor(text.length / 100), 3);
+    const parent = el.parent && isElement(el.parent) ? el.parent : null;
+    const grandparent = parent?.parent && isElement(parent.parent) ? parent.parent : null;
+    if (parent) {
+      initScore(parent);
+      scores.set(parent, scores.get(parent)! + contentScore);
+    }
+    if (grandparent) {
+      initScore(grandparent);
+      scores.set(grandparent, scores.get(grandparent)! + contentScore / 2);
+    }
+  });
+
+  let top: Element | null = null;
+  let topScore = -Infinity;
+  for (const [el, score] of scores) {
+    const finalScore = score * (1 - linkDensity($, el));
+    scores.set(el, finalScore);
+    if (finalScore > topScore) {
+      top = el;
+      topScore = finalScore;
+    }
+  }
+  if (!top) {
+    const body = $("body").get(0);
+    return body ? [body] : [];
+  }
+
+  // Content is often split across sibling containers; keep the ones that look like the top candidate.
+  const parent = top.parent && isElement(top.parent) ? top.parent : null;
+  if (!parent) return [top];
+  const threshold = Math.max(10, topScore * 0.2);
+  return parent.children.filter((child): child is Element => {
+    if (!isElement(child)) return false;
+    if (child === top) return true;
+    const score = scores.get(child);
+    if (score !== undefined && score >= threshold) return true;
+    if (child.tagName === "p") {
+      const text = normalize($(child).text());
+      return text.length > 80 && linkDensity($, child) < 0.25;
+    }
+    return false;
+  });
+}
+
+function hasBlockChildren(el: Element): boolean {
+  return el.children.some((child) => isElement(child) && BLOCK_TAGS.has(child.tagName));
+}
+
+function tableRows($: CheerioAPI, table: Element): string[][] {
+  return $(table)
+    .find("tr")
+    .toArray()
+    .map((tr) =>
+      $(tr)
+        .children("th, td")
+        .toArray()
+        .map((cell) => normalize($(cell).text()))
+    )
+    .filter((row) => row.some(Boolean));
+}
+
+function collectBlocks($: CheerioAPI, root: Element, blocks: ContentBlock[]) {
+  let inline = "";
+  const flushInline = () => {
+    const text = normalize(inline);
+    if (text.length >= MIN_PARAGRAPH_CHARS) blocks.push({ type: "paragraph", text });
+    inline = "";
+  };
+
+  for (const child of root.children) {
+    if (child.type === "text") {
+      inline += child.data;
+      continue;
+    }
+    if (!isElement(child)) continue;
+    const tag = child.tagName;
+
+    if (!BLOCK_TAGS.has(tag)) {
+      inline += ` ${$(child).text()} `;
+      continue;
+    }
+    flushInline();
+
+    if (HEADING_TAGS.has(tag)) {
+      const text = normalize($(child).text());
+      if (text) blocks.push({ type: "heading", level: Number(tag[1]), text });
+    } else if (tag === "p") {
+      const text = normalize($(child).text());
+      if (text && linkDensity($, child) < 0.5) blocks.push({ type: "paragraph", text });
+    } else if (tag === "ul" || tag === "ol") {
+      const items = $(child)
+        .children("li")
+        .toArray()
+        .filter((li) => linkDensity($, li) < 0.5)
+        .map((li) => normalize($(li).text()))
+        .filter(Boolean);
+      if (items.length) blocks.push({ type: "list", ordered: tag === "ol", items });
+    } else if (tag === "blockquote") {
+      const text = normalize($(child).text());
+      if (text) blocks.push({ type: "quote", text });
+    } else if (tag === "pre") {
+      const text = $(child).text().replace(/\s+$/, "");
+      if (text.trim()) blocks.push({ type: "code", text });
+    } else if (tag === "table") {
+      // Layout tables wrap whole sections; only data tables become table blocks.
+      if ($(child).find("table, p, div").length > 0) {
+        $(child)
+          .find("td, th")
+          .toArray()
+          .forEach((cell) => collectBlocks($, cell, blocks));
+      } else {
+        const rows = tableRows($, child);
+        if (rows.length) blocks.push({ type: "table", rows });
+      }
+    } else if (tag !== "hr") {
+      if (hasBlockChildren(child)) {
+        collectBlocks($, child, blocks);
+      } else {
+        const text = normalize($(child).text());
+        if (text.length >= MIN_PARAGRAPH_CHARS && linkDensity($, child) < 0.5) {
+          blocks.push({ type: "paragraph", text });
+        }
+      }
+    }
+  }
+  flushInline();
+}
+
+export function blocksToText(blocks: ContentBlock[]): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "heading":
+          return `${"#".repeat(block.level)} ${block.text}`;
+        case "paragraph":
+          return block.text;
+        case "list":
+          return block.items.map((item, i) => (block.ordered ? `${i + 1}. ${item}` : `- ${item}`)).join("\n");
+        case "quote":
+          return `> ${block.text}`;
+        case "code":
+          return `\`\`\`\n${block.text}\n\`\`\``;
+        case "table":
+          return block.rows.map((row) => `| ${row.join(" | ")} |`).join("\n");
+      }
+    })
+    .join("\n\n");
+}
+
+/**
+ * Readability-style extraction: strips boilerplate, scores candidate containers by
+ * text and link density, then serializes the winners into structured blocks.
+ * Mutates the document, so run metadata extraction first.
+ */
+export function extractBlocks($: CheerioAPI): ContentBlock[] {
+  removeBoilerplate($);
+  const blocks: ContentBlock[] = [];
+  for (const root of findContentRoots($)) {
+    if (root.tagName === "p") {
+      const text = normalize($(root).text());
+      if (text) blocks.push({ type: "paragraph", text });
+    } else {
+      collectBlocks($, root, blocks);
+    }
+  }
+  return blocks;
+}
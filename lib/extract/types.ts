@@ -0,0 +1,33 @@
+export type ContentBlock =
+  | { type: "heading"; level: number; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "quote"; text: string }
+  | { type: "code"; text: string }
+  | { type: "table"; rows: string[][] };
+
+export type PageMetadata = {
+  title?: string;
+  description?: string;
+  author?: string;
+  publishedAt?: string;
+  siteName?: string;
+  language?: string;
+  canonicalUrl?: string;
+};
+
+/** Links to the rest of an article split across pages, as absolute URLs. */
+export type PaginationLinks = {
+  next?: string;
+  /** Print or AMP version, which may hold the whole article. */
+  singlePage?: string;
+};
+
+export type ExtractedContent = {
+  title?: string;
+  blocks: ContentBlock[];
+  /** Blocks rendered as lightweight Markdown, one block per paragraph. */
+  text: string;
+  metadata: PageMetadata;
+  pagination: PaginationLinks;
+};
@@ -0,0 +1,90 @@
+import * as cheerio from "cheerio";
+import { AppError } from "@/lib/errors";
+import { fetchXml } from "@/lib/scrape";
+
+/** Nested sitemaps read from a sitemap index. */
+const MAX_NESTED_SITEMAPS = 5;
+
+function absoluteHttpUrl(value: string | undefined, base: string): string | null {
+  if (!value?.trim()) return null;
+  try {
+    const url = new URL(value.trim(), base);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function unique(urls: (string | null)[]): string[] {
+  return [...new Set(urls.filter((u): u is string => u !== null))];
+}
+
+/** Article links of an RSS 2.0, RSS 1.0 (RDF) or Atom feed, in feed order. */
+export function parseFeedLinks(xml: string, baseUrl: string): string[] {
+  const $ = cheerio.load(xml, { xml: true });
+  const links: (string | null)[] = [];
+  $("item").each((_, el) => {
+    const item = $(el);
+    const guid = item.children("guid").first();
+    links.push(
+      absoluteHttpUrl(item.children("link").first().text(), baseUrl) ??
+        (guid.attr("isPermaLink") !== "false" ? absoluteHttpUrl(guid.text(), baseUrl) : null)
+    );
+  });
+  $("entry").each((_, el) => {
+    const link = $(el)
+      .children("link")
+      .filter((_, l) => ($(l).attr("rel") ?? "alternate") === "alternate")
+      .first();
+    links.push(absoluteHttpUrl(link.attr("href"), baseUrl));
+  });
+  return unique(links);
+}
+
+type SitemapEntries = { pages: string[]; sitemaps: string[] };
+
+/** Pages of a sitemap, most recently modified first, or the sitemaps of a sitemap index. */
+export function parseSitemap(xml: string, baseUrl: string): SitemapEntries {
+  const $ = cheerio.load(xml, { xml: true });
+  const pages = $("urlset > url")
+    .toArray()
+    .map((el, index) => ({
+      url: absoluteHttpUrl($(el).children("loc").text(), baseUrl),
+      lastmod: Date.parse($(el).children("lastmod").text().trim()) || 0,
+      index,
+    }))
+    .sort((a, b) => b.lastmod - a.lastmod || a.index - b.index)
+    .map((entry) => entry.url);
+  const sitemaps = $("sitemapindex > sitemap > loc")
+    .toArray()
+    .map((el) => absoluteHttpUrl($(el).text(), baseUrl));
+  return { pages: unique(pages), sitemaps: unique(sitemaps) };
+}
+
+export async function discoverFeedUrls(feedUrl: string, limit: number): Promise<string[]> {
+  const { data, url } = await fetchXml(feedUrl);
+  const links = parseFeedLinks(new TextDecoder().decode(data), url);
+  if (links.length === 0) {
+    throw new AppError("CONTENT_EMPTY", { message: "Aucun article trouvé dans ce flux RSS/Atom" });
+  }
+  return links.slice(0, limit);
+}
+
+export async function discoverSitemapUrls(sitemapUrl: string, limit: number): Promise<string[]> {
+  const { data, url } = await fetchXml(sitemapUrl);
+  const { pages, sitemaps } = parseSitemap(new TextDecoder().decode(data), url);
+  for (const nested of sitemaps.slice(0, MAX_NESTED_SITEMAPS)) {
+    if (pages.length >= limit) break;
+    try {
+      const child = await fetchXml(nested);
+      pages.push(...parseSitemap(new TextDecoder().decode(child.data), child.url).pages);
+    } catch (e) {
+      console.warn(`[feeds] sitemap ${nested} illisible`, e);
+    }
+  }
+  const urls = unique(pages);
+  if (urls.length === 0) {
+    throw new AppError("CONTENT_EMPTY", { message: "Aucune page trouvée dans ce sitemap" });
+  }
+  return urls.slice(0, limit);
+}
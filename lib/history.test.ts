@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Session } from "@/lib/auth";
+import type { SummaryRow } from "@/lib/summaries";
+import type { SummaryUpdate } from "@/lib/summaryStore";
+
+const store = vi.hoisted(() => ({
+  semanticSearch: true,
+  row: null as unknown as SummaryRow,
+  updates: [] as SummaryUpdate[],
+}));
+
+vi.mock("@/lib/summaryStore", () => ({
+  getSummaryStore: () => ({
+    semanticSearch: store.semanticSearch,
+    get: async () => store.row,
+    update: async (_session: Session, _id: number, update: SummaryUpdate) => {
+      store.updates.push(update);
+      return { ...store.row, ...update };
+    },
+  }),
+}));
+vi.mock("@/lib/search", () => ({
+  embedSummary: vi.fn(async (title: string, points: string[]) => [title.length, points.length]),
+}));
+
+const { embedSummary } = await import("@/lib/search");
+const { updateSummary } = await import("./history");
+
+const session = { user: { id: "user-1" } } as Session;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  store.semanticSearch = true;
+  store.updates = [];
+  store.row = {
+    id: 4,
+    title: "Ancien titre",
+    summary: JSON.stringify({ summary_points: ["Ancien point"], citations: [[{ paragraph: 0, quote: "x" }]] }),
+  } as SummaryRow;
+});
+
+describe("updateSummary", () => {
+  it("embeds the new points with the title they are stored with", async () => {
+    await updateSummary(session, 4, { bullets: ["Nouveau point", "Autre point"] });
+
+    expect(embedSummary).toHaveBeenCalledWith("Ancien titre", ["Nouveau point", "Autre point"]);
+    expect(store.updates[0].embedding).toEqual([12, 2]);
+    expect(JSON.parse(store.updates[0].summary!)).toEqual({ summary_points: ["Nouveau point", "Autre point"] });
+  });
+
+  it("embeds a new title with the stored points", async () => {
+    await updateSummary(session, 4, { title: "Titre" });
+
+    expect(embedSummary).toHaveBeenCalledWith("Titre", ["Ancien point"]);
+    expect(store.updates[0]).toEqual({ title: "Titre", embedding: [5, 1] });
+  });
+
+  it("clears the embedding when it cannot be computed again", async () => {
+    vi.mocked(embedSummary).mockResolvedValueOnce(null);
+    await updateSummary(session, 4, { title: "Titre" });
+
+    expect(store.updates[0]).toEqual({ title: "Titre", embedding: null });
+  });
+
+  it("leaves embeddings alone in a store without semantic search", async () => {
+    store.semanticSearch = false;
+    await updateSummary(session, 4, { title: "Titre" });
+
+    expect(embedSummary).not.toHaveBeenCalled();
+    expect(store.updates[0]).toEqual({ title: "Titre" });
+  });
+});
@@ -0,0 +1,241 @@
+import type { Session } from "@/lib/auth";
+import type { ExportableSummary } from "@/lib/export";
+import { AppError } from "@/lib/errors";
+import { isUuid } from "@/lib/ids";
+import { embedSummary } from "@/lib/search";
+import { toSummaryResponse, type StoredSummary, type SummaryResponse, type SummaryRow } from "@/lib/summaries";
+import { getSummaryStore, type NewSummary, type SummaryUpdate } from "@/lib/summaryStore";
+import { normalizeUrl } from "@/lib/url";
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export type HistoryQuery = {
+  /** `next_cursor` of the previous page. */
+  cursor?: string;
+  limit?: number;
+  /** Host name without `www.`, matched exactly. */
+  domain?: string;
+  /** Inclusive lower bound on created_at. */
+  from?: Date;
+  /** Exclusive upper bound on created_at. */
+  to?: Date;
+  /** Summaries shared with this workspace instead of the caller's own. */
+  workspaceId?: string;
+  /** Only these summaries. */
+  ids?: number[];
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function invalid(message: string): AppError {
+  return new AppError("INVALID_REQUEST", { message });
+}
+
+function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw invalid(`Paramètre ${name} invalide (date ISO 8601 attendue)`);
+  return date;
+}
+
+/** Reads `?cursor=&limit=&workspace=&domain=&from=&to=&ids=`; throws INVALID_REQUEST. */
+export function parseHistoryQuery(params: URLSearchParams): HistoryQuery {
+  const query: HistoryQuery = {};
+
+  const cursor = params.get("cursor");
+  if (cursor) {
+    if (!/^\d+$/.test(cursor)) throw invalid("Paramètre cursor invalide");
+    query.cursor = cursor;
+  }
+
+  const limit = params.get("limit");
+  if (limit) {
+    const n = Number(limit);
+    if (!Number.isInteger(n) || n < 1 || n > MAX_PAGE_SIZE) {
+      throw invalid(`Paramètre limit invalide (entier de 1 à ${MAX_PAGE_SIZE})`);
+    }
+    query.limit = n;
+  }
+
+  const workspace = params.get("workspace");
+  if (workspace) {
+    if (!isUuid(workspace)) throw invalid("Paramètre workspace invalide");
+    query.workspaceId = workspace;
+  }
+
+  const domain = params.get("domain")?.trim().toLowerCase().replace(/^www\./, "");
+  if (domain) query.domain = domain;
+
+  const from = params.get("from");
+  if (from) query.from = parseDate(from, "from");
+
+  // A bare date as upper bound includes that whole day.
+  const to = params.get("to");
+  if (to) {
+    const date = parseDate(to, "to");
+    if (DATE_ONLY.test(to)) date.setUTCDate(date.getUTCDate() + 1);
+    query.to = date;
+  }
+
+  const ids = params.get("ids");
+  if (ids) {
+    const list = ids.split(",").map((id) => id.trim());
+    if (list.length > MAX_PAGE_SIZE || !list.every((id) => /^\d+$/.test(id))) {
+      throw invalid(`Paramètre ids invalide (${MAX_PAGE_SIZE} identifiants au plus, séparés par des virgules)`);
+    }
+    query.ids = list.map(Number);
+  }
+  return query;
+}
+
+export type HistoryPage = {
+  items: SummaryResponse[];
+  next_cursor: string | null;
+};
+
+export type SummaryPatch = {
+  title?: string;
+  bullets?: string[];
+};
+
+/** Newest first. Pages are keyed on the id, which grows with created_at. */
+export async function listSummaries(session: Session, query: HistoryQuery = {}): Promise<HistoryPage> {
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const rows = await getSummaryStore().list(session, {
+    workspaceId: query.workspaceId,
+    beforeId: query.cursor ? Number(query.cursor) : undefined,
+    domain: query.domain,
+    from: query.from,
+    to: query.to,
+    ids: query.ids,
+    limit: limit + 1,
+  });
+  const page = rows.slice(0, limit);
+  return {
+    items: page.map(toSummaryResponse),
+    next_cursor: rows.length > limit ? String(page[page.length - 1].id) : null,
+  };
+}
+
+async function getRow(session: Session, id: number): Promise<SummaryRow> {
+  const row = await getSummaryStore().get(session, id);
+  if (!row) throw new AppError("NOT_FOUND");
+  return row;
+}
+
+/** Own summaries and those of the caller's workspaces; others are NOT_FOUND. */
+export async function getSummary(session: Session, id: number): Promise<SummaryResponse> {
+  return toSummaryResponse(await getRow(session, id));
+}
+
+/** Only the owner may delete; row level security hides the row from anyone else. */
+export async function deleteSummary(session: Session, id: number): Promise<void> {
+  if (!(await getSummaryStore().delete(session, id))) throw new AppError("NOT_FOUND");
+}
+
+/**
+ * Renames a summary or replaces its points, e.g. after a manual edit. Its
+ * embedding is computed again from the new title and points, or cleared when
+ * that fails, so that semantic search does not match the old text.
+ */
+export async function updateSummary(session: Session, id: number, patch: SummaryPatch): Promise<SummaryResponse> {
+  const store = getSummaryStore();
+  const update: SummaryUpdate = {};
+  if (patch.title !== undefined) update.title = patch.title;
+  const current = patch.bullets !== undefined || store.semanticSearch ? await getRow(session, id) : null;
+  if (current && patch.bullets !== undefined) {
+    let stored: StoredSummary = {};
+    try {
+      stored = JSON.parse(current.summary ?? "{}");
+    } catch {}
+    if (stored.sections) {
+      throw new AppError("INVALID_REQUEST", { message: "Les résumés en sections ne se modifient pas point par point" });
+    }
+    // Citations belonged to the previous points.
+    update.summary = JSON.stringify({
+      ...stored,
+      summary_points: patch.bullets,
+      citations: undefined,
+      unsupported_points: undefined,
+    });
+  }
+  if (current && store.semanticSearch) {
+    update.embedding = await embedSummary(
+      update.title ?? current.title,
+      patch.bullets ?? toSummaryResponse(current).bullets
+    );
+  }
+
+  const row = await store.update(session, id, update);
+  if (!row) throw new AppError("NOT_FOUND");
+  return toSummaryResponse(row);
+}
+
+/** Every summary matching `query`, newest first, up to `max`. */
+export async function listAllSummaries(session: Session, query: HistoryQuery, max: number): Promise<SummaryResponse[]> {
+  const items: SummaryResponse[] = [];
+  let cursor = query.cursor;
+  do {
+    const page = await listSummaries(session, { ...query, cursor, limit: Math.min(MAX_PAGE_SIZE, max - items.length) });
+    items.push(...page.items);
+    cursor = page.next_cursor ?? undefined;
+  } while (cursor && items.length < max);
+  return items;
+}
+
+const IMPORT_BATCH_SIZE = 100;
+
+function canonicalOrNull(url: string | null): string | null {
+  if (!url) return null;
+  try {
+    return normalizeUrl(url);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Adds exported summaries to the caller's history, or to a workspace, keeping
+ * their dates. Items already there (same title and date) are skipped, so a
+ * bundle can be imported twice. Imported summaries have no content hash and
+ * are never served from the cache.
+ */
+export async function importSummaries(
+  session: Session,
+  items: ExportableSummary[],
+  workspaceId: string | null
+): Promise<{ imported: number; skipped: number }> {
+  let imported = 0;
+  for (let start = 0; start < items.length; start += IMPORT_BATCH_SIZE) {
+    const batch = items.slice(start, start + IMPORT_BATCH_SIZE);
+    const existing = await getSummaryStore().listCreatedAt(
+      session,
+      { userId: session.user.id, workspaceId },
+      batch.map((item) => new Date(item.created_at).toISOString())
+    );
+    const seen = new Set(existing.map((row) => `${new Date(row.created_at).getTime()}|${row.title}`));
+
+    const rows: NewSummary[] = batch
+      .filter((item) => !seen.has(`${new Date(item.created_at).getTime()}|${item.title}`))
+      .map((item) => ({
+        user_id: session.user.id,
+        workspace_id: workspaceId,
+        original_url: item.url,
+        canonical_url: canonicalOrNull(item.url),
+        source_type: item.source_type ?? (item.url ? "url" : "text"),
+        source_name: item.source_name ?? null,
+        title: item.title,
+        summary: JSON.stringify({
+          summary_points: item.bullets,
+          sections: item.sections,
+          options: item.options,
+          format: item.format,
+        } satisfies StoredSummary),
+        created_at: item.created_at,
+      }));
+    if (!rows.length) continue;
+    await getSummaryStore().insertMany(session, rows);
+    imported += rows.length;
+  }
+  return { imported, skipped: items.length - imported };
+}
@@ -0,0 +1,147 @@
+import { AppError } from "@/lib/errors";
+import { extractContent, type PageMetadata, type PaginationLinks } from "@/lib/extract";
+
+export type DocumentFormat = "html" | "pdf" | "text" | "markdown";
+
+/** How a page was read: fetched as is, or loaded in a headless browser that ran its scripts. */
+export type FetchStrategy = "static" | "rendered";
+
+export type IngestedDocument = {
+  format: DocumentFormat;
+  /** Readable text; Markdown-like for HTML and Markdown sources. */
+  text: string;
+  metadata: PageMetadata;
+  /** Set for fetched pages only. */
+  strategy?: FetchStrategy;
+  /** Addresses the text was read from, in order, for fetched pages; several for an article split across pages. */
+  pages?: string[];
+  /** Links to the rest of a paginated HTML article. */
+  pagination?: PaginationLinks;
+};
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  html: "html",
+  htm: "html",
+  xhtml: "html",
+  pdf: "pdf",
+  txt: "text",
+  text: "text",
+  md: "markdown",
+  markdown: "markdown",
+};
+
+/** MIME types a fetched URL may have; empty and octet-stream responses are sniffed by detectFormat. */
+export const FETCHABLE_CONTENT_TYPES = [
+  "text/html",
+  "application/xhtml+xml",
+  "application/pdf",
+  "text/plain",
+  "text/markdown",
+  "text/x-markdown",
+  "application/octet-stream",
+  "",
+] as const;
+
+function mimeType(contentType: string): string {
+  return contentType.split(";")[0].trim().toLowerCase();
+}
+
+function charset(contentType: string): string {
+  const match = contentType.match(/charset=["']?([^;"'\s]+)/i);
+  return match ? match[1] : "utf-8";
+}
+
+function decode(data: Uint8Array, contentType: string): string {
+  try {
+    return new TextDecoder(charset(contentType)).decode(data);
+  } catch {
+    return new TextDecoder().decode(data);
+  }
+}
+
+function looksLikePdf(data: Uint8Array): boolean {
+  return data.length > 4 && data[0] === 0x25 && data[1] === 0x50 && data[2] === 0x44 && data[3] === 0x46; // %PDF
+}
+
+/** Picks the document format from the MIME type, then the file name, then the bytes. */
+export function detectFormat(data: Uint8Array, contentType: string, name?: string): DocumentFormat {
+  const mime = mimeType(contentType);
+  if (mime === "application/pdf") return "pdf";
+  if (mime === "text/html" || mime === "application/xhtml+xml") return "html";
+  if (mime === "text/markdown" || mime === "text/x-markdown") return "markdown";
+  if (mime === "text/plain") {
+    const ext = name?.split(".").pop()?.toLowerCase();
+    return ext === "md" || ext === "markdown" ? "markdown" : "text";
+  }
+  const ext = name?.split(".").pop()?.toLowerCase();
+  if (ext && EXTENSION_FORMATS[ext]) return EXTENSION_FORMATS[ext];
+  if (looksLikePdf(data)) return "pdf";
+  if (!mime || mime === "application/octet-stream") return "html";
+  throw new AppError("UNSUPPORTED_CONTENT", { details: { content_type: mime } });
+}
+
+function normalizePlainText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.replace(/[ \t]+/g, " ").replace(/ ?\n ?/g, "\n").trim())
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+function firstLine(text: string): string | undefined {
+  const line = text.split("\n").find((l) => l.trim());
+  return line?.replace(/^#+\s*/, "").trim().slice(0, 200) || undefined;
+}
+
+async function extractPdf(data: Uint8Array): Promise<IngestedDocument> {
+  const { extractText, getDocumentProxy, getMeta } = await import("unpdf");
+  const pdf = await getDocumentProxy(new Uint8Array(data)).catch((e: unknown) => {
+    throw new AppError("UNSUPPORTED_CONTENT", {
+      details: { content_type: "application/pdf", reason: "unreadable" },
+      cause: e,
+    });
+  });
+  const { text: pages } = await extractText(pdf, { mergePages: false });
+  const { info } = await getMeta(pdf).catch(() => ({ info: {} as Record<string, unknown> }));
+  const text = normalizePlainText(pages.join("\n\n"));
+  const title = typeof info?.Title === "string" && info.Title.trim() ? info.Title.trim() : firstLine(text);
+  return {
+    format: "pdf",
+    text,
+    metadata: {
+      title,
+      author: typeof info?.Author === "string" && info.Author.trim() ? info.Author.trim() : undefined,
+    },
+  };
+}
+
+/** Plain text or Markdown that needs no extraction, e.g. pasted into the page. */
+export function ingestText(text: string, format: "text" | "markdown" = "text"): IngestedDocument {
+  const normalized = normalizePlainText(text);
+  return { format, text: normalized, metadata: { title: firstLine(normalized) } };
+}
+
+/**
+ * Turns raw bytes (a fetched response or an uploaded file) into readable text,
+ * dispatching on the content type: readability extraction for HTML, text
+ * extraction for PDF, passthrough for plain text and Markdown.
+ */
+export async function ingestBytes(
+  data: Uint8Array,
+  contentType: string,
+  { url, name }: { url?: string; name?: string } = {}
+): Promise<IngestedDocument> {
+  const format = detectFormat(data, contentType, name);
+  switch (format) {
+    case "pdf":
+      return extractPdf(data);
+    case "html": {
+      const { text, metadata, pagination } = extractContent(decode(data, contentType), url);
+      return { format, text, metadata, pagination };
+    }
+    case "text":
+    case "markdown":
+      return ingestText(decode(data, contentType), format);
+  }
+}
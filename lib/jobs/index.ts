@@ -0,0 +1,126 @@
+import type { Client } from "@/lib/access";
+import type { ErrorBody } from "@/lib/errors";
+import type { SummarizeSource } from "@/lib/pipeline";
+import type { SummaryResponse } from "@/lib/summaries";
+import type { SummarizeRequest } from "@/lib/summarizeRequest";
+import { getSummaryStoreName } from "@/lib/summaryStore";
+import { createSqliteJobStore } from "./sqlite";
+import { createSupabaseJobStore } from "./supabase";
+import type { Job, JobSource, JobStatus, JobStore } from "./types";
+
+export type { Job, JobInput, JobPatch, JobSource, JobStatus, JobStore, NewJob } from "./types";
+
+const DEFAULT_SQLITE_PATH = ".data/jobs.db";
+
+let store: JobStore | null = null;
+
+function jobStoreName(): string {
+  return process.env.JOB_STORE?.trim() || "supabase";
+}
+
+/**
+ * Throws on store combinations that would fail at the first write: Supabase
+ * jobs point at their summary with a foreign key to the Supabase `summaries`
+ * table. Run at startup, by the server and by the worker.
+ */
+export function checkStoreConfiguration(): void {
+  if (jobStoreName() === "supabase" && getSummaryStoreName() !== "supabase") {
+    throw new Error(
+      `JOB_STORE=supabase nécessite SUMMARY_STORE=supabase (SUMMARY_STORE=${getSummaryStoreName()}) : ` +
+        "utilisez JOB_STORE=sqlite avec un stockage de résumés local"
+    );
+  }
+}
+
+function createStore(name: string): JobStore {
+  switch (name) {
+    case "supabase":
+      checkStoreConfiguration();
+      return createSupabaseJobStore();
+    case "sqlite":
+      return createSqliteJobStore(process.env.JOBS_SQLITE_PATH?.trim() || DEFAULT_SQLITE_PATH);
+    default:
+      throw new Error(`Stockage de travaux inconnu: ${name}`);
+  }
+}
+
+/** The store named by JOB_STORE (supabase | sqlite), created once per process. */
+export function getJobStore(): JobStore {
+  store ??= createStore(jobStoreName());
+  return store;
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getJobMaxAttempts(): number {
+  return envInt("JOB_MAX_ATTEMPTS", 5);
+}
+
+/** Delay before attempt `attempt + 1`: JOB_BACKOFF_SECONDS, doubled after each failure, at most 10 minutes. */
+export function jobBackoffMs(attempt: number, retryAfterSeconds?: number): number {
+  const backoff = envInt("JOB_BACKOFF_SECONDS", 5) * 1000 * 2 ** (attempt - 1);
+  return Math.min(Math.max(backoff, (retryAfterSeconds ?? 0) * 1000), 10 * 60 * 1000);
+}
+
+export function toJobSource(source: SummarizeSource): JobSource {
+  if (source.type !== "file") return source;
+  return { ...source, data: Buffer.from(source.data).toString("base64") };
+}
+
+export function fromJobSource(source: JobSource): SummarizeSource {
+  if (source.type !== "file") return source;
+  return { ...source, data: new Uint8Array(Buffer.from(source.data, "base64")) };
+}
+
+/** Queues `request` for `client`; see JobStore.enqueue for `idempotencyKey`. */
+export function submitJob(
+  client: Client,
+  request: SummarizeRequest,
+  idempotencyKey: string | null
+): Promise<{ job: Job; created: boolean }> {
+  return getJobStore().enqueue({
+    userId: client.session.user.id,
+    apiKeyId: client.type === "key" ? client.key.id : null,
+    idempotencyKey,
+    maxAttempts: getJobMaxAttempts(),
+    input: {
+      source: toJobSource(request.source),
+      options: request.options,
+      force: request.force,
+      workspaceId: request.workspaceId,
+    },
+  });
+}
+
+/** Body of GET /api/jobs/:id. */
+export type JobResponse = {
+  id: string;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  /** When the next attempt is due, while waiting after a failure. */
+  retry_at: string | null;
+  summary_id: number | null;
+  summary: SummaryResponse | null;
+  error: ErrorBody | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export function toJobResponse(job: Job, summary: SummaryResponse | null = null): JobResponse {
+  return {
+    id: job.id,
+    status: job.status,
+    attempts: job.attempts,
+    max_attempts: job.maxAttempts,
+    retry_at: job.status === "queued" && job.attempts > 0 ? job.runAt : null,
+    summary_id: job.summaryId,
+    summary,
+    error: job.error,
+    created_at: job.createdAt,
+    updated_at: job.updatedAt,
+  };
+}
@@ -0,0 +1,155 @@
+import { randomUUID } from "node:crypto";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import Database from "better-sqlite3";
+import type { Job, JobStore, NewJob } from "./types";
+
+type JobRow = {
+  id: string;
+  user_id: string;
+  api_key_id: string | null;
+  idempotency_key: string | null;
+  status: Job["status"];
+  input: string;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  summary_id: number | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const SCHEMA = `
+  create table if not exists jobs (
+    id text primary key,
+    user_id text not null,
+    api_key_id text,
+    idempotency_key text,
+    status text not null default 'queued',
+    input text not null,
+    attempts integer not null default 0,
+    max_attempts integer not null,
+    run_at text not null,
+    locked_by text,
+    locked_until text,
+    summary_id integer,
+    error text,
+    created_at text not null,
+    updated_at text not null
+  );
+  create unique index if not exists jobs_idempotency_idx on jobs (user_id, idempotency_key);
+  create index if not exists jobs_due_idx on jobs (status, run_at);
+`;
+
+function toJob(row: JobRow): Job {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    apiKeyId: row.api_key_id,
+    idempotencyKey: row.idempotency_key,
+    status: row.status,
+    input: JSON.parse(row.input),
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAt: row.run_at,
+    summaryId: row.summary_id,
+    error: row.error ? JSON.parse(row.error) : null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Jobs in a local SQLite file, for development without the jobs table. Every
+ * process opening the same file (the app and `npm run worker`) shares the queue.
+ */
+export function createSqliteJobStore(path: string): JobStore {
+  mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.pragma("busy_timeout = 5000");
+  db.exec(SCHEMA);
+
+  const selectById = db.prepare<[string], JobRow>("select * from jobs where id = ?");
+  const selectByKey = db.prepare<[string, string], JobRow>(
+    "select * from jobs where user_id = ? and idempotency_key = ?"
+  );
+  const insert = db.prepare(
+    `insert into jobs (id, user_id, api_key_id, idempotency_key, input, max_attempts, run_at, created_at, updated_at)
+     values (@id, @user_id, @api_key_id, @idempotency_key, @input, @max_attempts, @now, @now, @now)`
+  );
+  const selectDue = db.prepare<[string, string], JobRow>(
+    `select * from jobs
+     where (status = 'queued' and run_at <= ?) or (status in ('fetching', 'summarizing') and locked_until <= ?)
+     order by run_at limit 1`
+  );
+  const lock = db.prepare(
+    `update jobs set status = 'fetching', attempts = attempts + 1, locked_by = ?, locked_until = ?, updated_at = ?
+     where id = ?`
+  );
+
+  const enqueue = db.transaction((job: NewJob): { job: Job; created: boolean } => {
+    if (job.idempotencyKey) {
+      const existing = selectByKey.get(job.userId, job.idempotencyKey);
+      if (existing) return { job: toJob(existing), created: false };
+    }
+    const id = randomUUID();
+    insert.run({
+      id,
+      user_id: job.userId,
+      api_key_id: job.apiKeyId,
+      idempotency_key: job.idempotencyKey,
+      input: JSON.stringify(job.input),
+      max_attempts: job.maxAttempts,
+      now: new Date().toISOString(),
+    });
+    return { job: toJob(selectById.get(id)!), created: true };
+  });
+
+  const claim = db.transaction((workerId: string, lockMs: number): Job | null => {
+    const now = new Date();
+    const row = selectDue.get(now.toISOString(), now.toISOString());
+    if (!row) return null;
+    lock.run(workerId, new Date(now.getTime() + lockMs).toISOString(), now.toISOString(), row.id);
+    return toJob(selectById.get(row.id)!);
+  });
+
+  return {
+    name: "sqlite",
+    async enqueue(job) {
+      return enqueue.immediate(job);
+    },
+    async get(id) {
+      const row = selectById.get(id);
+      return row ? toJob(row) : null;
+    },
+    async claim(workerId, lockMs) {
+      return claim.immediate(workerId, lockMs);
+    },
+    async update(id, patch) {
+      const sets: string[] = ["updated_at = @updated_at"];
+      const values: Record<string, unknown> = { id, updated_at: new Date().toISOString() };
+      if (patch.status !== undefined) {
+        sets.push("status = @status");
+        values.status = patch.status;
+        if (patch.status === "queued" || patch.status === "done" || patch.status === "failed") {
+          sets.push("locked_by = null", "locked_until = null");
+        }
+      }
+      if (patch.runAt !== undefined) {
+        sets.push("run_at = @run_at");
+        values.run_at = patch.runAt;
+      }
+      if (patch.summaryId !== undefined) {
+        sets.push("summary_id = @summary_id");
+        values.summary_id = patch.summaryId;
+      }
+      if (patch.error !== undefined) {
+        sets.push("error = @error");
+        values.error = patch.error ? JSON.stringify(patch.error) : null;
+      }
+      db.prepare(`update jobs set ${sets.join(", ")} where id = @id`).run(values);
+    },
+  };
+}
@@ -0,0 +1,117 @@
+import { AppError } from "@/lib/errors";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import type { Job, JobPatch, JobStore, NewJob } from "./types";
+
+type JobRow = {
+  id: string;
+  user_id: string;
+  api_key_id: string | null;
+  idempotency_key: string | null;
+  status: Job["status"];
+  input: Job["input"];
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  summary_id: number | null;
+  error: Job["error"];
+  created_at: string;
+  updated_at: string;
+};
+
+const JOB_COLUMNS =
+  "id, user_id, api_key_id, idempotency_key, status, input, attempts, max_attempts, run_at, summary_id, error, created_at, updated_at";
+
+const UNIQUE_VIOLATION = "23505";
+
+function toJob(row: JobRow): Job {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    apiKeyId: row.api_key_id,
+    idempotencyKey: row.idempotency_key,
+    status: row.status,
+    input: row.input,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAt: row.run_at,
+    summaryId: row.summary_id,
+    error: row.error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function failed(cause: unknown): AppError {
+  return new AppError("PERSISTENCE_FAILED", { message: "File de travaux indisponible", cause });
+}
+
+/** Jobs in the jobs table (migration 0010), shared by every instance and worker. */
+export function createSupabaseJobStore(): JobStore {
+  async function findByKey(userId: string, idempotencyKey: string): Promise<Job | null> {
+    const { data, error } = await getSupabaseAdmin()
+      .from("jobs")
+      .select(JOB_COLUMNS)
+      .eq("user_id", userId)
+      .eq("idempotency_key", idempotencyKey)
+      .maybeSingle<JobRow>();
+    if (error) throw failed(error);
+    return data ? toJob(data) : null;
+  }
+
+  async function enqueue(job: NewJob): Promise<{ job: Job; created: boolean }> {
+    if (job.idempotencyKey) {
+      const existing = await findByKey(job.userId, job.idempotencyKey);
+      if (existing) return { job: existing, created: false };
+    }
+    const { data, error } = await getSupabaseAdmin()
+      .from("jobs")
+      .insert({
+        user_id: job.userId,
+        api_key_id: job.apiKeyId,
+        idempotency_key: job.idempotencyKey,
+        input: job.input,
+        max_attempts: job.maxAttempts,
+      })
+      .select(JOB_COLUMNS)
+      .single<JobRow>();
+    // Two submissions with the same key raced: the other one won.
+    if (error?.code === UNIQUE_VIOLATION && job.idempotencyKey) {
+      const existing = await findByKey(job.userId, job.idempotencyKey);
+      if (existing) return { job: existing, created: false };
+    }
+    if (error || !data) throw failed(error);
+    return { job: toJob(data), created: true };
+  }
+
+  async function get(id: string): Promise<Job | null> {
+    const { data, error } = await getSupabaseAdmin().from("jobs").select(JOB_COLUMNS).eq("id", id).maybeSingle<JobRow>();
+    if (error) throw failed(error);
+    return data ? toJob(data) : null;
+  }
+
+  async function claim(workerId: string, lockMs: number): Promise<Job | null> {
+    const { data, error } = await getSupabaseAdmin()
+      .rpc("claim_job", { p_worker: workerId, p_lock_ms: lockMs })
+      .maybeSingle<JobRow>();
+    if (error) throw failed(error);
+    return data ? toJob(data) : null;
+  }
+
+  async function update(id: string, patch: JobPatch): Promise<void> {
+    const row: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (patch.status !== undefined) {
+      row.status = patch.status;
+      if (patch.status === "queued" || patch.status === "done" || patch.status === "failed") {
+        row.locked_by = null;
+        row.locked_until = null;
+      }
+    }
+    if (patch.runAt !== undefined) row.run_at = patch.runAt;
+    if (patch.summaryId !== undefined) row.summary_id = patch.summaryId;
+    if (patch.error !== undefined) row.error = patch.error;
+    const { error } = await getSupabaseAdmin().from("jobs").update(row).eq("id", id);
+    if (error) throw failed(error);
+  }
+
+  return { name: "supabase", enqueue, get, claim, update };
+}
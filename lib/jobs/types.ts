@@ -0,0 +1,61 @@
+import type { ErrorBody } from "@/lib/errors";
+import type { SummaryOptions } from "@/lib/summaryOptions";
+
+export type JobStatus = "queued" | "fetching" | "summarizing" | "done" | "failed";
+
+/** What to summarize, in a JSON-serializable form: uploaded files are base64-encoded. */
+export type JobSource =
+  | { type: "url"; url: string; render?: boolean }
+  | { type: "text"; text: string; format?: "text" | "markdown" }
+  | { type: "file"; data: string; name: string; contentType: string };
+
+export type JobInput = {
+  source: JobSource;
+  options: SummaryOptions;
+  force: boolean;
+  workspaceId: string | null;
+  /** Batch item the job summarizes; the worker reports its progress there. */
+  batch?: { id: string; position: number };
+};
+
+export type Job = {
+  id: string;
+  /** The summary is created as this user. */
+  userId: string;
+  /** API key the job was submitted with; its quota is charged for the tokens spent. */
+  apiKeyId: string | null;
+  idempotencyKey: string | null;
+  status: JobStatus;
+  input: JobInput;
+  /** Attempts started so far, including the current one. */
+  attempts: number;
+  maxAttempts: number;
+  /** Earliest time the job may run; later than now while backing off after a failure. */
+  runAt: string;
+  summaryId: number | null;
+  /** Error of the last failed attempt. */
+  error: ErrorBody | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type NewJob = Pick<Job, "userId" | "apiKeyId" | "idempotencyKey" | "input" | "maxAttempts">;
+
+/** Changes applied by the worker. Moving to queued, done or failed releases the job's lock. */
+export type JobPatch = Partial<Pick<Job, "status" | "runAt" | "summaryId" | "error">>;
+
+export interface JobStore {
+  readonly name: string;
+  /**
+   * Adds a queued job. When the user already submitted a job with the same
+   * idempotency key, that job is returned instead and `created` is false.
+   */
+  enqueue(job: NewJob): Promise<{ job: Job; created: boolean }>;
+  get(id: string): Promise<Job | null>;
+  /**
+   * Takes the oldest job that is due, or whose lock expired because its worker died,
+   * marks it as fetching and counts one more attempt. Null when there is none.
+   */
+  claim(workerId: string, lockMs: number): Promise<Job | null>;
+  update(id: string, patch: JobPatch): Promise<void>;
+}
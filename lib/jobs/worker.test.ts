@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { AppError } from "@/lib/errors";
+import type { Job, JobPatch, JobStore } from "./index";
+
+vi.mock("@/lib/auth", () => ({
+  sessionForUser: vi.fn((user: { id: string }) => ({ user, minted: Math.random() })),
+}));
+vi.mock("@/lib/batches", () => ({ updateBatchItem: vi.fn(async () => {}) }));
+vi.mock("@/lib/pipeline", () => ({ runSummarizePipeline: vi.fn() }));
+
+const { sessionForUser } = await import("@/lib/auth");
+const { updateBatchItem } = await import("@/lib/batches");
+const { runSummarizePipeline } = await import("@/lib/pipeline");
+const { processJob } = await import("./worker");
+
+function batchJob(attempts: number): Job {
+  return {
+    id: "job-1",
+    userId: "user-1",
+    apiKeyId: null,
+    idempotencyKey: null,
+    status: "fetching",
+    input: {
+      source: { type: "url", url: "https://news.test/article" },
+      options: {} as Job["input"]["options"],
+      force: false,
+      workspaceId: null,
+      batch: { id: "batch-1", position: 3 },
+    },
+    attempts,
+    maxAttempts: 2,
+    runAt: new Date().toISOString(),
+    summaryId: null,
+    error: null,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+function memoryStore(): JobStore & { patches: JobPatch[] } {
+  const patches: JobPatch[] = [];
+  return {
+    name: "memory",
+    patches,
+    enqueue: async () => {
+      throw new Error("unused");
+    },
+    get: async () => null,
+    claim: async () => null,
+    update: async (_id, patch) => {
+      patches.push(patch);
+    },
+  };
+}
+
+beforeEach(() => vi.clearAllMocks());
+
+describe("processJob for a batch item", () => {
+  it("reports the item as running, then done, each time with a session of its own", async () => {
+    vi.mocked(runSummarizePipeline).mockResolvedValue({ id: 7 } as Awaited<ReturnType<typeof runSummarizePipeline>>);
+    const store = memoryStore();
+
+    await processJob(batchJob(1), store);
+
+    expect(store.patches).toEqual([{ status: "done", summaryId: 7, error: null }]);
+    const updates = vi.mocked(updateBatchItem).mock.calls;
+    expect(updates.map(([, item, update]) => [item, update.status, update.summaryId])).toEqual([
+      [{ id: "batch-1", position: 3 }, "running", undefined],
+      [{ id: "batch-1", position: 3 }, "done", 7],
+    ]);
+    // One session for the pipeline and one per report, none reused across them.
+    const sessions = vi.mocked(sessionForUser).mock.results.map((result) => result.value);
+    expect(sessions).toHaveLength(3);
+    expect(new Set(sessions).size).toBe(3);
+    expect(updates[1][0]).toBe(sessions[2]);
+  });
+
+  it("puts the item back in the queue on a retryable error, and fails it after the last attempt", async () => {
+    vi.mocked(runSummarizePipeline).mockRejectedValue(new AppError("FETCH_TIMEOUT"));
+
+    await processJob(batchJob(1), memoryStore());
+    await processJob(batchJob(2), memoryStore());
+
+    const updates = vi.mocked(updateBatchItem).mock.calls.map(([, , update]) => update);
+    expect(updates.map((update) => [update.status, update.attempts, update.error?.code])).toEqual([
+      ["running", 1, undefined],
+      ["queued", 1, "FETCH_TIMEOUT"],
+      ["running", 2, undefined],
+      ["failed", 2, "FETCH_TIMEOUT"],
+    ]);
+  });
+});
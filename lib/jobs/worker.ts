@@ -0,0 +1,154 @@
+import { randomUUID } from "node:crypto";
+import { hostname } from "node:os";
+import { recordTokenUsage } from "@/lib/apiKeys";
+import { sessionForUser } from "@/lib/auth";
+import { updateBatchItem, type BatchItemStatus } from "@/lib/batches";
+import { toAppError } from "@/lib/errors";
+import { getLLMProvider, withUsageTracking } from "@/lib/llm";
+import { runSummarizePipeline } from "@/lib/pipeline";
+import { fromJobSource, getJobStore, jobBackoffMs, type Job, type JobPatch, type JobStatus, type JobStore } from "./index";
+
+const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+/** Pause after the store itself failed, e.g. when it is not configured. */
+const STORE_ERROR_PAUSE_MS = 30_000;
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timeout);
+      resolve();
+    });
+  });
+}
+
+const BATCH_ITEM_STATUS: Record<JobStatus, BatchItemStatus> = {
+  queued: "queued",
+  fetching: "running",
+  summarizing: "running",
+  done: "done",
+  failed: "failed",
+};
+
+/** Updates the job, and the batch item it summarizes if any, as the job's user. */
+async function settle(store: JobStore, job: Job, patch: JobPatch & { status: JobStatus }): Promise<void> {
+  await store.update(job.id, patch);
+  await reportBatchItem(job, patch);
+}
+
+async function reportBatchItem(job: Job, patch: JobPatch & { status: JobStatus }): Promise<void> {
+  if (!job.input.batch) return;
+  try {
+    await updateBatchItem(sessionForUser({ id: job.userId, email: null }), job.input.batch, {
+      status: BATCH_ITEM_STATUS[patch.status],
+      attempts: job.attempts,
+      summaryId: patch.summaryId,
+      error: patch.error,
+    });
+  } catch (e) {
+    console.warn(`[jobs] ${job.id}: mise à jour de l'élément de lot impossible`, e);
+  }
+}
+
+/**
+ * Runs one claimed job to completion. Retryable failures put it back in the
+ * queue with exponential backoff until it has used all its attempts.
+ */
+export async function processJob(job: Job, store: JobStore = getJobStore()): Promise<void> {
+  let tokens = 0;
+  let progress: Promise<void> = Promise.resolve();
+  await reportBatchItem(job, { status: "fetching" });
+  try {
+    const provider = withUsageTracking(getLLMProvider(), (usage) => {
+      tokens += usage.promptTokens + usage.completionTokens;
+    });
+    const summary = await runSummarizePipeline(fromJobSource(job.input.source), {
+      session: sessionForUser({ id: job.userId, email: null }),
+      workspaceId: job.input.workspaceId,
+      summaryOptions: job.input.options,
+      force: job.input.force,
+      provider,
+      emit: (event) => {
+        if (event.type !== "progress" || event.stage !== "summarizing" || event.chunks_done !== undefined) return;
+        progress = store.update(job.id, { status: "summarizing" }).catch((e) => {
+          console.warn(`[jobs] ${job.id}: mise à jour impossible`, e);
+        });
+      },
+    });
+    await progress;
+    await settle(store, job, { status: "done", summaryId: summary.id, error: null });
+  } catch (e) {
+    await progress;
+    const error = toAppError(e);
+    if (error.retryable && job.attempts < job.maxAttempts) {
+      const runAt = new Date(Date.now() + jobBackoffMs(job.attempts, error.retryAfterSeconds));
+      console.warn(`[jobs] ${job.id}: tentative ${job.attempts} échouée (${error.code}), reprise à ${runAt.toISOString()}`);
+      await settle(store, job, { status: "queued", runAt: runAt.toISOString(), error: error.toBody() });
+    } else {
+      await settle(store, job, { status: "failed", error: error.toBody() });
+    }
+  } finally {
+    if (job.apiKeyId && tokens > 0) {
+      await recordTokenUsage(job.apiKeyId, tokens).catch((e) => {
+        console.warn(`[jobs] ${job.id}: enregistrement de la consommation impossible`, e);
+      });
+    }
+  }
+}
+
+/** Claims and runs the next due job. False when the queue had nothing to do. */
+export async function processNextJob(store: JobStore = getJobStore()): Promise<boolean> {
+  const job = await store.claim(WORKER_ID, envInt("JOB_LOCK_SECONDS", 600) * 1000);
+  if (!job) return false;
+  if (job.attempts > job.maxAttempts) {
+    // Its last attempt was taken over after the worker running it stopped.
+    await settle(store, job, { status: "failed" });
+  } else {
+    await processJob(job, store);
+  }
+  return true;
+}
+
+export type WorkerOptions = {
+  /** Stops the loop once the jobs in progress are over. */
+  signal?: AbortSignal;
+  pollIntervalMs?: number;
+  /** Jobs run at the same time by this process. */
+  concurrency?: number;
+};
+
+/** Polls the queue until `signal` aborts, running up to JOB_CONCURRENCY jobs at once. */
+export async function runWorker({
+  signal,
+  pollIntervalMs = envInt("JOB_POLL_MS", 1000),
+  concurrency = envInt("JOB_CONCURRENCY", 2),
+}: WorkerOptions = {}): Promise<void> {
+  async function loop() {
+    while (!signal?.aborted) {
+      let worked = false;
+      try {
+        worked = await processNextJob();
+      } catch (e) {
+        console.error("[jobs] file de travaux indisponible", e);
+        await sleep(STORE_ERROR_PAUSE_MS, signal);
+        continue;
+      }
+      if (!worked) await sleep(pollIntervalMs, signal);
+    }
+  }
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, loop));
+}
+
+let inProcessWorker: Promise<void> | null = null;
+
+/** Starts the worker loop inside the Next.js server process, once. */
+export function startInProcessWorker(): void {
+  if (inProcessWorker) return;
+  console.info(`[jobs] worker ${WORKER_ID} démarré dans le serveur`);
+  inProcessWorker = runWorker();
+}
@@ -0,0 +1,176 @@
+import { createMistralEmbeddings, createMistralProvider, MISTRAL_EMBEDDING_DIMENSIONS } from "./mistral";
+import { createOpenAICompatibleEmbeddings, createOpenAICompatibleProvider } from "./openaiCompatible";
+import { createStubEmbeddings, createStubProvider } from "./stub";
+import { estimateTokens } from "@/lib/chunk";
+import type { CompletionRequest, EmbeddingProvider, LLMProvider, TokenUsage } from "./types";
+export { completeJson, validateJsonOutput, withJsonOutput, type JsonOutput } from "./structured";
+
+export type {
+  ChatMessage,
+  CompletionRequest,
+  CompletionResult,
+  EmbeddingProvider,
+  LLMProvider,
+  TokenUsage,
+} from "./types";
+
+const DEFAULT_PROVIDER = "mistral";
+
+function createProvider(name: string): LLMProvider {
+  switch (name) {
+    case "mistral":
+      return createMistralProvider();
+    case "openai":
+    case "openai-compatible": {
+      const baseUrl = process.env.OPENAI_COMPAT_BASE_URL;
+      const model = process.env.OPENAI_COMPAT_MODEL;
+      if (!baseUrl || !model) {
+        throw new Error("OPENAI_COMPAT_BASE_URL et OPENAI_COMPAT_MODEL sont requis");
+      }
+      return createOpenAICompatibleProvider({
+        name: "openai-compatible",
+        baseUrl,
+        model,
+        apiKey: process.env.OPENAI_COMPAT_API_KEY,
+        structuredOutputs: process.env.OPENAI_COMPAT_STRUCTURED_OUTPUTS !== "false",
+      });
+    }
+    case "stub":
+      return createStubProvider();
+    default:
+      throw new Error(`Fournisseur LLM inconnu: ${name}`);
+  }
+}
+
+/** Tries `primary` first and only calls `secondary` when it throws. */
+export function withFallback(primary: LLMProvider, secondary: LLMProvider): LLMProvider {
+  return {
+    name: `${primary.name}+${secondary.name}`,
+    async complete(request: CompletionRequest) {
+      try {
+        return await primary.complete(request);
+      } catch (primaryError) {
+        console.warn(`[llm] ${primary.name} a échoué, bascule vers ${secondary.name}`, primaryError);
+        return secondary.complete(request);
+      }
+    },
+    async *stream(request: CompletionRequest) {
+      let started = false;
+      try {
+        for await (const delta of primary.stream(request)) {
+          started = true;
+          yield delta;
+        }
+      } catch (primaryError) {
+        // Once deltas have been forwarded, switching providers would splice two answers.
+        if (started) throw primaryError;
+        console.warn(`[llm] ${primary.name} a échoué, bascule vers ${secondary.name}`, primaryError);
+        yield* secondary.stream(request);
+      }
+    },
+  };
+}
+
+function promptTokens(request: CompletionRequest): number {
+  return request.messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+}
+
+/**
+ * Reports the tokens spent by every call to `onUsage`. Provider-reported usage
+ * is used when available; streamed calls are estimated from the text.
+ */
+export function withUsageTracking(provider: LLMProvider, onUsage: (usage: TokenUsage) => void): LLMProvider {
+  return {
+    name: provider.name,
+    async complete(request: CompletionRequest) {
+      const result = await provider.complete(request);
+      onUsage(
+        result.usage ?? { promptTokens: promptTokens(request), completionTokens: estimateTokens(result.content) }
+      );
+      return result;
+    },
+    async *stream(request: CompletionRequest) {
+      let content = "";
+      try {
+        for await (const delta of provider.stream(request)) {
+          content += delta;
+          yield delta;
+        }
+      } finally {
+        onUsage({ promptTokens: promptTokens(request), completionTokens: estimateTokens(content) });
+      }
+    },
+  };
+}
+
+/** Refuses every call once `signal` aborts, e.g. when the client of a stream went away. */
+export function withAbortSignal(provider: LLMProvider, signal: AbortSignal): LLMProvider {
+  return {
+    name: provider.name,
+    complete(request: CompletionRequest) {
+      signal.throwIfAborted();
+      return provider.complete(request);
+    },
+    async *stream(request: CompletionRequest) {
+      signal.throwIfAborted();
+      for await (const delta of provider.stream(request)) {
+        signal.throwIfAborted();
+        yield delta;
+      }
+    },
+  };
+}
+
+/**
+ * Resolves the provider from LLM_PROVIDER (mistral | openai-compatible | stub),
+ * wrapped with LLM_FALLBACK_PROVIDER when one is configured.
+ */
+export function getLLMProvider(): LLMProvider {
+  const primaryName = process.env.LLM_PROVIDER?.trim() || DEFAULT_PROVIDER;
+  const fallbackName = process.env.LLM_FALLBACK_PROVIDER?.trim();
+  const primary = createProvider(primaryName);
+  if (!fallbackName || fallbackName === primaryName) return primary;
+  return withFallback(primary, createProvider(fallbackName));
+}
+
+/** Must match the size of the `embedding` column, see supabase/migrations. */
+const DEFAULT_EMBEDDING_DIMENSIONS = MISTRAL_EMBEDDING_DIMENSIONS;
+
+function embeddingDimensions(): number {
+  const n = Number.parseInt(process.env.EMBEDDING_DIMENSIONS ?? "", 10);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_EMBEDDING_DIMENSIONS;
+}
+
+/**
+ * Resolves the embedding provider from EMBEDDING_PROVIDER (mistral |
+ * openai-compatible | stub). Null when unset: semantic search is then disabled.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  const name = process.env.EMBEDDING_PROVIDER?.trim();
+  switch (name) {
+    case undefined:
+    case "":
+      return null;
+    case "mistral":
+      return createMistralEmbeddings();
+    case "openai":
+    case "openai-compatible": {
+      const baseUrl = process.env.OPENAI_COMPAT_BASE_URL;
+      const model = process.env.OPENAI_COMPAT_EMBEDDING_MODEL;
+      if (!baseUrl || !model) {
+        throw new Error("OPENAI_COMPAT_BASE_URL et OPENAI_COMPAT_EMBEDDING_MODEL sont requis");
+      }
+      return createOpenAICompatibleEmbeddings({
+        name: "openai-compatible",
+        baseUrl,
+        model,
+        apiKey: process.env.OPENAI_COMPAT_API_KEY,
+        dimensions: embeddingDimensions(),
+      });
+    }
+    case "stub":
+      return createStubEmbeddings(embeddingDimensions());
+    default:
+      throw new Error(`Fournisseur d'embeddings inconnu: ${name}`);
+  }
+}
@@ -0,0 +1,56 @@
+import { AppError } from "@/lib/errors";
+import { createOpenAICompatibleEmbeddings, createOpenAICompatibleProvider } from "./openaiCompatible";
+import type { CompletionRequest, EmbeddingProvider, LLMProvider } from "./types";
+
+const MISTRAL_API_URL = "https://api.mistral.ai/v1";
+const DEFAULT_MISTRAL_MODEL = "mistral-small-2506";
+const DEFAULT_MISTRAL_EMBEDDING_MODEL = "mistral-embed";
+/** Size of mistral-embed vectors. */
+export const MISTRAL_EMBEDDING_DIMENSIONS = 1024;
+
+function missingKey(): AppError {
+  console.error("[llm] MISTRAL_API_KEY manquant");
+  return new AppError("LLM_UNAVAILABLE", { retryable: false, details: { provider: "mistral" } });
+}
+
+export function createMistralProvider(): LLMProvider {
+  const apiKey = process.env.MISTRAL_API_KEY;
+  const provider = createOpenAICompatibleProvider({
+    name: "mistral",
+    baseUrl: MISTRAL_API_URL,
+    model: process.env.MISTRAL_MODEL || DEFAULT_MISTRAL_MODEL,
+    apiKey,
+    structuredOutputs: true,
+  });
+  return {
+    name: provider.name,
+    // Checked per call so that a missing key can still fall back to another provider.
+    async complete(request: CompletionRequest) {
+      if (!apiKey) throw missingKey();
+      return provider.complete(request);
+    },
+    async *stream(request: CompletionRequest) {
+      if (!apiKey) throw missingKey();
+      yield* provider.stream(request);
+    },
+  };
+}
+
+export function createMistralEmbeddings(): EmbeddingProvider {
+  const apiKey = process.env.MISTRAL_API_KEY;
+  const provider = createOpenAICompatibleEmbeddings({
+    name: "mistral",
+    baseUrl: MISTRAL_API_URL,
+    model: process.env.MISTRAL_EMBEDDING_MODEL || DEFAULT_MISTRAL_EMBEDDING_MODEL,
+    apiKey,
+    dimensions: MISTRAL_EMBEDDING_DIMENSIONS,
+  });
+  return {
+    name: provider.name,
+    dimensions: provider.dimensions,
+    async embed(texts: string[]) {
+      if (!apiKey) throw missingKey();
+      return provider.embed(texts);
+    },
+  };
+}
@@ -0,0 +1,187 @@
+import { AppError } from "@/lib/errors";
+import { readSseEvents } from "@/lib/sse";
+import type { CompletionRequest, CompletionResult, EmbeddingProvider, LLMProvider } from "./types";
+
+export type OpenAICompatibleConfig = {
+  name: string;
+  /** Base URL up to and including the version segment, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  /** Sends CompletionRequest.schema as a `json_schema` response format; otherwise only JSON mode is asked for. */
+  structuredOutputs?: boolean;
+};
+
+type ChatCompletionResponse = {
+  model?: string;
+  choices?: { message?: { content?: string | null } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+};
+
+type ChatCompletionChunk = {
+  choices?: { delta?: { content?: string | null } }[];
+};
+
+type EmbeddingResponse = {
+  data?: { index?: number; embedding?: number[] }[];
+};
+
+function endpointFor(config: OpenAICompatibleConfig, path: string): string {
+  return `${config.baseUrl.replace(/\/+$/, "")}/${path}`;
+}
+
+function authHeaders(config: OpenAICompatibleConfig): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+  return headers;
+}
+
+async function send(
+  config: OpenAICompatibleConfig,
+  endpoint: string,
+  init: RequestInit,
+  signal: AbortSignal
+): Promise<Response> {
+  let res: Response;
+  try {
+    res = await fetch(endpoint, { ...init, signal });
+  } catch (e) {
+    if (signal.aborted) throw new AppError("LLM_TIMEOUT", { details: { provider: config.name }, cause: e });
+    throw new AppError("LLM_UNAVAILABLE", { details: { provider: config.name }, cause: e });
+  }
+  if (!res.ok) {
+    const errText = await res.text().catch(() => "");
+    console.warn(`[llm] ${config.name}: ${res.status} ${errText}`);
+    const details = { provider: config.name, upstream_status: res.status };
+    if (res.status === 429) {
+      const retryAfter = Number.parseInt(res.headers.get("retry-after") ?? "", 10);
+      throw new AppError("LLM_RATE_LIMITED", {
+        details,
+        retryAfterSeconds: Number.isFinite(retryAfter) ? retryAfter : undefined,
+      });
+    }
+    // Other client errors (bad key, unknown model) will not go away by retrying.
+    throw new AppError("LLM_UNAVAILABLE", { details, retryable: res.status >= 500 || res.status === 408 });
+  }
+  return res;
+}
+
+function timedOut(config: OpenAICompatibleConfig, signal: AbortSignal, e: unknown): unknown {
+  return signal.aborted && !(e instanceof AppError)
+    ? new AppError("LLM_TIMEOUT", { details: { provider: config.name }, cause: e })
+    : e;
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const endpoint = endpointFor(config, "chat/completions");
+  const timeoutMs = config.timeoutMs ?? 60000;
+
+  function responseFormat(request: CompletionRequest): Record<string, unknown> {
+    if (request.schema && config.structuredOutputs) {
+      return {
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: request.schema.name, schema: request.schema.schema, strict: true },
+        },
+      };
+    }
+    return request.json || request.schema ? { response_format: { type: "json_object" } } : {};
+  }
+
+  function buildRequest(request: CompletionRequest, stream: boolean): RequestInit {
+    return {
+      method: "POST",
+      headers: authHeaders(config),
+      body: JSON.stringify({
+        model: config.model,
+        temperature: request.temperature ?? 0.2,
+        max_tokens: request.maxTokens ?? 512,
+        messages: request.messages,
+        ...responseFormat(request),
+        ...(stream ? { stream: true } : {}),
+      }),
+    };
+  }
+
+  async function complete(request: CompletionRequest): Promise<CompletionResult> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const res = await send(config, endpoint, buildRequest(request, false), controller.signal);
+      const data = (await res.json().catch(() => null)) as ChatCompletionResponse | null;
+      const content = data?.choices?.[0]?.message?.content;
+      if (!data || !content) throw new AppError("LLM_BAD_OUTPUT", { details: { provider: config.name } });
+      const usage = data.usage
+        ? { promptTokens: data.usage.prompt_tokens ?? 0, completionTokens: data.usage.completion_tokens ?? 0 }
+        : undefined;
+      return { content, provider: config.name, model: data.model ?? config.model, usage };
+    } catch (e) {
+      throw timedOut(config, controller.signal, e);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  async function* stream(request: CompletionRequest): AsyncGenerator<string> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const res = await send(config, endpoint, buildRequest(request, true), controller.signal);
+      if (!res.body) throw new AppError("LLM_BAD_OUTPUT", { details: { provider: config.name } });
+      for await (const message of readSseEvents(res.body)) {
+        if (message.data === "[DONE]") break;
+        let chunk: ChatCompletionChunk;
+        try {
+          chunk = JSON.parse(message.data) as ChatCompletionChunk;
+        } catch (e) {
+          throw new AppError("LLM_BAD_OUTPUT", { details: { provider: config.name }, cause: e });
+        }
+        const delta = chunk?.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    } catch (e) {
+      throw timedOut(config, controller.signal, e);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  return { name: config.name, complete, stream };
+}
+
+/** `/embeddings` endpoint of the same kind of server. */
+export function createOpenAICompatibleEmbeddings(config: OpenAICompatibleConfig & { dimensions: number }): EmbeddingProvider {
+  const endpoint = endpointFor(config, "embeddings");
+  const timeoutMs = config.timeoutMs ?? 30000;
+
+  async function embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const res = await send(
+        config,
+        endpoint,
+        { method: "POST", headers: authHeaders(config), body: JSON.stringify({ model: config.model, input: texts }) },
+        controller.signal
+      );
+      const data = (await res.json().catch(() => null)) as EmbeddingResponse | null;
+      const vectors = [...(data?.data ?? [])]
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map((item) => item.embedding);
+      if (vectors.length !== texts.length || vectors.some((v) => v?.length !== config.dimensions)) {
+        throw new AppError("LLM_BAD_OUTPUT", {
+          details: { provider: config.name, expected_dimensions: config.dimensions },
+        });
+      }
+      return vectors as number[][];
+    } catch (e) {
+      throw timedOut(config, controller.signal, e);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  return { name: config.name, dimensions: config.dimensions, embed };
+}
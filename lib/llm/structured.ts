@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { AppError } from "@/lib/errors";
+import type { CompletionRequest, LLMProvider } from "./types";
+
+/** Object the model must answer with, checked at runtime. */
+export type JsonOutput<T> = {
+  /** Sent to providers with structured outputs, e.g. "summary". */
+  name: string;
+  schema: z.ZodType<T>;
+};
+
+/** Validation errors quoted back to the model, and in LLM_BAD_OUTPUT details. */
+const MAX_ERROR_CHARS = 1000;
+
+/** Extra attempts after an invalid answer; LLM_REPAIR_ATTEMPTS=0 disables them. */
+function repairAttempts(): number {
+  const value = Number.parseInt(process.env.LLM_REPAIR_ATTEMPTS ?? "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : 1;
+}
+
+/** Asks for JSON following `output`: structured outputs where the provider has them, JSON mode otherwise. */
+export function withJsonOutput<T>(request: CompletionRequest, output: JsonOutput<T>): CompletionRequest {
+  const schema = z.toJSONSchema(output.schema) as Record<string, unknown>;
+  // Some providers reject the dialect keyword.
+  delete schema.$schema;
+  return { ...request, json: true, schema: { name: output.name, schema } };
+}
+
+export type JsonValidation<T> = { ok: true; value: T } | { ok: false; error: string };
+
+/** Parses an answer that must be exactly one JSON object, possibly in a Markdown code block. */
+export function validateJsonOutput<T>(content: string, output: JsonOutput<T>): JsonValidation<T> {
+  const trimmed = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  let data: unknown;
+  try {
+    data = JSON.parse(trimmed);
+  } catch {
+    return { ok: false, error: "La réponse n'est pas un objet JSON valide." };
+  }
+  const result = output.schema.safeParse(data);
+  if (result.success) return { ok: true, value: result.data };
+  return { ok: false, error: z.prettifyError(result.error).slice(0, MAX_ERROR_CHARS) };
+}
+
+/**
+ * Completes `request` and validates the answer against `output`. An invalid
+ * answer is sent back to the model with the validation errors, up to
+ * LLM_REPAIR_ATTEMPTS times, before failing with LLM_BAD_OUTPUT. Pass
+ * `content` when the first answer was already obtained, e.g. streamed.
+ */
+export async function completeJson<T>(
+  provider: LLMProvider,
+  request: CompletionRequest,
+  output: JsonOutput<T>,
+  content?: string
+): Promise<T> {
+  const maxRepairs = repairAttempts();
+  let messages = request.messages;
+  let answer = content ?? (await provider.complete(withJsonOutput(request, output))).content;
+  for (let repair = 0; ; repair++) {
+    const result = validateJsonOutput(answer, output);
+    if (result.ok) return result.value;
+    if (repair >= maxRepairs) {
+      throw new AppError("LLM_BAD_OUTPUT", {
+        details: { provider: provider.name, reason: "invalid_output", output: output.name, errors: result.error },
+      });
+    }
+    console.warn(`[llm] ${provider.name}: réponse ${output.name} invalide, nouvelle demande`, result.error);
+    messages = [
+      ...messages,
+      { role: "assistant", content: answer },
+      {
+        role: "user",
+        content:
+          `Ta réponse ne respecte pas la structure demandée :\n${result.error}\n` +
+          "Réponds à nouveau avec uniquement l'objet JSON corrigé.",
+      },
+    ];
+    answer = (await provider.complete(withJsonOutput({ ...request, messages }, output))).content;
+  }
+}
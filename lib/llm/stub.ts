@@ -0,0 +1,153 @@
+import type { CompletionRequest, CompletionResult, EmbeddingProvider, LLMProvider } from "./types";
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length <= maxChars ? text : `${text.slice(0, maxChars - 1).trimEnd()}…`;
+}
+
+/** Sentences of each paragraph, with the number of the paragraph when it starts with a `[§n]` marker. */
+function numberedSentences(text: string): { text: string; paragraph: number | null }[] {
+  return text.split(/\n{2,}/).flatMap((block) => {
+    const marker = block.trim().match(/^\[§(\d+)\]\s*/);
+    const paragraph = marker ? Number(marker[1]) : null;
+    return splitSentences(block.trim().slice(marker?.[0].length ?? 0)).map((sentence) => ({ text: sentence, paragraph }));
+  });
+}
+
+/** Content of the last `<tag>…</tag>` block of a prompt, where prompts put the document. */
+function lastTaggedBlock(prompt: string): string | null {
+  const blocks = [...prompt.matchAll(/<([a-z_]+)>\n([\s\S]*?)\n<\/\1>/g)];
+  return blocks.at(-1)?.[2] ?? null;
+}
+
+/** Content of the `<tag>…</tag>` block of a prompt. */
+function taggedBlock(prompt: string, tag: string): string | null {
+  return prompt.match(new RegExp(`<${tag}>\n([\\s\\S]*?)\n</${tag}>`))?.[1] ?? null;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\d]{4,}/gu) ?? [];
+}
+
+/** Answer to the question of a prompt: the sentence of the document sharing the most words with it. */
+function answerFromDocument(prompt: string): Record<string, unknown> {
+  const questionWords = new Set(words(taggedBlock(prompt, "question") ?? ""));
+  let best: { text: string; paragraph: number | null; shared: number } | null = null;
+  for (const sentence of numberedSentences(taggedBlock(prompt, "document") ?? "")) {
+    const shared = words(sentence.text).filter((word) => questionWords.has(word)).length;
+    if (shared > (best?.shared ?? 0)) best = { ...sentence, shared };
+  }
+  if (!best) return { answer: "Le texte ne le précise pas.", citations: [] };
+  return {
+    answer: truncate(best.text, 300),
+    citations: best.paragraph === null ? [] : [{ paragraph: best.paragraph, quote: truncate(best.text, 200) }],
+  };
+}
+
+/**
+ * Comparison of the `[Sn]` sources of a prompt: points written identically by
+ * several sources are shared, the others belong to their source.
+ */
+function compareSources(block: string): Record<string, unknown> {
+  const sources = block.split(/\n{2,}/).map((entry) =>
+    entry
+      .split("\n")
+      .filter((line) => line.startsWith("- "))
+      .map((line) => line.slice(2).trim())
+  );
+  const counts = new Map<string, number[]>();
+  sources.forEach((points, i) => points.forEach((point) => counts.set(point, [...(counts.get(point) ?? []), i + 1])));
+  const shared = [...counts].filter(([, ids]) => ids.length > 1).map(([point, ids]) => ({ point, sources: ids }));
+  const unique = sources.map((points, i) => ({
+    source: i + 1,
+    points: points.filter((point) => counts.get(point)!.length === 1).slice(0, 2),
+  }));
+  return { title: `Comparaison de ${sources.length} sources`, shared, disagreements: [], unique };
+}
+
+/**
+ * Deterministic provider that never touches the network: the title is the first
+ * sentence of the document in the last user message and the key points are the
+ * following ones, each citing itself; comparisons come from compareSources and
+ * answers from answerFromDocument.
+ * Used for local development and CI.
+ */
+export function createStubProvider(): LLMProvider {
+  async function complete(request: CompletionRequest): Promise<CompletionResult> {
+    const lastUser = [...request.messages].reverse().find((m) => m.role === "user");
+    const prompt = lastUser?.content ?? "";
+    if (request.schema?.name === "comparison") {
+      const comparison = compareSources(lastTaggedBlock(prompt) ?? prompt);
+      return { content: JSON.stringify(comparison), provider: "stub", model: "stub" };
+    }
+    if (request.schema?.name === "answer") {
+      return { content: JSON.stringify(answerFromDocument(prompt)), provider: "stub", model: "stub" };
+    }
+    const sentences = numberedSentences(lastTaggedBlock(prompt) ?? prompt);
+    const title = truncate(sentences[0]?.text ?? "Résumé", 80);
+    // A one-sentence document still gets a point, as the summary schema requires.
+    const points = sentences.length > 1 ? sentences.slice(1, 4) : sentences.slice(0, 1);
+    const summary_points = points.length ? points.map((s) => truncate(s.text, 200)) : [title];
+    const sections = summary_points.map((point, i) => ({ heading: `Partie ${i + 1}`, points: [point] }));
+    const citations = points.flatMap((s, i) =>
+      s.paragraph === null ? [] : [{ point: i + 1, paragraph: s.paragraph, quote: truncate(s.text, 200) }]
+    );
+    return {
+      content: JSON.stringify({ title, summary_points, sections, citations }),
+      provider: "stub",
+      model: "stub",
+    };
+  }
+
+  async function* stream(request: CompletionRequest): AsyncGenerator<string> {
+    const { content } = await complete(request);
+    for (let i = 0; i < content.length; i += 16) {
+      yield content.slice(i, i + 16);
+    }
+  }
+
+  return { name: "stub", complete, stream };
+}
+
+function hashWord(word: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < word.length; i++) {
+    hash = Math.imul(hash ^ word.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic bag-of-words embeddings: each word adds ±1 to a hashed
+ * dimension, so texts sharing words end up close. Used for development and CI.
+ */
+export function createStubEmbeddings(dimensions: number): EmbeddingProvider {
+  function embedOne(text: string): number[] {
+    const vector = new Array<number>(dimensions).fill(0);
+    const words = text
+      .toLowerCase()
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .match(/[a-z0-9]{3,}/g);
+    for (const word of words ?? []) {
+      const hash = hashWord(word);
+      vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+    const norm = Math.hypot(...vector) || 1;
+    return vector.map((v) => v / norm);
+  }
+
+  return {
+    name: "stub",
+    dimensions,
+    async embed(texts: string[]) {
+      return texts.map(embedOne);
+    },
+  };
+}
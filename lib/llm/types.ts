@@ -0,0 +1,44 @@
+export type ChatRole = "system" | "user" | "assistant";
+
+export type ChatMessage = {
+  role: ChatRole;
+  content: string;
+};
+
+export type CompletionRequest = {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask the provider for a JSON object when it supports it. */
+  json?: boolean;
+  /** JSON Schema the object must follow, for providers with structured outputs. */
+  schema?: { name: string; schema: Record<string, unknown> };
+};
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+export type CompletionResult = {
+  content: string;
+  provider: string;
+  model: string;
+  /** As reported by the provider, when it does. */
+  usage?: TokenUsage;
+};
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  /** Yields content deltas as the model produces them. */
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  /** Length of every vector; must match the `embedding` column. */
+  readonly dimensions: number;
+  /** One vector per input, in the same order. */
+  embed(texts: string[]): Promise<number[][]>;
+}
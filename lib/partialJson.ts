@@ -0,0 +1,66 @@
+export type PartialSummary = {
+  title?: string;
+  points: string[];
+};
+
+function findStringEnd(input: string, start: number): number {
+  for (let i = start + 1; i < input.length; i++) {
+    const ch = input[i];
+    if (ch === "\\") i++;
+    else if (ch === '"') return i;
+  }
+  return -1;
+}
+
+/**
+ * Reads `title` and the `summary_points` entries out of a JSON object that is
+ * still being generated. Only strings whose closing quote has arrived are returned.
+ */
+export function parsePartialSummary(buffer: string): PartialSummary {
+  const result: PartialSummary = { points: [] };
+  const start = buffer.indexOf("{");
+  if (start === -1) return result;
+
+  const stack: ("object" | "array")[] = [];
+  // keys[d] is the key whose value opened container d + 1
+  const keys: (string | null)[] = [];
+  let expectKey = false;
+
+  for (let i = start; i < buffer.length; i++) {
+    const ch = buffer[i];
+    if (ch === '"') {
+      const end = findStringEnd(buffer, i);
+      if (end === -1) break;
+      let value: string;
+      try {
+        value = JSON.parse(buffer.slice(i, end + 1));
+      } catch {
+        break;
+      }
+      const top = stack[stack.length - 1];
+      if (top === "object" && expectKey) {
+        keys[stack.length - 1] = value;
+        expectKey = false;
+      } else if (stack.length === 1 && keys[0] === "title") {
+        result.title = value;
+      } else if (stack.length === 2 && top === "array" && keys[0] === "summary_points") {
+        result.points.push(value);
+      }
+      i = end;
+      continue;
+    }
+    if (ch === "{") {
+      stack.push("object");
+      keys[stack.length - 1] = null;
+      expectKey = true;
+    } else if (ch === "[") {
+      stack.push("array");
+    } else if (ch === "}" || ch === "]") {
+      stack.pop();
+      if (stack.length === 0) break;
+    } else if (ch === "," && stack[stack.length - 1] === "object") {
+      expectKey = true;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,162 @@
+import type { Session } from "@/lib/auth";
+import { findCachedSummary, hashContent } from "@/lib/cache";
+import { AppError } from "@/lib/errors";
+import { ingestBytes, ingestText, type IngestedDocument } from "@/lib/ingest";
+import type { LLMProvider } from "@/lib/llm";
+import { scrapeDocument } from "@/lib/scrape";
+import { embedSummary } from "@/lib/search";
+import { toSummaryResponse, type SourceType, type SummaryResponse } from "@/lib/summaries";
+import { summarizeDocument } from "@/lib/summarize";
+import { getSummaryStore } from "@/lib/summaryStore";
+import { DEFAULT_SUMMARY_OPTIONS, summaryOptionsKey, type SummaryOptions } from "@/lib/summaryOptions";
+import { normalizeUrl } from "@/lib/url";
+import { notifyWebhooks } from "@/lib/webhooks";
+
+export type { SummaryResponse } from "@/lib/summaries";
+
+/** Extracted text kept with each summary for full-text search. */
+const MAX_STORED_SOURCE_CHARS = 200_000;
+
+export type SummarizeSource =
+  | { type: "url"; url: string; render?: boolean }
+  | { type: "text"; text: string; format?: "text" | "markdown" }
+  | { type: "file"; data: Uint8Array; name: string; contentType: string };
+
+export type PipelineStage = "fetched" | "extracted" | "summarizing";
+
+export type PipelineEvent =
+  | { type: "progress"; stage: PipelineStage; chunks_done?: number; chunks_total?: number }
+  | { type: "title"; title: string }
+  | { type: "bullet"; index: number; text: string };
+
+export type PipelineOptions = {
+  /** Owner of the summary; every query runs as them, so row level security applies. */
+  session: Session;
+  /** Shares the summary with this workspace instead of keeping it private. */
+  workspaceId?: string | null;
+  summaryOptions?: SummaryOptions;
+  /** Skip the cache and always produce a new summary. */
+  force?: boolean;
+  emit?: (event: PipelineEvent) => void;
+  /** Defaults to getLLMProvider(); lets callers meter or replace the model. */
+  provider?: LLMProvider;
+  /** Content of `source` already fetched and extracted, e.g. by a watch check. */
+  document?: IngestedDocument;
+};
+
+function canonicalFor(url: string, canonicalLink: string | undefined): string {
+  try {
+    return normalizeUrl(canonicalLink ?? url);
+  } catch {
+    return normalizeUrl(url);
+  }
+}
+
+async function ingestSource(source: SummarizeSource): Promise<IngestedDocument> {
+  switch (source.type) {
+    case "url":
+      return scrapeDocument(source.url, { render: source.render });
+    case "text":
+      return ingestText(source.text, source.format);
+    case "file":
+      return ingestBytes(source.data, source.contentType, { name: source.name });
+  }
+}
+
+/**
+ * Reads `source` (a URL, pasted text or an uploaded file), summarizes it and
+ * stores the result. A previous summary of the same canonical URL, or of the
+ * same text for sources without a URL, is returned as is when the extracted
+ * text has not changed. When `emit` is given, progress and the summary itself
+ * are reported while the model is generating. New summaries are announced to
+ * the owner's `summary.completed` webhooks.
+ */
+export async function runSummarizePipeline(
+  source: SummarizeSource,
+  {
+    session,
+    workspaceId = null,
+    summaryOptions = DEFAULT_SUMMARY_OPTIONS,
+    force = false,
+    emit,
+    provider,
+    document,
+  }: PipelineOptions
+): Promise<SummaryResponse> {
+  const { text, metadata, format, strategy, pages } = document ?? (await ingestSource(source));
+  if (source.type === "url") emit?.({ type: "progress", stage: "fetched" });
+  if (!text) {
+    throw new AppError("CONTENT_EMPTY", { details: { source_type: source.type } });
+  }
+  emit?.({ type: "progress", stage: "extracted" });
+
+  const url = source.type === "url" ? source.url : null;
+  const canonicalUrl = url ? canonicalFor(url, metadata.canonicalUrl) : null;
+  const contentHash = hashContent(text);
+  const optionsKey = summaryOptionsKey(summaryOptions);
+  if (!force) {
+    const cached = await findCachedSummary(
+      session,
+      { userId: session.user.id, workspaceId },
+      canonicalUrl,
+      contentHash,
+      optionsKey
+    );
+    if (cached) {
+      const response = toSummaryResponse(cached);
+      emit?.({ type: "title", title: response.title });
+      response.bullets.forEach((bullet, index) => emit?.({ type: "bullet", index, text: bullet }));
+      // The page was fetched again; report how this time.
+      return {
+        ...response,
+        metadata,
+        ...(strategy ? { fetch_strategy: strategy } : {}),
+        ...(pages ? { pages } : {}),
+        cached: true,
+      };
+    }
+  }
+
+  emit?.({ type: "progress", stage: "summarizing" });
+  const { title, summary_points, sections, coverage, citations, unsupported_points } = await summarizeDocument(text, {
+    summaryOptions,
+    provider,
+    handlers: emit && {
+      onTitle: (title) => emit({ type: "title", title }),
+      onPoint: (index, point) => emit({ type: "bullet", index, text: point }),
+    },
+    onChunkSummarized: (done, total) =>
+      emit?.({ type: "progress", stage: "summarizing", chunks_done: done, chunks_total: total }),
+  });
+
+  const sourceType: SourceType = source.type;
+  const store = getSummaryStore();
+  const inserted = await store.insert(session, {
+    user_id: session.user.id,
+    workspace_id: workspaceId,
+    original_url: url,
+    source_type: sourceType,
+    source_name: source.type === "file" ? source.name : null,
+    title,
+    summary: JSON.stringify({
+      summary_points,
+      sections,
+      coverage,
+      citations,
+      unsupported_points,
+      options: summaryOptions,
+      format,
+      fetch_strategy: strategy,
+      pages,
+    }),
+    canonical_url: canonicalUrl,
+    content_hash: contentHash,
+    options_key: optionsKey,
+    source_text: text.slice(0, MAX_STORED_SOURCE_CHARS),
+    embedding: store.semanticSearch ? await embedSummary(title, summary_points) : null,
+  });
+
+  const response = { ...toSummaryResponse(inserted), metadata, cached: false };
+  await notifyWebhooks(session.user.id, "summary.completed", { summary: response });
+  return response;
+}
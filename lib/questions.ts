@@ -0,0 +1,38 @@
+import type { Session } from "@/lib/auth";
+import { AppError } from "@/lib/errors";
+import type { LLMProvider } from "@/lib/llm";
+import { answerQuestion } from "@/lib/summarize";
+import { getSummaryStore, type SummaryQuestion } from "@/lib/summaryStore";
+
+export const MAX_QUESTION_CHARS = 1000;
+/** Earlier turns sent with a question; older ones are left out of the prompt. */
+const HISTORY_TURNS = 5;
+
+/** The caller's questions about a summary they can read, oldest first. */
+export async function listQuestions(session: Session, summaryId: number): Promise<SummaryQuestion[]> {
+  const store = getSummaryStore();
+  if (!(await store.get(session, summaryId))) throw new AppError("NOT_FOUND");
+  return store.listQuestions(session, summaryId);
+}
+
+/**
+ * Answers a question about the page of a summary from the text extracted when
+ * it was summarized, with the caller's earlier questions about it as context,
+ * and saves the turn.
+ */
+export async function askQuestion(
+  session: Session,
+  summaryId: number,
+  question: string,
+  provider?: LLMProvider
+): Promise<SummaryQuestion> {
+  const store = getSummaryStore();
+  if (!(await store.get(session, summaryId))) throw new AppError("NOT_FOUND");
+  const text = await store.getSourceText(session, summaryId);
+  if (!text?.trim()) {
+    throw new AppError("CONTENT_EMPTY", { message: "Le texte de cette page n'a pas été conservé" });
+  }
+  const history = (await store.listQuestions(session, summaryId)).slice(-HISTORY_TURNS);
+  const { answer, citations } = await answerQuestion(question, text, history, provider);
+  return store.addQuestion(session, { summary_id: summaryId, question, answer, citations });
+}
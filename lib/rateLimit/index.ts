@@ -0,0 +1,63 @@
+import { createMemoryRateLimitStore } from "./memory";
+import { createSupabaseRateLimitStore } from "./supabase";
+import type { RateLimitStore } from "./types";
+
+export type { RateLimitHit, RateLimitStore } from "./types";
+
+export type RateLimitResult = { ok: true; remaining: number } | { ok: false; retryAfterSeconds: number };
+
+let store: RateLimitStore | null = null;
+
+function createStore(name: string): RateLimitStore {
+  switch (name) {
+    case "memory":
+      return createMemoryRateLimitStore();
+    case "supabase":
+      return createSupabaseRateLimitStore();
+    default:
+      throw new Error(`Stockage de limitation inconnu: ${name}`);
+  }
+}
+
+/** The store named by RATE_LIMIT_STORE (memory | supabase), created once per process. */
+export function getRateLimitStore(): RateLimitStore {
+  store ??= createStore(process.env.RATE_LIMIT_STORE?.trim() || "memory");
+  return store;
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getRateLimitWindowMs(): number {
+  return envInt("RATE_LIMIT_WINDOW_SECONDS", 60) * 1000;
+}
+
+/** Requests allowed per window for a signed-in user of the web page. */
+export function getUserRateLimit(): number {
+  return envInt("RATE_LIMIT_USER_MAX", 10);
+}
+
+/** Requests allowed per window for callers without a session or API key, counted by IP. */
+export function getIpRateLimit(): number {
+  return envInt("RATE_LIMIT_IP_MAX", 10);
+}
+
+/** Requests allowed per window for an API key without its own limit. */
+export function getKeyRateLimit(): number {
+  return envInt("RATE_LIMIT_KEY_MAX", 60);
+}
+
+export async function checkRateLimit(
+  key: string,
+  limit: number,
+  windowMs = getRateLimitWindowMs(),
+  rateLimitStore = getRateLimitStore()
+): Promise<RateLimitResult> {
+  const { count, resetAt } = await rateLimitStore.hit(key, windowMs);
+  if (count > limit) {
+    return { ok: false, retryAfterSeconds: Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)) };
+  }
+  return { ok: true, remaining: limit - count };
+}
@@ -0,0 +1,33 @@
+import type { RateLimitHit, RateLimitStore } from "./types";
+
+const SWEEP_EVERY = 1000;
+
+/**
+ * Fixed-window counters kept in process memory. Each server instance counts
+ * separately, so this is only exact for a single instance.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, RateLimitHit>();
+  let hits = 0;
+
+  function sweep(now: number) {
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+  }
+
+  async function hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    if (++hits % SWEEP_EVERY === 0) sweep(now);
+    const current = windows.get(key);
+    if (!current || current.resetAt <= now) {
+      const fresh = { count: 1, resetAt: now + windowMs };
+      windows.set(key, fresh);
+      return fresh;
+    }
+    current.count++;
+    return { ...current };
+  }
+
+  return { name: "memory", hit };
+}
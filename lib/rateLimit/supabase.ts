@@ -0,0 +1,17 @@
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import type { RateLimitHit, RateLimitStore } from "./types";
+
+type RateLimitRow = { count: number; reset_at: string };
+
+/** Counters shared by all instances, through the rate_limit_hit function (migration 0005). */
+export function createSupabaseRateLimitStore(): RateLimitStore {
+  async function hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const { data, error } = await getSupabaseAdmin()
+      .rpc("rate_limit_hit", { p_key: key, p_window_ms: windowMs })
+      .single<RateLimitRow>();
+    if (error || !data) throw new Error(`Limiteur de débit indisponible: ${error?.message ?? "réponse vide"}`);
+    return { count: data.count, resetAt: new Date(data.reset_at).getTime() };
+  }
+
+  return { name: "supabase", hit };
+}
@@ -0,0 +1,12 @@
+export type RateLimitHit = {
+  /** Requests counted in the current window, including this one. */
+  count: number;
+  /** When the current window ends, in epoch milliseconds. */
+  resetAt: number;
+};
+
+export interface RateLimitStore {
+  readonly name: string;
+  /** Counts one request for `key` in a fixed window of `windowMs`. */
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
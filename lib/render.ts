@@ -0,0 +1,150 @@
+import { chromium, errors, type Browser, type Route } from "playwright-core";
+import { AppError } from "@/lib/errors";
+import { startRenderProxy } from "@/lib/renderProxy";
+import { assertPublicUrl } from "@/lib/safeFetch";
+
+export type RenderedPage = {
+  html: string;
+  /** Address after redirects. */
+  url: string;
+};
+
+/** Neither needed for the text nor worth the bandwidth. */
+const SKIPPED_RESOURCES = new Set(["image", "media", "font", "stylesheet"]);
+
+const USER_AGENT =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36";
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/** RENDERER=chromium turns rendering on; it is off by default. */
+export function isRenderingEnabled(): boolean {
+  return process.env.RENDERER?.trim() === "chromium";
+}
+
+/** Static extractions shorter than this are rendered again, when rendering is enabled. */
+export function getRenderMinTextChars(): number {
+  return envInt("RENDER_MIN_TEXT_CHARS", 500);
+}
+
+/**
+ * Registrable part of a host name, close enough to tell first-party requests
+ * from third-party ones: "www.lemonde.fr" and "img.lemonde.fr" share "lemonde.fr",
+ * and "news.bbc.co.uk" gives "bbc.co.uk".
+ */
+function siteOf(hostname: string): string {
+  const labels = hostname.toLowerCase().split(".");
+  if (labels.length <= 2 || /^[\d.]+$/.test(hostname) || hostname.includes(":")) return hostname.toLowerCase();
+  const [second, last] = labels.slice(-2);
+  const count = last.length === 2 && second.length <= 3 ? 3 : 2;
+  return labels.slice(-count).join(".");
+}
+
+let browser: Promise<Browser> | null = null;
+
+function getBrowser(): Promise<Browser> {
+  browser ??= startRenderProxy()
+    .then((server) =>
+      chromium.launch({
+        executablePath: process.env.RENDER_BROWSER_PATH?.trim() || undefined,
+        headless: true,
+        // All traffic, loopback included, goes through the proxy, which only connects to checked addresses.
+        proxy: { server },
+      })
+    )
+    .then((launched) => {
+      // A crashed browser is launched again by the next render.
+      launched.on("disconnected", () => {
+        browser = null;
+      });
+      return launched;
+    })
+    .catch((e: unknown) => {
+      browser = null;
+      throw new AppError("SERVICE_UNAVAILABLE", { message: "Navigateur de rendu indisponible", cause: e });
+    });
+  return browser;
+}
+
+/** Pages open at once, across requests; the others wait for a slot. */
+let openPages = 0;
+const waiting: (() => void)[] = [];
+
+async function acquirePage(): Promise<void> {
+  if (openPages < envInt("RENDER_POOL_SIZE", 2)) {
+    openPages++;
+    return;
+  }
+  await new Promise<void>((resolve) => waiting.push(resolve));
+}
+
+function releasePage(): void {
+  const next = waiting.shift();
+  if (next) next();
+  else openPages--;
+}
+
+/**
+ * Loads `targetUrl` in headless Chromium and returns the HTML once scripts have
+ * built the page, within RENDER_TIMEOUT_SECONDS. Only requests to the page's
+ * own site go out, through the render proxy, which refuses private addresses
+ * (see startRenderProxy); images, fonts, stylesheets and WebSockets are
+ * skipped. Null when the address does not serve HTML, e.g. a PDF, which the
+ * static fetch handles better. Invalid or private addresses throw SafeFetchError.
+ */
+export async function renderPage(targetUrl: string): Promise<RenderedPage | null> {
+  await assertPublicUrl(new URL(targetUrl));
+  const site = siteOf(new URL(targetUrl).hostname);
+  const timeoutMs = envInt("RENDER_TIMEOUT_SECONDS", 20) * 1000;
+  const deadline = Date.now() + timeoutMs;
+
+  await acquirePage();
+  try {
+    const instance = await getBrowser();
+    const context = await instance.newContext({
+      userAgent: USER_AGENT,
+      serviceWorkers: "block",
+      acceptDownloads: false,
+    });
+    try {
+      // Addresses are checked by the proxy; this only keeps the page to its own site and to what the text needs.
+      await context.route("**/*", (route: Route) => {
+        const request = route.request();
+        const url = new URL(request.url());
+        if (SKIPPED_RESOURCES.has(request.resourceType()) || siteOf(url.hostname) !== site) {
+          return route.abort("blockedbyclient");
+        }
+        return route.continue();
+      });
+      // context.route does not see WebSockets, which the text does not need either.
+      await context.routeWebSocket(/.*/, (ws) => ws.close());
+
+      const page = await context.newPage();
+      const response = await page.goto(targetUrl, { waitUntil: "domcontentloaded", timeout: timeoutMs });
+      if (response && response.status() >= 400) {
+        throw new AppError("UPSTREAM_HTTP_ERROR", {
+          details: { upstream_status: response.status() },
+          retryable: response.status() >= 500 || response.status() === 408 || response.status() === 429,
+        });
+      }
+      const contentType = response?.headers()["content-type"] ?? "text/html";
+      if (!/^(text\/html|application\/xhtml\+xml)/i.test(contentType)) return null;
+      // Pages that keep polling never go idle; what was built by then is used.
+      await page
+        .waitForLoadState("networkidle", { timeout: Math.max(deadline - Date.now(), 1) })
+        .catch(() => undefined);
+      return { html: await page.content(), url: page.url() };
+    } finally {
+      await context.close().catch(() => undefined);
+    }
+  } catch (e) {
+    if (e instanceof AppError) throw e;
+    if (e instanceof errors.TimeoutError) throw new AppError("FETCH_TIMEOUT", { cause: e });
+    throw new AppError("FETCH_FAILED", { cause: e });
+  } finally {
+    releasePage();
+  }
+}
@@ -0,0 +1,92 @@
+import { createServer, request, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { startRenderProxy } from "./renderProxy";
+
+let site: Server;
+let sitePort: number;
+let proxy: URL;
+const hits: string[] = [];
+
+beforeAll(async () => {
+  site = createServer((req, res) => {
+    hits.push(req.url ?? "");
+    res.writeHead(200, { "content-type": "text/plain" });
+    res.end(`page ${req.url}`);
+  });
+  await new Promise<void>((resolve) => site.listen(0, "127.0.0.1", resolve));
+  sitePort = (site.address() as AddressInfo).port;
+  proxy = new URL(await startRenderProxy());
+});
+
+afterAll(() => new Promise<void>((resolve) => site.close(() => resolve())));
+
+afterEach(() => {
+  hits.length = 0;
+  delete process.env.FETCH_ALLOW_PRIVATE_NETWORK;
+});
+
+/** GET `url` through the proxy, as a browser does for http pages. */
+function proxiedGet(url: string): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    request({ host: proxy.hostname, port: proxy.port, path: url }, (res) => {
+      let body = "";
+      res.on("data", (chunk) => (body += chunk));
+      res.on("end", () => resolve({ status: res.statusCode ?? 0, body }));
+    })
+      .on("error", reject)
+      .end();
+  });
+}
+
+/** Status of a `CONNECT` to `target`, as a browser sends for https pages. */
+function tunnelStatus(target: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = request({ host: proxy.hostname, port: proxy.port, method: "CONNECT", path: target });
+    req.on("connect", (res: IncomingMessage, socket) => {
+      socket.destroy();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+describe("startRenderProxy", () => {
+  it("refuses private addresses, for plain requests and tunnels", async () => {
+    expect((await proxiedGet(`http://127.0.0.1:${sitePort}/secret`)).status).toBe(403);
+    expect((await proxiedGet(`http://localhost:${sitePort}/secret`)).status).toBe(403);
+    expect((await proxiedGet("http://169.254.169.254/latest/meta-data/")).status).toBe(403);
+    expect(await tunnelStatus(`127.0.0.1:${sitePort}`)).toBe(403);
+    expect(await tunnelStatus("[::1]:443")).toBe(403);
+    expect(hits).toEqual([]);
+  });
+
+  it("forwards requests to allowed addresses", async () => {
+    process.env.FETCH_ALLOW_PRIVATE_NETWORK = "true";
+    expect(await proxiedGet(`http://127.0.0.1:${sitePort}/article?page=2`)).toEqual({
+      status: 200,
+      body: "page /article?page=2",
+    });
+    expect(await tunnelStatus(`127.0.0.1:${sitePort}`)).toBe(200);
+    expect(hits).toEqual(["/article?page=2"]);
+  });
+
+  it("refuses WebSocket upgrades", async () => {
+    process.env.FETCH_ALLOW_PRIVATE_NETWORK = "true";
+    const closed = await new Promise<boolean>((resolve) => {
+      const req = request({
+        host: proxy.hostname,
+        port: proxy.port,
+        path: `http://127.0.0.1:${sitePort}/socket`,
+        headers: { connection: "Upgrade", upgrade: "websocket" },
+      });
+      req.on("upgrade", () => resolve(false));
+      req.on("response", () => resolve(false));
+      req.on("error", () => resolve(true));
+      req.end();
+    });
+    expect(closed).toBe(true);
+    expect(hits).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  createServer,
+  request as httpRequest,
+  type IncomingHttpHeaders,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import { connect, type AddressInfo, type Socket } from "node:net";
+import { resolvePublicAddress } from "@/lib/safeFetch";
+
+/** Headers about the connection to the proxy, not to be forwarded. */
+const HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authorization",
+  "proxy-connection",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+];
+
+function withoutHopHeaders(headers: IncomingHttpHeaders): IncomingHttpHeaders {
+  const copy = { ...headers };
+  for (const name of HOP_HEADERS) delete copy[name];
+  return copy;
+}
+
+/** Plain http requests, sent to the proxy with an absolute URL. */
+async function forwardRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  let url: URL;
+  try {
+    url = new URL(req.url ?? "");
+  } catch {
+    res.writeHead(400).end();
+    return;
+  }
+  if (url.protocol !== "http:") {
+    res.writeHead(400).end();
+    return;
+  }
+  let target;
+  try {
+    target = await resolvePublicAddress(url.hostname);
+  } catch {
+    res.writeHead(403).end();
+    return;
+  }
+  const upstream = httpRequest(
+    {
+      host: target.address,
+      family: target.family,
+      port: Number(url.port) || 80,
+      method: req.method,
+      path: `${url.pathname}${url.search}`,
+      headers: { ...withoutHopHeaders(req.headers), host: url.host },
+    },
+    (upstreamRes) => {
+      res.writeHead(upstreamRes.statusCode ?? 502, withoutHopHeaders(upstreamRes.headers));
+      upstreamRes.pipe(res);
+    }
+  );
+  upstream.on("error", () => (res.headersSent ? res.destroy() : res.writeHead(502).end()));
+  req.pipe(upstream);
+}
+
+/** `CONNECT host:port` tunnels, for https. */
+async function openTunnel(req: IncomingMessage, client: Socket, head: Buffer): Promise<void> {
+  client.on("error", () => client.destroy());
+  let host: URL;
+  try {
+    host = new URL(`http://${req.url}`);
+  } catch {
+    client.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+  let target;
+  try {
+    target = await resolvePublicAddress(host.hostname);
+  } catch {
+    client.end("HTTP/1.1 403 Forbidden\r\n\r\n");
+    return;
+  }
+  const upstream = connect({ host: target.address, family: target.family, port: Number(host.port) || 443 });
+  upstream.once("connect", () => {
+    client.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+    if (head.length) upstream.write(head);
+    upstream.pipe(client);
+    client.pipe(upstream);
+  });
+  upstream.on("error", () => {
+    if (upstream.connecting) client.end("HTTP/1.1 502 Bad Gateway\r\n\r\n");
+    else client.destroy();
+  });
+  client.on("close", () => upstream.destroy());
+}
+
+let proxy: Promise<string> | null = null;
+
+/**
+ * Starts, once, the HTTP proxy the rendering browser sends all its traffic
+ * through, on loopback, and returns its address. Chromium would resolve host
+ * names again after they were checked; the proxy connects to the address it
+ * resolved and checked itself (see resolvePublicAddress), so a host cannot
+ * rebind to a private address in between. WebSocket upgrades are refused.
+ */
+export function startRenderProxy(): Promise<string> {
+  proxy ??= new Promise<string>((resolve, reject) => {
+    const server = createServer((req, res) => void forwardRequest(req, res));
+    server.on("connect", (req, socket: Socket, head: Buffer) => void openTunnel(req, socket, head));
+    server.on("upgrade", (_req, socket: Socket) => socket.destroy());
+    server.once("error", (e) => {
+      proxy = null;
+      reject(e);
+    });
+    server.listen(0, "127.0.0.1", () => {
+      // Does not keep a worker process alive on its own.
+      server.unref();
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    });
+  });
+  return proxy;
+}
@@ -0,0 +1,188 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { isBlockedAddress, safeFetch, SafeFetchError } from "./safeFetch";
+
+/** Names resolved by the tests instead of DNS. */
+const FAKE_DNS: Record<string, string | (() => string)> = {
+  "news.test": "93.184.216.34",
+  "intranet.test": "10.1.2.3",
+};
+
+vi.mock("node:dns", async (importOriginal) => {
+  const dns = await importOriginal<typeof import("node:dns")>();
+  const lookup = (hostname: string, options: { all?: boolean }, callback: (...args: unknown[]) => void) => {
+    const entry = FAKE_DNS[hostname];
+    if (!entry) return dns.lookup(hostname, options, callback as never);
+    const address = typeof entry === "function" ? entry() : entry;
+    const family = address.includes(":") ? 6 : 4;
+    if (options.all) callback(null, [{ address, family }]);
+    else callback(null, address, family);
+  };
+  return { ...dns, default: { ...dns, lookup }, lookup };
+});
+
+/** news.test, which resolves to a public address, is answered here instead of over the network. */
+const publicSite = vi.fn<(url: string) => Response>();
+
+vi.mock("undici", async (importOriginal) => {
+  const undici = await importOriginal<typeof import("undici")>();
+  return {
+    ...undici,
+    fetch: (input: URL, init: never) =>
+      new URL(input).hostname === "news.test" ? publicSite(String(input)) : undici.fetch(input, init),
+  };
+});
+
+let server: Server;
+let base: string;
+const hits: string[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    hits.push(req.url ?? "");
+    const loop = req.url?.match(/^\/loop\/(\d+)$/);
+    if (loop && Number(loop[1]) < 10) {
+      res.writeHead(302, { location: `/loop/${Number(loop[1]) + 1}` });
+      return res.end();
+    }
+    if (req.url === "/large") {
+      // Streamed without a Content-Length, so the size is only known while reading.
+      res.writeHead(200, { "content-type": "text/html" });
+      res.write("a".repeat(600));
+      return res.end("a".repeat(600));
+    }
+    if (req.url === "/large-declared") {
+      res.writeHead(200, { "content-type": "text/html", "content-length": "5000" });
+      return res.end("a".repeat(5000));
+    }
+    if (req.url === "/binary") {
+      res.writeHead(200, { "content-type": "application/octet-stream" });
+      return res.end("\x00\x01");
+    }
+    res.writeHead(200, { "content-type": "text/html; charset=utf-8" });
+    res.end("<p>ok</p>");
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  hits.length = 0;
+  publicSite.mockReset();
+});
+
+async function failure(promise: Promise<unknown>): Promise<SafeFetchError> {
+  const error = await promise.then(
+    () => null,
+    (e: unknown) => e
+  );
+  expect(error).toBeInstanceOf(SafeFetchError);
+  return error as SafeFetchError;
+}
+
+describe("isBlockedAddress", () => {
+  it("blocks loopback, private, link-local, mapped and 6to4 addresses", () => {
+    for (const address of ["127.0.0.1", "10.0.0.8", "172.20.1.1", "192.168.1.1", "169.254.169.254", "::1"]) {
+      expect(isBlockedAddress(address)).toBe(true);
+    }
+    expect(isBlockedAddress("::ffff:127.0.0.1")).toBe(true);
+    expect(isBlockedAddress("::ffff:7f00:1")).toBe(true);
+    expect(isBlockedAddress("fd00::1")).toBe(true);
+    // 6to4 addresses of 127.0.0.1 and of a public address: relays would reach the IPv4 address for us.
+    expect(isBlockedAddress("2002:7f00:1::1")).toBe(true);
+    expect(isBlockedAddress("2002:5db8:d822::1")).toBe(true);
+    expect(isBlockedAddress("93.184.216.34")).toBe(false);
+    expect(isBlockedAddress("2606:4700::1111")).toBe(false);
+  });
+});
+
+describe("safeFetch", () => {
+  it("blocks loopback and private targets before connecting", async () => {
+    expect((await failure(safeFetch(`${base}/page`, { allowPrivateNetwork: false }))).code).toBe("BLOCKED_ADDRESS");
+    const port = new URL(base).port;
+    expect((await failure(safeFetch(`http://localhost:${port}/`, { allowPrivateNetwork: false }))).code).toBe(
+      "BLOCKED_ADDRESS"
+    );
+    expect((await failure(safeFetch(`http://[::1]:${port}/`, { allowPrivateNetwork: false }))).code).toBe(
+      "BLOCKED_ADDRESS"
+    );
+    expect((await failure(safeFetch("http://intranet.test/", { allowPrivateNetwork: false }))).code).toBe(
+      "BLOCKED_ADDRESS"
+    );
+    expect(hits).toEqual([]);
+  });
+
+  it("validates every redirect hop again", async () => {
+    publicSite.mockReturnValueOnce(new Response(null, { status: 302, headers: { location: `${base}/page` } }));
+    expect((await failure(safeFetch("http://news.test/a", { allowPrivateNetwork: false }))).code).toBe(
+      "BLOCKED_ADDRESS"
+    );
+
+    publicSite.mockReturnValueOnce(new Response(null, { status: 301, headers: { location: "http://intranet.test/" } }));
+    expect((await failure(safeFetch("http://news.test/b", { allowPrivateNetwork: false }))).code).toBe(
+      "BLOCKED_ADDRESS"
+    );
+
+    publicSite.mockReturnValueOnce(
+      new Response(null, { status: 307, headers: { location: "http://169.254.169.254/latest/meta-data/" } })
+    );
+    expect((await failure(safeFetch("http://news.test/c", { allowPrivateNetwork: false }))).code).toBe(
+      "BLOCKED_ADDRESS"
+    );
+
+    expect(publicSite.mock.calls.map(([url]) => url)).toEqual([
+      "http://news.test/a",
+      "http://news.test/b",
+      "http://news.test/c",
+    ]);
+    expect(hits).toEqual([]);
+  });
+
+  it("checks the addresses again when connecting", async () => {
+    // Public when validated, then loopback: DNS rebinding.
+    let lookups = 0;
+    FAKE_DNS["rebind.test"] = () => (++lookups === 1 ? "93.184.216.34" : "127.0.0.1");
+    const port = new URL(base).port;
+    expect((await failure(safeFetch(`http://rebind.test:${port}/`, { allowPrivateNetwork: false }))).code).toBe(
+      "BLOCKED_ADDRESS"
+    );
+    expect(lookups).toBe(2);
+    expect(hits).toEqual([]);
+  });
+
+  it("follows redirects up to the limit", async () => {
+    const res = await safeFetch(`${base}/loop/7`, { allowPrivateNetwork: true, maxRedirects: 3 });
+    expect(res.url).toBe(`${base}/loop/10`);
+    expect(hits).toEqual(["/loop/7", "/loop/8", "/loop/9", "/loop/10"]);
+
+    hits.length = 0;
+    expect((await failure(safeFetch(`${base}/loop/1`, { allowPrivateNetwork: true, maxRedirects: 3 }))).code).toBe(
+      "TOO_MANY_REDIRECTS"
+    );
+    expect(hits).toEqual(["/loop/1", "/loop/2", "/loop/3", "/loop/4"]);
+  });
+
+  it("caps the response size, declared or streamed", async () => {
+    expect((await failure(safeFetch(`${base}/large`, { allowPrivateNetwork: true, maxBytes: 1000 }))).code).toBe(
+      "TOO_LARGE"
+    );
+    expect(
+      (await failure(safeFetch(`${base}/large-declared`, { allowPrivateNetwork: true, maxBytes: 1000 }))).code
+    ).toBe("TOO_LARGE");
+    const res = await safeFetch(`${base}/large`, { allowPrivateNetwork: true, maxBytes: 1200 });
+    expect(res.data.byteLength).toBe(1200);
+  });
+
+  it("rejects content types that are not allowed", async () => {
+    const allowedContentTypes = ["text/html"];
+    const error = await failure(safeFetch(`${base}/binary`, { allowPrivateNetwork: true, allowedContentTypes }));
+    expect(error.code).toBe("UNSUPPORTED_CONTENT_TYPE");
+    const res = await safeFetch(`${base}/page`, { allowPrivateNetwork: true, allowedContentTypes });
+    expect(new TextDecoder().decode(res.data)).toBe("<p>ok</p>");
+    expect(res.headers).toBeInstanceOf(Headers);
+    expect(res.headers.get("content-type")).toBe(res.contentType);
+  });
+});
@@ -0,0 +1,315 @@
+import { lookup as dnsLookup, type LookupAddress, type LookupOptions } from "node:dns";
+import { BlockList, isIP } from "node:net";
+import { Agent, fetch as undiciFetch, type Response } from "undici";
+
+export type SafeFetchErrorCode =
+  | "INVALID_URL"
+  | "BLOCKED_ADDRESS"
+  | "DNS_FAILURE"
+  | "TOO_MANY_REDIRECTS"
+  | "TOO_LARGE"
+  | "UNSUPPORTED_CONTENT_TYPE"
+  | "TIMEOUT";
+
+export class SafeFetchError extends Error {
+  constructor(
+    readonly code: SafeFetchErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "SafeFetchError";
+  }
+}
+
+export type SafeFetchOptions = {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string | Uint8Array;
+  timeoutMs?: number;
+  maxRedirects?: number;
+  maxBytes?: number;
+  /** MIME types accepted for a successful response; anything else is rejected before the body is read. */
+  allowedContentTypes?: readonly string[];
+  /** Allows loopback and private targets. Only for local development and tests. */
+  allowPrivateNetwork?: boolean;
+};
+
+export type SafeResponse = {
+  status: number;
+  ok: boolean;
+  url: string;
+  headers: Headers;
+  contentType: string;
+  data: Uint8Array;
+};
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_REDIRECTS = 5;
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+
+// Loopback, private, link-local, shared, documentation, benchmarking, multicast and reserved ranges.
+const blockedRanges = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.88.99.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedRanges.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b:1::", 48],
+  // 6to4 embeds an IPv4 address, which relays would reach on our behalf.
+  ["2002::", 16],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedRanges.addSubnet(network, prefix, "ipv6");
+}
+
+/** IPv4 address embedded in an IPv4-mapped (::ffff:a.b.c.d) or NAT64 (64:ff9b::a.b.c.d) address. */
+function embeddedIPv4(address: string): string | null {
+  const match = address.toLowerCase().match(/^(?:::ffff:|64:ff9b::)(?:0:)?([0-9a-f.:]+)$/);
+  if (!match) return null;
+  const tail = match[1];
+  if (isIP(tail) === 4) return tail;
+  const hex = tail.split(":");
+  if (hex.length !== 2) return null;
+  const value = (parseInt(hex[0], 16) << 16) | parseInt(hex[1], 16);
+  return [24, 16, 8, 0].map((shift) => (value >>> shift) & 0xff).join(".");
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return blockedRanges.check(address, "ipv4");
+  if (family === 6) {
+    const v4 = embeddedIPv4(address);
+    if (v4) return blockedRanges.check(v4, "ipv4");
+    return blockedRanges.check(address, "ipv6");
+  }
+  return true;
+}
+
+function allowPrivateByDefault(): boolean {
+  return process.env.FETCH_ALLOW_PRIVATE_NETWORK === "true";
+}
+
+function blockedAddress(hostname: string): SafeFetchError {
+  return new SafeFetchError("BLOCKED_ADDRESS", `Adresse non autorisée (${hostname})`);
+}
+
+type LookupCallback = (err: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void;
+
+/**
+ * DNS lookup used for every connection: checking the resolved addresses here,
+ * rather than before fetching, leaves no window for DNS rebinding.
+ */
+function safeLookup(hostname: string, options: LookupOptions, callback: LookupCallback) {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, []);
+    const blocked = addresses.find((a) => isBlockedAddress(a.address));
+    if (blocked) return callback(blockedAddress(hostname), []);
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+let publicAgent: Agent | null = null;
+let privateAgent: Agent | null = null;
+
+function agentFor(allowPrivateNetwork: boolean): Agent {
+  if (allowPrivateNetwork) {
+    privateAgent ??= new Agent();
+    return privateAgent;
+  }
+  publicAgent ??= new Agent({ connect: { lookup: safeLookup } });
+  return publicAgent;
+}
+
+function resolveLookup(hostname: string): Promise<LookupAddress[]> {
+  return new Promise((resolve, reject) => {
+    dnsLookup(hostname, { all: true }, (err, addresses) => (err ? reject(err) : resolve(addresses)));
+  });
+}
+
+/**
+ * Resolves `hostname` once and returns the address to connect to, after
+ * checking every address it resolves to. Connecting to that address rather
+ * than to the name leaves no window for DNS rebinding.
+ */
+export async function resolvePublicAddress(
+  hostname: string,
+  allowPrivateNetwork = allowPrivateByDefault()
+): Promise<LookupAddress> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const family = isIP(host);
+  if (family) {
+    if (!allowPrivateNetwork && isBlockedAddress(host)) throw blockedAddress(host);
+    return { address: host, family };
+  }
+  if (!allowPrivateNetwork && (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".internal"))) {
+    throw blockedAddress(host);
+  }
+  let addresses: LookupAddress[];
+  try {
+    addresses = await resolveLookup(host);
+  } catch {
+    throw new SafeFetchError("DNS_FAILURE", `Nom de domaine introuvable (${host})`);
+  }
+  if (addresses.length === 0 || (!allowPrivateNetwork && addresses.some((a) => isBlockedAddress(a.address)))) {
+    throw blockedAddress(host);
+  }
+  return addresses[0];
+}
+
+/** Rejects URLs that are not http(s) or whose host is, or resolves to, a non-public address. */
+export async function assertPublicUrl(target: URL, allowPrivateNetwork = allowPrivateByDefault()): Promise<void> {
+  if (target.protocol !== "http:" && target.protocol !== "https:") {
+    throw new SafeFetchError("INVALID_URL", "URL invalide");
+  }
+  if (target.username || target.password) {
+    throw new SafeFetchError("INVALID_URL", "URL invalide");
+  }
+  if (allowPrivateNetwork) return;
+  await resolvePublicAddress(target.hostname, false);
+}
+
+function mimeType(contentType: string): string {
+  return contentType.split(";")[0].trim().toLowerCase();
+}
+
+async function readLimited(res: Response, maxBytes: number, signal: AbortSignal): Promise<Uint8Array> {
+  const declared = Number(res.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    await res.body?.cancel().catch(() => {});
+    throw new SafeFetchError("TOO_LARGE", "Réponse trop volumineuse");
+  }
+  if (!res.body) return new Uint8Array();
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    if (signal.aborted) throw new SafeFetchError("TIMEOUT", "Délai de chargement dépassé");
+    const { value, done } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => {});
+      throw new SafeFetchError("TOO_LARGE", "Réponse trop volumineuse");
+    }
+    chunks.push(value);
+  }
+  const data = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return data;
+}
+
+/**
+ * fetch() for user-supplied URLs. Only public http(s) hosts are reachable, every
+ * redirect hop is re-validated, and the redirect count, response size, content
+ * type and total duration are capped.
+ */
+export async function safeFetch(input: string, options: SafeFetchOptions = {}): Promise<SafeResponse> {
+  const {
+    method = "GET",
+    headers,
+    body,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxRedirects = DEFAULT_MAX_REDIRECTS,
+    maxBytes = DEFAULT_MAX_BYTES,
+    allowedContentTypes,
+    allowPrivateNetwork = allowPrivateByDefault(),
+  } = options;
+
+  let current: URL;
+  try {
+    current = new URL(input);
+  } catch {
+    throw new SafeFetchError("INVALID_URL", "URL invalide");
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  const dispatcher = agentFor(allowPrivateNetwork);
+  const followsRedirects = method === "GET" || method === "HEAD";
+
+  try {
+    for (let hop = 0; ; hop++) {
+      await assertPublicUrl(current, allowPrivateNetwork);
+      let res: Response;
+      try {
+        res = await undiciFetch(current, {
+          method,
+          headers,
+          body,
+          redirect: "manual",
+          signal: controller.signal,
+          dispatcher,
+        });
+      } catch (e) {
+        if (controller.signal.aborted) throw new SafeFetchError("TIMEOUT", "Délai de chargement dépassé");
+        const cause = (e as { cause?: unknown })?.cause;
+        if (cause instanceof SafeFetchError) throw cause;
+        throw e;
+      }
+
+      const location = res.headers.get("location");
+      if (followsRedirects && res.status >= 300 && res.status < 400 && location) {
+        await res.body?.cancel().catch(() => {});
+        if (hop >= maxRedirects) throw new SafeFetchError("TOO_MANY_REDIRECTS", "Trop de redirections");
+        try {
+          current = new URL(location, current);
+        } catch {
+          throw new SafeFetchError("INVALID_URL", "Redirection invalide");
+        }
+        continue;
+      }
+
+      const contentType = res.headers.get("content-type") ?? "";
+      if (res.ok && allowedContentTypes && !allowedContentTypes.includes(mimeType(contentType))) {
+        await res.body?.cancel().catch(() => {});
+        throw new SafeFetchError(
+          "UNSUPPORTED_CONTENT_TYPE",
+          `Type de contenu non pris en charge (${mimeType(contentType) || "inconnu"})`
+        );
+      }
+
+      const data = await readLimited(res, maxBytes, controller.signal);
+      return {
+        status: res.status,
+        ok: res.ok,
+        url: current.toString(),
+        headers: new Headers([...res.headers]),
+        contentType,
+        data,
+      };
+    }
+  } catch (e) {
+    if (controller.signal.aborted && !(e instanceof SafeFetchError)) {
+      throw new SafeFetchError("TIMEOUT", "Délai de chargement dépassé");
+    }
+    throw e;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,214 @@
+import { splitParagraphs } from "@/lib/citations";
+import { AppError, type ErrorCode } from "@/lib/errors";
+import { FETCHABLE_CONTENT_TYPES, ingestBytes, type IngestedDocument } from "@/lib/ingest";
+import { getRenderMinTextChars, isRenderingEnabled, renderPage } from "@/lib/render";
+import { safeFetch, SafeFetchError, type SafeFetchErrorCode } from "@/lib/safeFetch";
+
+export type FetchedDocument = {
+  data: Uint8Array;
+  contentType: string;
+  url: string;
+};
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const USER_AGENT =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36";
+
+/** RSS, Atom and sitemap documents; many servers label them as plain XML or text. */
+const XML_CONTENT_TYPES = [
+  "application/rss+xml",
+  "application/atom+xml",
+  "application/rdf+xml",
+  "application/xml",
+  "text/xml",
+  "text/plain",
+  "",
+];
+
+const FETCH_ERROR_CODES: Record<SafeFetchErrorCode, ErrorCode> = {
+  INVALID_URL: "INVALID_URL",
+  BLOCKED_ADDRESS: "BLOCKED_URL",
+  DNS_FAILURE: "FETCH_FAILED",
+  TOO_MANY_REDIRECTS: "TOO_MANY_REDIRECTS",
+  TOO_LARGE: "PAYLOAD_TOO_LARGE",
+  UNSUPPORTED_CONTENT_TYPE: "UNSUPPORTED_CONTENT",
+  TIMEOUT: "FETCH_TIMEOUT",
+};
+
+/** Maps a failed fetch to the AppError reported to the client. */
+export function toFetchError(e: unknown): AppError {
+  if (e instanceof AppError) return e;
+  if (e instanceof SafeFetchError) {
+    // An unknown domain name will not resolve on retry either.
+    return new AppError(FETCH_ERROR_CODES[e.code], {
+      retryable: e.code === "DNS_FAILURE" ? false : undefined,
+      cause: e,
+    });
+  }
+  // Connection refused or reset, TLS failures…
+  return new AppError("FETCH_FAILED", { cause: e });
+}
+
+async function fetchAllowed(
+  targetUrl: string,
+  timeoutMs: number,
+  accept: string,
+  allowedContentTypes: readonly string[]
+): Promise<FetchedDocument> {
+  const res = await safeFetch(targetUrl, {
+    headers: { "User-Agent": USER_AGENT, Accept: accept },
+    timeoutMs,
+    maxRedirects: envInt("FETCH_MAX_REDIRECTS", 5),
+    maxBytes: envInt("FETCH_MAX_BYTES", 10 * 1024 * 1024),
+    allowedContentTypes,
+  });
+  if (!res.ok) {
+    throw new AppError("UPSTREAM_HTTP_ERROR", {
+      details: { upstream_status: res.status },
+      retryable: res.status >= 500 || res.status === 408 || res.status === 429,
+    });
+  }
+  return { data: res.data, contentType: res.contentType, url: res.url };
+}
+
+export async function fetchDocument(targetUrl: string, timeoutMs = 15000): Promise<FetchedDocument> {
+  return fetchAllowed(
+    targetUrl,
+    timeoutMs,
+    "text/html,application/xhtml+xml,application/pdf,text/markdown,text/plain;q=0.9,application/xml;q=0.8,*/*;q=0.7",
+    FETCHABLE_CONTENT_TYPES
+  );
+}
+
+/** Fetches an RSS or Atom feed or a sitemap. Failures are reported as AppErrors. */
+export async function fetchXml(targetUrl: string, timeoutMs = 15000): Promise<FetchedDocument> {
+  try {
+    return await fetchAllowed(
+      targetUrl,
+      timeoutMs,
+      "application/rss+xml,application/atom+xml,application/xml;q=0.9,text/xml;q=0.9,*/*;q=0.5",
+      XML_CONTENT_TYPES
+    );
+  } catch (e) {
+    throw toFetchError(e);
+  }
+}
+
+async function fetchStatic(targetUrl: string, timeoutMs: number): Promise<IngestedDocument> {
+  const { data, contentType, url } = await fetchDocument(targetUrl, timeoutMs);
+  return { ...(await ingestBytes(data, contentType, { url })), strategy: "static", pages: [url] };
+}
+
+async function renderDocument(targetUrl: string): Promise<IngestedDocument | null> {
+  const rendered = await renderPage(targetUrl);
+  if (!rendered) return null;
+  const document = await ingestBytes(new TextEncoder().encode(rendered.html), "text/html", { url: rendered.url });
+  return { ...document, strategy: "rendered", pages: [rendered.url] };
+}
+
+export type ScrapeOptions = {
+  timeoutMs?: number;
+  /** Load the page in the headless browser straight away; needs RENDERER. */
+  render?: boolean;
+};
+
+/** One page: fetched as is, then rendered when that gave too little text. */
+async function readPage(
+  targetUrl: string,
+  { timeoutMs = 15000, render = false }: ScrapeOptions
+): Promise<IngestedDocument> {
+  if (render) {
+    const rendered = await renderDocument(targetUrl);
+    if (rendered) return rendered;
+  }
+  const document = await fetchStatic(targetUrl, timeoutMs);
+  if (render || !isRenderingEnabled() || document.format !== "html") return document;
+  if (document.text.length >= getRenderMinTextChars()) return document;
+  const url = document.pages![0];
+  try {
+    const rendered = await renderDocument(url);
+    return rendered && rendered.text.length > document.text.length ? rendered : document;
+  } catch (e) {
+    console.warn(`[scrape] rendu de ${url} impossible`, e);
+    return document;
+  }
+}
+
+function withoutHash(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = "";
+  return parsed.href;
+}
+
+/**
+ * Reads the rest of a paginated article. A single-page variant is used
+ * instead when its text is clearly longer than the first page's; otherwise
+ * the next pages are read the way the first one was, up to FETCH_MAX_PAGES
+ * pages in all, keeping only paragraphs not seen on an earlier page. The
+ * article ends at the first page that fails or brings nothing new.
+ */
+async function followPagination(first: IngestedDocument, timeoutMs: number): Promise<IngestedDocument> {
+  const maxPages = envInt("FETCH_MAX_PAGES", 5);
+  const { next, singlePage } = first.pagination ?? {};
+  if (!next || maxPages < 2) return first;
+  const readNext = (url: string) => (first.strategy === "rendered" ? renderDocument(url) : fetchStatic(url, timeoutMs));
+
+  if (singlePage) {
+    try {
+      const single = await readNext(singlePage);
+      if (single?.format === "html" && single.text.length > first.text.length * 1.5) {
+        return { ...first, text: single.text, pages: single.pages, pagination: undefined };
+      }
+    } catch (e) {
+      console.warn(`[scrape] version sur une page ${singlePage} illisible`, e);
+    }
+  }
+
+  const pages = [...first.pages!];
+  const visited = new Set(pages.map(withoutHash));
+  const seenParagraphs = new Set(splitParagraphs(first.text));
+  const texts = [first.text];
+  let nextUrl: string | undefined = next;
+  while (nextUrl && pages.length < maxPages && !visited.has(withoutHash(nextUrl))) {
+    visited.add(withoutHash(nextUrl));
+    let page: IngestedDocument | null;
+    try {
+      page = await readNext(nextUrl);
+    } catch (e) {
+      console.warn(`[scrape] page suivante ${nextUrl} illisible`, e);
+      break;
+    }
+    if (page?.format !== "html") break;
+    // Titles, bylines and teasers repeated on every page are kept once.
+    const fresh = splitParagraphs(page.text).filter((paragraph) => !seenParagraphs.has(paragraph));
+    if (fresh.length === 0) break;
+    fresh.forEach((paragraph) => seenParagraphs.add(paragraph));
+    texts.push(fresh.join("\n\n"));
+    pages.push(page.pages![0]);
+    nextUrl = page.pagination?.next;
+  }
+  return { ...first, text: texts.join("\n\n"), pages, pagination: undefined };
+}
+
+/**
+ * Fetches and extracts a page. With RENDERER set, HTML yielding less than
+ * RENDER_MIN_TEXT_CHARS of text, typically a page built by JavaScript, is
+ * loaded again in a headless browser, and the longer text wins. An article
+ * split across pages is read to its end, see followPagination. Failures are
+ * reported as AppErrors; a failed render only keeps the static text.
+ */
+export async function scrapeDocument(targetUrl: string, options: ScrapeOptions = {}): Promise<IngestedDocument> {
+  try {
+    return await followPagination(await readPage(targetUrl, options), options.timeoutMs ?? 15000);
+  } catch (e) {
+    throw toFetchError(e);
+  }
+}
+
+export async function scrapeReadableText(targetUrl: string, timeoutMs = 15000): Promise<string> {
+  return (await scrapeDocument(targetUrl, { timeoutMs })).text;
+}
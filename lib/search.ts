@@ -0,0 +1,104 @@
+import type { Session } from "@/lib/auth";
+import { AppError } from "@/lib/errors";
+import { getEmbeddingProvider } from "@/lib/llm";
+import { toSummaryResponse, type SummaryResponse } from "@/lib/summaries";
+import { getSummaryStore } from "@/lib/summaryStore";
+
+export const SEARCH_MODES = ["keyword", "semantic", "hybrid"] as const;
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+/** Below this cosine similarity a summary is not considered related to the query. */
+const MIN_SIMILARITY = 0.3;
+
+export type SearchQuery = {
+  q: string;
+  /** Hybrid when embeddings are configured, keyword otherwise. */
+  mode?: SearchMode;
+  /** Search a workspace's summaries instead of the caller's own. */
+  workspaceId?: string;
+  limit?: number;
+};
+
+export type SearchResult = SummaryResponse & {
+  score: number;
+  /** Matched terms are wrapped in `<mark>…</mark>`; the rest is raw text, not HTML. */
+  highlights: { title: string; snippet: string };
+};
+
+export type SearchResponse = {
+  /** Mode actually used: hybrid falls back to keyword when the query cannot be embedded. */
+  mode: SearchMode;
+  items: SearchResult[];
+};
+
+/** Text embedded for each summary, and compared with the query. */
+function summaryText(title: string, points: string[]): string {
+  return [title, ...points].join("\n");
+}
+
+/**
+ * Embedding stored with a new summary. Null when semantic search is disabled
+ * or the provider fails: a summary is still worth saving without it.
+ */
+export async function embedSummary(title: string, points: string[]): Promise<number[] | null> {
+  try {
+    const provider = getEmbeddingProvider();
+    if (!provider) return null;
+    const [vector] = await provider.embed([summaryText(title, points)]);
+    return vector;
+  } catch (e) {
+    console.warn("[search] embedding impossible", e);
+    return null;
+  }
+}
+
+async function embedQuery(q: string, mode: SearchMode): Promise<number[] | null> {
+  const provider = getEmbeddingProvider();
+  if (!provider) {
+    if (mode === "semantic") {
+      throw new AppError("INVALID_REQUEST", { message: "Recherche sémantique non configurée" });
+    }
+    return null;
+  }
+  try {
+    const [vector] = await provider.embed([q]);
+    return vector;
+  } catch (e) {
+    if (mode === "semantic") throw e;
+    // Hybrid search degrades to keywords only.
+    console.warn("[search] embedding de la requête impossible", e);
+    return null;
+  }
+}
+
+export async function searchSummaries(session: Session, query: SearchQuery): Promise<SearchResponse> {
+  const store = getSummaryStore();
+  const semantic = Boolean(getEmbeddingProvider()) && store.semanticSearch;
+  const mode = query.mode ?? (semantic ? "hybrid" : "keyword");
+  if (mode === "semantic" && !store.semanticSearch) {
+    throw new AppError("INVALID_REQUEST", { message: `Recherche sémantique indisponible avec le stockage ${store.name}` });
+  }
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+  const embedding = mode === "keyword" || !store.semanticSearch ? null : await embedQuery(query.q, mode);
+
+  const rows = await store.search(session, {
+    q: query.q,
+    workspaceId: query.workspaceId ?? null,
+    keyword: mode !== "semantic",
+    embedding,
+    minSimilarity: MIN_SIMILARITY,
+    limit,
+  });
+
+  return {
+    mode: mode === "hybrid" && !embedding ? "keyword" : mode,
+    items: rows.map((row) => ({
+      ...toSummaryResponse(row),
+      score: row.score,
+      highlights: { title: row.title_highlight, snippet: row.snippet },
+    })),
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from "vitest";
+import { AppError } from "./errors";
+import { readSseEvents, sseResponse } from "./sse";
+
+async function collect(body: ReadableStream<Uint8Array>) {
+  const messages = [];
+  for await (const message of readSseEvents(body)) messages.push(message);
+  return messages;
+}
+
+describe("sseResponse", () => {
+  it("streams the events sent, then closes and runs onClose", async () => {
+    let closed = false;
+    const res = sseResponse(
+      async (send) => {
+        send("progress", { stage: "fetching" });
+        send("done", "fin\nde flux");
+      },
+      {
+        locale: "fr",
+        onClose: async () => {
+          closed = true;
+        },
+      }
+    );
+
+    expect(res.headers.get("content-type")).toBe("text/event-stream; charset=utf-8");
+    expect(res.headers.get("cache-control")).toBe("no-cache, no-transform");
+    expect(await collect(res.body!)).toEqual([
+      { event: "progress", data: '{"stage":"fetching"}' },
+      { event: "done", data: "fin\nde flux" },
+    ]);
+    expect(closed).toBe(true);
+  });
+
+  it("sends what the producer throws as an error event", async () => {
+    const res = sseResponse(
+      async (send) => {
+        send("progress", {});
+        throw new AppError("INVALID_URL");
+      },
+      { locale: "en" }
+    );
+
+    const messages = await collect(res.body!);
+    expect(messages.map((message) => message.event)).toEqual(["progress", "error"]);
+    expect(JSON.parse(messages[1].data)).toMatchObject({ code: "INVALID_URL", error: "Invalid URL" });
+  });
+});
+
+describe("sseResponse after the client went away", () => {
+  it("drops further events, aborts the producer and still runs onClose", async () => {
+    let onCloseRan = false;
+    let aborted = false;
+    const res = sseResponse(
+      async (send, signal) => {
+        send("progress", { step: 1 });
+        await new Promise((resolve) => signal.addEventListener("abort", resolve));
+        aborted = signal.aborted;
+        send("progress", { step: 2 });
+        throw signal.reason;
+      },
+      {
+        locale: "fr",
+        onClose: async () => {
+          onCloseRan = true;
+        },
+      }
+    );
+
+    const reader = res.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+    await vi.waitFor(() => expect(onCloseRan).toBe(true));
+    expect(aborted).toBe(true);
+  });
+});
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe("readSseEvents", () => {
+  it("joins a CRLF split between two chunks into one line break", async () => {
+    const messages = await collect(streamOf(["event: progress\r", "\ndata: 1\r\n\r", "\nevent: done\r\ndata: 2\r\n\r\n"]));
+    expect(messages).toEqual([
+      { event: "progress", data: "1" },
+      { event: "done", data: "2" },
+    ]);
+  });
+
+  it("reads data lines split by lone CRs, and a last message without a blank line", async () => {
+    const messages = await collect(streamOf(["data: a\r", "data: b\r", "\r", "data: c\r"]));
+    expect(messages).toEqual([
+      { event: "message", data: "a\nb" },
+      { event: "message", data: "c" },
+    ]);
+  });
+});
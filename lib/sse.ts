@@ -0,0 +1,111 @@
+import { toAppError, type ErrorLocale } from "@/lib/errors";
+
+export type SseMessage = {
+  event: string;
+  data: string;
+};
+
+export function formatSseEvent(event: string, data: unknown): string {
+  const payload = typeof data === "string" ? data : JSON.stringify(data);
+  const dataLines = payload
+    .split("\n")
+    .map((line) => `data: ${line}`)
+    .join("\n");
+  return `event: ${event}\n${dataLines}\n\n`;
+}
+
+/** Sends one event to the client. */
+export type SseSend = (event: string, data: unknown) => void;
+
+const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  "X-Accel-Buffering": "no",
+};
+
+/**
+ * A text/event-stream response carrying the events `run` sends. What `run`
+ * throws is sent as an `error` event in `locale`. When the client goes away,
+ * further events are dropped and `signal` aborts. `onClose` runs once `run`
+ * is over, whether the stream was read to the end or not.
+ */
+export function sseResponse(
+  run: (send: SseSend, signal: AbortSignal) => Promise<void>,
+  { locale, onClose }: { locale: ErrorLocale; onClose?: () => Promise<void> }
+): Response {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SseSend = (event, data) => {
+        if (!closed) controller.enqueue(encoder.encode(formatSseEvent(event, data)));
+      };
+      try {
+        await run(send, abort.signal);
+      } catch (e: unknown) {
+        // After a cancel, `run` fails because of the abort: nobody is left to tell.
+        if (!closed) send("error", toAppError(e).toBody(locale));
+      } finally {
+        try {
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
+        } finally {
+          await onClose?.();
+        }
+      }
+    },
+    cancel(reason) {
+      closed = true;
+      abort.abort(reason);
+    },
+  });
+  return new Response(stream, { headers: SSE_HEADERS });
+}
+
+function parseBlock(block: string): SseMessage | null {
+  let event = "message";
+  const data: string[] = [];
+  for (const line of block.split("\n")) {
+    if (!line || line.startsWith(":")) continue;
+    const sep = line.indexOf(":");
+    const field = sep === -1 ? line : line.slice(0, sep);
+    const value = sep === -1 ? "" : line.slice(sep + 1).replace(/^ /, "");
+    if (field === "event") event = value;
+    else if (field === "data") data.push(value);
+  }
+  if (data.length === 0) return null;
+  return { event, data: data.join("\n") };
+}
+
+/** Parses a text/event-stream body into messages. Works in the browser and in Node. */
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  // A "\r" ending a chunk may be the first half of a "\r\n" split across chunks.
+  let carry = "";
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      const text = carry + decoder.decode(value, { stream: true });
+      carry = text.endsWith("\r") ? "\r" : "";
+      buffer += text.slice(0, text.length - carry.length).replace(/\r\n?/g, "\n");
+      let sep = buffer.indexOf("\n\n");
+      while (sep !== -1) {
+        const message = parseBlock(buffer.slice(0, sep));
+        buffer = buffer.slice(sep + 2);
+        if (message) yield message;
+        sep = buffer.indexOf("\n\n");
+      }
+    }
+    const rest = parseBlock(buffer + (carry + decoder.decode()).replace(/\r\n?/g, "\n"));
+    if (rest) yield rest;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,123 @@
+import type { Citation } from "@/lib/citations";
+import type { ErrorBody } from "@/lib/errors";
+import type { PageMetadata } from "@/lib/extract";
+import type { DocumentFormat, FetchStrategy } from "@/lib/ingest";
+import type { Comparison, SummaryCoverage, SummarySection } from "@/lib/summarize";
+import { DEFAULT_SUMMARY_OPTIONS, type SummaryOptions } from "@/lib/summaryOptions";
+
+/** Row of the `summaries` table, see supabase/migrations. */
+export type SourceType = "url" | "text" | "file" | "comparison";
+
+export type SummaryRow = {
+  id: number;
+  /** Null for pasted text, uploaded files and comparisons. */
+  original_url: string | null;
+  title: string;
+  /** JSON-encoded StoredSummary */
+  summary: string | null;
+  created_at: string;
+  canonical_url?: string | null;
+  content_hash?: string | null;
+  options_key?: string | null;
+  source_type?: SourceType | null;
+  source_name?: string | null;
+  user_id?: string | null;
+  workspace_id?: string | null;
+};
+
+/** Page compared in a comparison, with its own summary. */
+export type ComparisonSource = {
+  url: string;
+  title: string;
+  summary_id: number;
+};
+
+/** Page left out of a comparison because it could not be summarized. */
+export type FailedSource = {
+  url: string;
+  error: ErrorBody;
+};
+
+export type StoredSummary = {
+  summary_points?: unknown;
+  sections?: SummarySection[];
+  coverage?: SummaryCoverage;
+  citations?: Citation[][];
+  unsupported_points?: number[];
+  options?: SummaryOptions;
+  format?: DocumentFormat;
+  fetch_strategy?: FetchStrategy;
+  pages?: string[];
+  comparison?: Comparison;
+  sources?: ComparisonSource[];
+  failed_sources?: FailedSource[];
+};
+
+export type SummaryResponse = {
+  id: number;
+  /** Null for rows created before summaries had owners. */
+  user_id: string | null;
+  /** Set when the summary is shared with a workspace. */
+  workspace_id: string | null;
+  url: string | null;
+  source_type: SourceType;
+  /** File name of an uploaded document. */
+  source_name?: string;
+  format?: DocumentFormat;
+  /** How the page was read, for URL sources: "rendered" when a headless browser ran its scripts. */
+  fetch_strategy?: FetchStrategy;
+  /** Pages the text was read from, for URL sources; several when the article was split across pages. */
+  pages?: string[];
+  title: string;
+  bullets: string[];
+  sections?: SummarySection[];
+  options: SummaryOptions;
+  created_at: string;
+  metadata?: PageMetadata;
+  coverage?: SummaryCoverage;
+  /** Passages of the extracted text supporting each bullet; absent from summaries made before citations. */
+  citations?: Citation[][];
+  /** Indexes of the bullets that no passage of the source supports. */
+  unsupported_points?: number[];
+  /** Comparisons only: the synthesis, with the URLs of the sources behind each claim. */
+  comparison?: Comparison;
+  sources?: ComparisonSource[];
+  failed_sources?: FailedSource[];
+  cached?: boolean;
+};
+
+export const SUMMARY_COLUMNS =
+  "id, original_url, title, summary, created_at, source_type, source_name, user_id, workspace_id";
+
+export function toSummaryResponse(row: SummaryRow): SummaryResponse {
+  let stored: StoredSummary = {};
+  try {
+    stored = JSON.parse(row.summary ?? "{}");
+  } catch {}
+  const bullets = Array.isArray(stored?.summary_points)
+    ? stored.summary_points.map((p: unknown) => String(p))
+    : [];
+  return {
+    id: row.id,
+    user_id: row.user_id ?? null,
+    workspace_id: row.workspace_id ?? null,
+    url: row.original_url,
+    source_type: row.source_type ?? "url",
+    ...(row.source_name ? { source_name: row.source_name } : {}),
+    ...(stored?.format ? { format: stored.format } : {}),
+    ...(stored?.fetch_strategy ? { fetch_strategy: stored.fetch_strategy } : {}),
+    ...(Array.isArray(stored?.pages) ? { pages: stored.pages } : {}),
+    title: row.title,
+    bullets,
+    ...(Array.isArray(stored?.sections) ? { sections: stored.sections } : {}),
+    // Rows written before summary options existed used the default format.
+    options: stored?.options ?? DEFAULT_SUMMARY_OPTIONS,
+    created_at: row.created_at,
+    ...(stored?.coverage ? { coverage: stored.coverage } : {}),
+    ...(Array.isArray(stored?.citations) ? { citations: stored.citations } : {}),
+    ...(Array.isArray(stored?.unsupported_points) ? { unsupported_points: stored.unsupported_points } : {}),
+    ...(stored?.comparison ? { comparison: stored.comparison } : {}),
+    ...(Array.isArray(stored?.sources) ? { sources: stored.sources } : {}),
+    ...(Array.isArray(stored?.failed_sources) ? { failed_sources: stored.failed_sources } : {}),
+  };
+}
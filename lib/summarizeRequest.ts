@@ -0,0 +1,125 @@
+import { AppError } from "@/lib/errors";
+import { isUuid } from "@/lib/ids";
+import type { SummarizeSource } from "@/lib/pipeline";
+import { isRenderingEnabled } from "@/lib/render";
+import { parseSummaryOptions, type SummaryOptions } from "@/lib/summaryOptions";
+
+const MAX_TEXT_CHARS = 500_000;
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+/** Body of POST /api/summarize and POST /api/jobs, as JSON or multipart/form-data. */
+export type SummarizeRequest = {
+  source: SummarizeSource;
+  options: SummaryOptions;
+  force: boolean;
+  stream: boolean;
+  workspaceId: string | null;
+};
+
+function parseUrl(input: string | undefined): Extract<SummarizeSource, { type: "url" }> | null {
+  try {
+    const parsed = new URL(input ?? "");
+    if (!/^https?:$/.test(parsed.protocol)) return null;
+    return { type: "url", url: parsed.toString() };
+  } catch {
+    return null;
+  }
+}
+
+function invalid(message: string): AppError {
+  return new AppError("INVALID_REQUEST", { message });
+}
+
+function parseWorkspace(input: unknown): string | null {
+  if (input === undefined || input === null || input === "") return null;
+  if (!isUuid(input)) throw invalid("Paramètre workspace_id invalide");
+  return input;
+}
+
+function parseOptions(input: unknown): SummaryOptions {
+  const options = parseSummaryOptions(input);
+  if (!options.ok) throw invalid(options.error);
+  return options.options;
+}
+
+async function parseJsonRequest(req: Request): Promise<SummarizeRequest> {
+  const body = (await req.json().catch(() => ({}))) as {
+    url?: string;
+    text?: string;
+    format?: string;
+    stream?: boolean;
+    force?: boolean;
+    render?: boolean;
+    options?: unknown;
+    workspace_id?: unknown;
+  };
+  const options = parseOptions(body?.options);
+  const workspaceId = parseWorkspace(body?.workspace_id);
+
+  let source: SummarizeSource | null;
+  const inputUrl = body?.url?.trim();
+  const text = typeof body?.text === "string" ? body.text : undefined;
+  if (inputUrl) {
+    source = parseUrl(inputUrl);
+    if (!source) throw new AppError("INVALID_URL");
+    if (body.render === true) {
+      if (!isRenderingEnabled()) throw invalid("Rendu par navigateur non configuré (RENDERER)");
+      source.render = true;
+    }
+  } else if (text !== undefined) {
+    if (!text.trim()) throw invalid("Paramètre text vide");
+    if (text.length > MAX_TEXT_CHARS) {
+      throw new AppError("PAYLOAD_TOO_LARGE", { details: { max_chars: MAX_TEXT_CHARS } });
+    }
+    source = { type: "text", text, format: body.format === "markdown" ? "markdown" : "text" };
+  } else {
+    throw invalid("Paramètre url manquant");
+  }
+
+  return {
+    source,
+    options,
+    force: body.force === true,
+    workspaceId,
+    stream: body.stream === true || (req.headers.get("accept") ?? "").includes("text/event-stream"),
+  };
+}
+
+async function parseFormRequest(req: Request): Promise<SummarizeRequest> {
+  const form = await req.formData().catch(() => null);
+  const file = form?.get("file");
+  if (!form || !(file instanceof File)) throw invalid("Paramètre file manquant");
+  if (file.size === 0) throw invalid("Fichier vide");
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new AppError("PAYLOAD_TOO_LARGE", { details: { max_bytes: MAX_UPLOAD_BYTES } });
+  }
+
+  let rawOptions: unknown;
+  const optionsField = form.get("options");
+  if (typeof optionsField === "string" && optionsField) {
+    try {
+      rawOptions = JSON.parse(optionsField);
+    } catch {
+      throw invalid("Paramètre options invalide");
+    }
+  }
+
+  return {
+    source: {
+      type: "file",
+      data: new Uint8Array(await file.arrayBuffer()),
+      name: file.name,
+      contentType: file.type,
+    },
+    options: parseOptions(rawOptions),
+    force: form.get("force") === "true",
+    workspaceId: parseWorkspace(form.get("workspace_id")),
+    stream: form.get("stream") === "true" || (req.headers.get("accept") ?? "").includes("text/event-stream"),
+  };
+}
+
+/** Reads a URL, pasted text or uploaded file to summarize; throws AppErrors for invalid input. */
+export function parseSummarizeRequest(req: Request): Promise<SummarizeRequest> {
+  const isForm = (req.headers.get("content-type") ?? "").includes("multipart/form-data");
+  return isForm ? parseFormRequest(req) : parseJsonRequest(req);
+}
@@ -0,0 +1,97 @@
+export const SUMMARY_MODES = ["bullets", "tldr", "abstract", "sections"] as const;
+export const SUMMARY_TONES = ["neutral", "formal", "casual", "technical"] as const;
+export const SUMMARY_LANGUAGES = ["fr", "en", "es", "de", "it", "pt"] as const;
+
+export type SummaryMode = (typeof SUMMARY_MODES)[number];
+export type SummaryTone = (typeof SUMMARY_TONES)[number];
+export type SummaryLanguage = (typeof SUMMARY_LANGUAGES)[number];
+
+export type SummaryOptions = {
+  mode: SummaryMode;
+  /** Number of key points (bullets mode) or sections (sections mode). */
+  bullets: number;
+  language: SummaryLanguage;
+  tone: SummaryTone;
+};
+
+export const MIN_BULLETS = 1;
+export const MAX_BULLETS = 10;
+
+export const DEFAULT_SUMMARY_OPTIONS: SummaryOptions = {
+  mode: "bullets",
+  bullets: 3,
+  language: "fr",
+  tone: "neutral",
+};
+
+export const MODE_LABELS: Record<SummaryMode, string> = {
+  bullets: "Points clés",
+  tldr: "TL;DR",
+  abstract: "Résumé rédigé",
+  sections: "Sections",
+};
+
+export const TONE_LABELS: Record<SummaryTone, string> = {
+  neutral: "Neutre",
+  formal: "Formel",
+  casual: "Décontracté",
+  technical: "Technique",
+};
+
+export const LANGUAGE_LABELS: Record<SummaryLanguage, string> = {
+  fr: "Français",
+  en: "English",
+  es: "Español",
+  de: "Deutsch",
+  it: "Italiano",
+  pt: "Português",
+};
+
+export type SummaryOptionsResult = { ok: true; options: SummaryOptions } | { ok: false; error: string };
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === "string" && (values as readonly string[]).includes(value);
+}
+
+/** Validates the `options` field of a request body, filling in defaults for missing keys. */
+export function parseSummaryOptions(input: unknown): SummaryOptionsResult {
+  if (input === undefined || input === null) return { ok: true, options: { ...DEFAULT_SUMMARY_OPTIONS } };
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { ok: false, error: "Paramètre options invalide" };
+  }
+  const raw = input as Record<string, unknown>;
+  const options = { ...DEFAULT_SUMMARY_OPTIONS };
+
+  if (raw.mode !== undefined) {
+    if (!isOneOf(SUMMARY_MODES, raw.mode)) {
+      return { ok: false, error: `Option mode invalide (${SUMMARY_MODES.join(", ")})` };
+    }
+    options.mode = raw.mode;
+  }
+  if (raw.bullets !== undefined) {
+    const bullets = raw.bullets;
+    if (typeof bullets !== "number" || !Number.isInteger(bullets) || bullets < MIN_BULLETS || bullets > MAX_BULLETS) {
+      return { ok: false, error: `Option bullets invalide (entier de ${MIN_BULLETS} à ${MAX_BULLETS})` };
+    }
+    options.bullets = bullets;
+  }
+  if (raw.language !== undefined) {
+    if (!isOneOf(SUMMARY_LANGUAGES, raw.language)) {
+      return { ok: false, error: `Option language invalide (${SUMMARY_LANGUAGES.join(", ")})` };
+    }
+    options.language = raw.language;
+  }
+  if (raw.tone !== undefined) {
+    if (!isOneOf(SUMMARY_TONES, raw.tone)) {
+      return { ok: false, error: `Option tone invalide (${SUMMARY_TONES.join(", ")})` };
+    }
+    options.tone = raw.tone;
+  }
+  return { ok: true, options };
+}
+
+/** Stable string identifying the options, part of the summary cache key. */
+export function summaryOptionsKey(options: SummaryOptions): string {
+  const bullets = options.mode === "bullets" || options.mode === "sections" ? options.bullets : 0;
+  return `${options.mode}:${bullets}:${options.language}:${options.tone}`;
+}
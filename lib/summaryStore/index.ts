@@ -0,0 +1,53 @@
+import { AppError } from "@/lib/errors";
+import { createSqliteSummaryStore } from "./sqlite";
+import { createSupabaseSummaryStore } from "./supabase";
+import type { SummaryStore } from "./types";
+
+export type {
+  NewSummary,
+  NewSummaryQuestion,
+  SearchRow,
+  SummaryFilter,
+  SummaryQuestion,
+  SummaryScope,
+  SummarySearch,
+  SummaryStore,
+  SummaryUpdate,
+} from "./types";
+
+const DEFAULT_SQLITE_PATH = ".data/summaries.db";
+
+let store: SummaryStore | null = null;
+
+function createStore(name: string): SummaryStore {
+  switch (name) {
+    case "supabase":
+      return createSupabaseSummaryStore();
+    case "sqlite":
+      return createSqliteSummaryStore(process.env.SUMMARIES_SQLITE_PATH?.trim() || DEFAULT_SQLITE_PATH);
+    default:
+      throw new Error(`Stockage de résumés inconnu: ${name}`);
+  }
+}
+
+export function getSummaryStoreName(): string {
+  return process.env.SUMMARY_STORE?.trim() || "supabase";
+}
+
+/** The store named by SUMMARY_STORE (supabase | sqlite), created once per process. */
+export function getSummaryStore(): SummaryStore {
+  store ??= createStore(getSummaryStoreName());
+  return store;
+}
+
+/**
+ * Batches and watches keep summary ids in Supabase tables, with foreign keys
+ * to its `summaries` table, so their summaries must be stored there too.
+ */
+export function requireSupabaseSummaries(feature: string): void {
+  if (getSummaryStoreName() === "supabase") return;
+  throw new AppError("SERVICE_UNAVAILABLE", {
+    message: `${feature} nécessite SUMMARY_STORE=supabase`,
+    retryable: false,
+  });
+}
@@ -0,0 +1,418 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import Database from "better-sqlite3";
+import type { Session } from "@/lib/auth";
+import { AppError } from "@/lib/errors";
+import type { StoredSummary, SummaryRow } from "@/lib/summaries";
+import { isWorkspaceMember } from "@/lib/workspaces";
+import type { NewSummary, SearchRow, SummaryQuestion, SummaryStore } from "./types";
+
+/**
+ * Schema versions, applied in order; `pragma user_version` records how many
+ * ran. Append new versions, never edit one that shipped.
+ */
+const MIGRATIONS = [
+  `create table summaries (
+     id integer primary key autoincrement,
+     user_id text not null,
+     workspace_id text,
+     original_url text,
+     canonical_url text,
+     domain text,
+     source_type text not null default 'url' check (source_type in ('url', 'text', 'file')),
+     source_name text,
+     title text not null,
+     summary text not null,
+     content_hash text,
+     options_key text,
+     source_text text,
+     created_at text not null
+   );
+   create index summaries_user_id_idx on summaries (user_id, id desc);
+   create index summaries_workspace_id_idx on summaries (workspace_id, id desc);
+   create index summaries_cache_lookup_idx on summaries (canonical_url, content_hash, options_key, created_at desc);`,
+  // Keyword search; points_text holds the points, which are JSON-encoded in summary.
+  `alter table summaries add column points_text text not null default '';
+   create virtual table summaries_fts using fts5(
+     title, points_text, source_text,
+     content = 'summaries', content_rowid = 'id', tokenize = 'unicode61 remove_diacritics 2'
+   );
+   create trigger summaries_fts_insert after insert on summaries begin
+     insert into summaries_fts (rowid, title, points_text, source_text)
+     values (new.id, new.title, new.points_text, coalesce(new.source_text, ''));
+   end;
+   create trigger summaries_fts_delete after delete on summaries begin
+     insert into summaries_fts (summaries_fts, rowid, title, points_text, source_text)
+     values ('delete', old.id, old.title, old.points_text, coalesce(old.source_text, ''));
+   end;
+   create trigger summaries_fts_update after update on summaries begin
+     insert into summaries_fts (summaries_fts, rowid, title, points_text, source_text)
+     values ('delete', old.id, old.title, old.points_text, coalesce(old.source_text, ''));
+     insert into summaries_fts (rowid, title, points_text, source_text)
+     values (new.id, new.title, new.points_text, coalesce(new.source_text, ''));
+   end;`,
+  // Comparisons; SQLite cannot change a check constraint, so the table is copied.
+  `create table summaries_v3 (
+     id integer primary key autoincrement,
+     user_id text not null,
+     workspace_id text,
+     original_url text,
+     canonical_url text,
+     domain text,
+     source_type text not null default 'url' check (source_type in ('url', 'text', 'file', 'comparison')),
+     source_name text,
+     title text not null,
+     summary text not null,
+     content_hash text,
+     options_key text,
+     source_text text,
+     created_at text not null,
+     points_text text not null default ''
+   );
+   insert into summaries_v3 select * from summaries;
+   drop table summaries;
+   alter table summaries_v3 rename to summaries;
+   create index summaries_user_id_idx on summaries (user_id, id desc);
+   create index summaries_workspace_id_idx on summaries (workspace_id, id desc);
+   create index summaries_cache_lookup_idx on summaries (canonical_url, content_hash, options_key, created_at desc);
+   create trigger summaries_fts_insert after insert on summaries begin
+     insert into summaries_fts (rowid, title, points_text, source_text)
+     values (new.id, new.title, new.points_text, coalesce(new.source_text, ''));
+   end;
+   create trigger summaries_fts_delete after delete on summaries begin
+     insert into summaries_fts (summaries_fts, rowid, title, points_text, source_text)
+     values ('delete', old.id, old.title, old.points_text, coalesce(old.source_text, ''));
+   end;
+   create trigger summaries_fts_update after update on summaries begin
+     insert into summaries_fts (summaries_fts, rowid, title, points_text, source_text)
+     values ('delete', old.id, old.title, old.points_text, coalesce(old.source_text, ''));
+     insert into summaries_fts (rowid, title, points_text, source_text)
+     values (new.id, new.title, new.points_text, coalesce(new.source_text, ''));
+   end;`,
+  `create table summary_questions (
+     id integer primary key autoincrement,
+     summary_id integer not null,
+     user_id text not null,
+     question text not null,
+     answer text not null,
+     citations text not null default '[]',
+     created_at text not null
+   );
+   create index summary_questions_summary_idx on summary_questions (summary_id, user_id, id);
+   create trigger summary_questions_cascade after delete on summaries begin
+     delete from summary_questions where summary_id = old.id;
+   end;`,
+];
+
+const SUMMARY_COLUMNS =
+  "s.id, s.original_url, s.title, s.summary, s.created_at, s.source_type, s.source_name, s.user_id, s.workspace_id";
+const DETAIL_COLUMNS = `${SUMMARY_COLUMNS}, s.canonical_url, s.content_hash`;
+const QUESTION_COLUMNS = "id, summary_id, question, answer, citations, created_at";
+
+function migrate(db: Database.Database): void {
+  const version = db.pragma("user_version", { simple: true }) as number;
+  if (version >= MIGRATIONS.length) return;
+  db.transaction(() => {
+    for (const migration of MIGRATIONS.slice(version)) db.exec(migration);
+    db.pragma(`user_version = ${MIGRATIONS.length}`);
+  }).immediate();
+}
+
+/** Same host as the domain column of migration 0006. */
+function domainOf(url: string | null): string | null {
+  return url?.match(/^[a-zA-Z]+:\/\/(?:www\.)?([^/:?#]+)/)?.[1].toLowerCase() ?? null;
+}
+
+function pointsText(summary: string): string {
+  let stored: StoredSummary = {};
+  try {
+    stored = JSON.parse(summary);
+  } catch {}
+  const points = Array.isArray(stored?.summary_points)
+    ? stored.summary_points.map((point: unknown) => String(point))
+    : (stored?.sections ?? []).flatMap((section) => section.points);
+  return points.join("\n");
+}
+
+/** Words of a search as an FTS5 query: each is matched as a whole term and all of them must appear. */
+function ftsQuery(q: string): string | null {
+  const words = q.match(/[\p{L}\p{N}]+/gu);
+  return words ? words.map((word) => `"${word}"`).join(" ") : null;
+}
+
+function failed(cause: unknown): AppError {
+  return new AppError("PERSISTENCE_FAILED", { cause });
+}
+
+/**
+ * Summaries in a local SQLite file, for development and tests without a
+ * Supabase project. The access rules of the summaries table are applied here;
+ * workspace membership is still read from Supabase, and only when a summary of
+ * someone else's workspace is asked for. No embeddings: search is by keyword.
+ */
+export function createSqliteSummaryStore(path: string): SummaryStore {
+  mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.pragma("busy_timeout = 5000");
+  migrate(db);
+
+  const insertRow = db.prepare(
+    `insert into summaries (user_id, workspace_id, original_url, canonical_url, domain, source_type, source_name, title,
+       summary, points_text, content_hash, options_key, source_text, created_at)
+     values (@user_id, @workspace_id, @original_url, @canonical_url, @domain, @source_type, @source_name, @title,
+       @summary, @points_text, @content_hash, @options_key, @source_text, @created_at)`
+  );
+  const selectById = db.prepare<[number], SummaryRow>(`select ${DETAIL_COLUMNS} from summaries s where s.id = ?`);
+
+  function toInsert(summary: NewSummary) {
+    return {
+      user_id: summary.user_id,
+      workspace_id: summary.workspace_id,
+      original_url: summary.original_url,
+      canonical_url: summary.canonical_url,
+      domain: domainOf(summary.original_url),
+      source_type: summary.source_type,
+      source_name: summary.source_name,
+      title: summary.title,
+      summary: summary.summary,
+      points_text: pointsText(summary.summary),
+      content_hash: summary.content_hash ?? null,
+      options_key: summary.options_key ?? null,
+      source_text: summary.source_text ?? null,
+      created_at: new Date(summary.created_at ?? Date.now()).toISOString(),
+    };
+  }
+
+  const insertMany = db.transaction((summaries: NewSummary[]) => {
+    for (const summary of summaries) insertRow.run(toInsert(summary));
+  });
+
+  /** Who may read a row: its owner, and the members of its workspace. */
+  async function canRead(session: Session, row: { user_id?: string | null; workspace_id?: string | null }) {
+    if (row.user_id === session.user.id) return true;
+    return Boolean(row.workspace_id) && (await isWorkspaceMember(session, row.workspace_id!));
+  }
+
+  /**
+   * Rows of the caller, or of a workspace once membership is checked; null when
+   * they are not a member. `privateOnly` leaves out the caller's workspace summaries.
+   */
+  async function scopeCondition(
+    session: Session,
+    workspaceId: string | null | undefined,
+    privateOnly = false
+  ): Promise<{ sql: string; values: Record<string, unknown> } | null> {
+    if (workspaceId) {
+      if (!(await isWorkspaceMember(session, workspaceId))) return null;
+      return { sql: "s.workspace_id = @workspace_id", values: { workspace_id: workspaceId } };
+    }
+    const sql = privateOnly ? "s.user_id = @user_id and s.workspace_id is null" : "s.user_id = @user_id";
+    return { sql, values: { user_id: session.user.id } };
+  }
+
+  /** Citations are stored as JSON text. */
+  function toQuestion(row: Omit<SummaryQuestion, "citations"> & { citations: string }): SummaryQuestion {
+    return { ...row, citations: JSON.parse(row.citations) };
+  }
+
+  function run<T>(operation: () => T): T {
+    try {
+      return operation();
+    } catch (e) {
+      throw failed(e);
+    }
+  }
+
+  return {
+    name: "sqlite",
+    semanticSearch: false,
+
+    async findCached(session, scope, { canonicalUrl, contentHash, optionsKey }) {
+      const condition = await scopeCondition(session, scope.workspaceId, true);
+      if (!condition) return null;
+      return run(
+        () =>
+          db
+            .prepare<Record<string, unknown>, SummaryRow>(
+              `select ${SUMMARY_COLUMNS} from summaries s
+               where ${condition.sql} and s.canonical_url is @canonical_url and s.content_hash = @content_hash
+                 and s.options_key = @options_key
+               order by s.created_at desc limit 1`
+            )
+            .get({
+              ...condition.values,
+              canonical_url: canonicalUrl,
+              content_hash: contentHash,
+              options_key: optionsKey,
+            }) ?? null
+      );
+    },
+
+    async insert(session, summary) {
+      if (summary.workspace_id && !(await isWorkspaceMember(session, summary.workspace_id))) {
+        throw new AppError("FORBIDDEN");
+      }
+      return run(() => {
+        const { lastInsertRowid } = insertRow.run(toInsert({ ...summary, user_id: session.user.id }));
+        return selectById.get(Number(lastInsertRowid))!;
+      });
+    },
+
+    async insertMany(session, summaries) {
+      for (const workspaceId of new Set(summaries.map((summary) => summary.workspace_id))) {
+        if (workspaceId && !(await isWorkspaceMember(session, workspaceId))) throw new AppError("FORBIDDEN");
+      }
+      run(() => insertMany(summaries.map((summary) => ({ ...summary, user_id: session.user.id }))));
+    },
+
+    async list(session, filter) {
+      const condition = await scopeCondition(session, filter.workspaceId);
+      if (!condition) return [];
+      const where = [condition.sql];
+      const params: Record<string, unknown> = { ...condition.values, limit: filter.limit };
+      if (filter.beforeId !== undefined) {
+        where.push("s.id < @before_id");
+        params.before_id = filter.beforeId;
+      }
+      if (filter.domain) {
+        where.push("s.domain = @domain");
+        params.domain = filter.domain;
+      }
+      if (filter.from) {
+        where.push("s.created_at >= @from");
+        params.from = filter.from.toISOString();
+      }
+      if (filter.to) {
+        where.push("s.created_at < @to");
+        params.to = filter.to.toISOString();
+      }
+      if (filter.ids) {
+        where.push(`s.id in (${filter.ids.map(Number).join(", ") || "null"})`);
+      }
+      return run(() =>
+        db
+          .prepare<Record<string, unknown>, SummaryRow>(
+            `select ${SUMMARY_COLUMNS} from summaries s where ${where.join(" and ")} order by s.id desc limit @limit`
+          )
+          .all(params)
+      );
+    },
+
+    async listCreatedAt(session, scope, dates) {
+      const condition = await scopeCondition(session, scope.workspaceId, true);
+      if (!condition || dates.length === 0) return [];
+      const isoDates = dates.map((date) => new Date(date).toISOString());
+      return run(() =>
+        db
+          .prepare<Record<string, unknown>, { title: string; created_at: string }>(
+            `select s.title, s.created_at from summaries s
+             where ${condition.sql} and s.created_at in (${isoDates.map((_, i) => `@date${i}`).join(", ")})`
+          )
+          .all({ ...condition.values, ...Object.fromEntries(isoDates.map((date, i) => [`date${i}`, date])) })
+      );
+    },
+
+    async get(session, id) {
+      const row = run(() => selectById.get(id));
+      return row && (await canRead(session, row)) ? row : null;
+    },
+
+    async getSourceText(session, id) {
+      const row = run(() =>
+        db
+          .prepare<[number], { user_id: string; workspace_id: string | null; source_text: string | null }>(
+            "select user_id, workspace_id, source_text from summaries where id = ?"
+          )
+          .get(id)
+      );
+      return row && (await canRead(session, row)) ? row.source_text : null;
+    },
+
+    async update(session, id, update) {
+      return run(() => {
+        const sets: string[] = [];
+        const values: Record<string, unknown> = { id, user_id: session.user.id };
+        if (update.title !== undefined) {
+          sets.push("title = @title");
+          values.title = update.title;
+        }
+        if (update.summary !== undefined) {
+          sets.push("summary = @summary", "points_text = @points_text");
+          values.summary = update.summary;
+          values.points_text = pointsText(update.summary);
+        }
+        const row = selectById.get(id);
+        if (!row || row.user_id !== session.user.id) return null;
+        if (sets.length) {
+          db.prepare(`update summaries set ${sets.join(", ")} where id = @id and user_id = @user_id`).run(values);
+        }
+        return selectById.get(id) ?? null;
+      });
+    },
+
+    async delete(session, id) {
+      return run(
+        () => db.prepare("delete from summaries where id = ? and user_id = ?").run(id, session.user.id).changes > 0
+      );
+    },
+
+    async search(session, search) {
+      const match = ftsQuery(search.q);
+      if (!search.keyword || !match) return [];
+      const condition = await scopeCondition(session, search.workspaceId);
+      if (!condition) return [];
+      return run(() =>
+        db
+          .prepare<Record<string, unknown>, SearchRow>(
+            `select ${SUMMARY_COLUMNS},
+               -bm25(summaries_fts, 4.0, 2.0, 1.0) as score,
+               highlight(summaries_fts, 0, '<mark>', '</mark>') as title_highlight,
+               snippet(summaries_fts, -1, '<mark>', '</mark>', ' … ', 24) as snippet
+             from summaries_fts join summaries s on s.id = summaries_fts.rowid
+             where summaries_fts match @match and ${condition.sql}
+             order by bm25(summaries_fts, 4.0, 2.0, 1.0) limit @limit`
+          )
+          .all({ ...condition.values, match, limit: search.limit })
+      );
+    },
+
+    async listQuestions(session, summaryId) {
+      return run(() =>
+        db
+          .prepare<[number, string], Omit<SummaryQuestion, "citations"> & { citations: string }>(
+            `select ${QUESTION_COLUMNS} from summary_questions where summary_id = ? and user_id = ? order by id`
+          )
+          .all(summaryId, session.user.id)
+          .map(toQuestion)
+      );
+    },
+
+    async addQuestion(session, question) {
+      const summary = run(() => selectById.get(question.summary_id));
+      if (!summary || !(await canRead(session, summary))) throw new AppError("NOT_FOUND");
+      return run(() => {
+        const { lastInsertRowid } = db
+          .prepare(
+            `insert into summary_questions (summary_id, user_id, question, answer, citations, created_at)
+             values (?, ?, ?, ?, ?, ?)`
+          )
+          .run(
+            question.summary_id,
+            session.user.id,
+            question.question,
+            question.answer,
+            JSON.stringify(question.citations),
+            new Date().toISOString()
+          );
+        return toQuestion(
+          db
+            .prepare<[number], Omit<SummaryQuestion, "citations"> & { citations: string }>(
+              `select ${QUESTION_COLUMNS} from summary_questions where id = ?`
+            )
+            .get(Number(lastInsertRowid))!
+        );
+      });
+    },
+  };
+}
@@ -0,0 +1,145 @@
+import { AppError } from "@/lib/errors";
+import { SUMMARY_COLUMNS, type SummaryRow } from "@/lib/summaries";
+import type { SearchRow, SummaryQuestion, SummaryStore } from "./types";
+
+const DETAIL_COLUMNS = `${SUMMARY_COLUMNS}, canonical_url, content_hash`;
+const QUESTION_COLUMNS = "id, summary_id, question, answer, citations, created_at";
+
+function failed(cause: unknown): AppError {
+  return new AppError("PERSISTENCE_FAILED", { cause });
+}
+
+/**
+ * Summaries in the summaries table (supabase/migrations), queried with the
+ * caller's client: row level security decides what they see and change.
+ */
+export function createSupabaseSummaryStore(): SummaryStore {
+  return {
+    name: "supabase",
+    semanticSearch: true,
+
+    async findCached(session, scope, { canonicalUrl, contentHash, optionsKey }) {
+      const base = session.db.from("summaries").select(SUMMARY_COLUMNS);
+      const query = scope.workspaceId
+        ? base.eq("workspace_id", scope.workspaceId)
+        : base.eq("user_id", scope.userId).is("workspace_id", null);
+      const { data, error } = await (canonicalUrl
+        ? query.eq("canonical_url", canonicalUrl)
+        : query.is("canonical_url", null)
+      )
+        .eq("content_hash", contentHash)
+        .eq("options_key", optionsKey)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw failed(error);
+      return data as SummaryRow | null;
+    },
+
+    async insert(session, summary) {
+      const { data, error } = await session.db.from("summaries").insert(summary).select(SUMMARY_COLUMNS).single();
+      if (error) throw failed(error);
+      return data as SummaryRow;
+    },
+
+    async insertMany(session, summaries) {
+      const { error } = await session.db.from("summaries").insert(summaries);
+      if (error) throw failed(error);
+    },
+
+    async list(session, filter) {
+      let request = session.db
+        .from("summaries")
+        .select(SUMMARY_COLUMNS)
+        .order("id", { ascending: false })
+        .limit(filter.limit);
+      request = filter.workspaceId
+        ? request.eq("workspace_id", filter.workspaceId)
+        : request.eq("user_id", session.user.id);
+      if (filter.beforeId !== undefined) request = request.lt("id", filter.beforeId);
+      if (filter.domain) request = request.eq("domain", filter.domain);
+      if (filter.from) request = request.gte("created_at", filter.from.toISOString());
+      if (filter.to) request = request.lt("created_at", filter.to.toISOString());
+      if (filter.ids) request = request.in("id", filter.ids);
+      const { data, error } = await request;
+      if (error) throw failed(error);
+      return (data ?? []) as SummaryRow[];
+    },
+
+    async listCreatedAt(session, scope, dates) {
+      let query = session.db.from("summaries").select("title, created_at").in("created_at", dates);
+      query = scope.workspaceId
+        ? query.eq("workspace_id", scope.workspaceId)
+        : query.eq("user_id", scope.userId).is("workspace_id", null);
+      const { data, error } = await query;
+      if (error) throw failed(error);
+      return (data ?? []) as { title: string; created_at: string }[];
+    },
+
+    async get(session, id) {
+      const { data, error } = await session.db.from("summaries").select(DETAIL_COLUMNS).eq("id", id).maybeSingle();
+      if (error) throw failed(error);
+      return data as SummaryRow | null;
+    },
+
+    async getSourceText(session, id) {
+      const { data, error } = await session.db.from("summaries").select("source_text").eq("id", id).maybeSingle();
+      if (error) throw failed(error);
+      return data?.source_text ?? null;
+    },
+
+    async update(session, id, update) {
+      const { data, error } = await session.db
+        .from("summaries")
+        .update(update)
+        .eq("id", id)
+        .select(SUMMARY_COLUMNS)
+        .maybeSingle();
+      if (error) throw failed(error);
+      return data as SummaryRow | null;
+    },
+
+    async delete(session, id) {
+      const { data, error } = await session.db.from("summaries").delete().eq("id", id).select("id");
+      if (error) throw failed(error);
+      return Boolean(data?.length);
+    },
+
+    // search_summaries, migration 0008.
+    async search(session, search) {
+      const { data, error } = await session.db.rpc("search_summaries", {
+        p_query: search.q,
+        p_user_id: session.user.id,
+        p_workspace_id: search.workspaceId,
+        p_keyword: search.keyword,
+        p_embedding: search.embedding,
+        p_min_similarity: search.minSimilarity,
+        p_limit: search.limit,
+      });
+      if (error) throw failed(error);
+      return (data ?? []) as SearchRow[];
+    },
+
+    // summary_questions, migration 0014.
+    async listQuestions(session, summaryId) {
+      const { data, error } = await session.db
+        .from("summary_questions")
+        .select(QUESTION_COLUMNS)
+        .eq("summary_id", summaryId)
+        .eq("user_id", session.user.id)
+        .order("id", { ascending: true });
+      if (error) throw failed(error);
+      return (data ?? []) as SummaryQuestion[];
+    },
+
+    async addQuestion(session, question) {
+      const { data, error } = await session.db
+        .from("summary_questions")
+        .insert({ ...question, user_id: session.user.id })
+        .select(QUESTION_COLUMNS)
+        .single();
+      if (error) throw failed(error);
+      return data as SummaryQuestion;
+    },
+  };
+}
@@ -0,0 +1,110 @@
+import type { Session } from "@/lib/auth";
+import type { Citation } from "@/lib/citations";
+import type { SourceType, SummaryRow } from "@/lib/summaries";
+
+/** Summaries a lookup may reuse: the user's private ones, or those of a workspace. */
+export type SummaryScope = { userId: string; workspaceId: string | null };
+
+export type NewSummary = {
+  user_id: string;
+  workspace_id: string | null;
+  original_url: string | null;
+  canonical_url: string | null;
+  source_type: SourceType;
+  source_name: string | null;
+  title: string;
+  /** JSON-encoded StoredSummary */
+  summary: string;
+  content_hash?: string | null;
+  options_key?: string | null;
+  /** Extracted text, kept to compare page versions and for search. */
+  source_text?: string | null;
+  embedding?: number[] | null;
+  /** Now when absent; imports keep the original date. */
+  created_at?: string;
+};
+
+/** Filters of the history, newest first. */
+export type SummaryFilter = {
+  /** Summaries shared with this workspace instead of the caller's own. */
+  workspaceId?: string;
+  /** Only ids below this one. */
+  beforeId?: number;
+  /** Host name without `www.`. */
+  domain?: string;
+  from?: Date;
+  to?: Date;
+  ids?: number[];
+  limit: number;
+};
+
+export type SummaryUpdate = {
+  title?: string;
+  /** JSON-encoded StoredSummary */
+  summary?: string;
+  /** Ignored by stores without semantic search. */
+  embedding?: number[] | null;
+};
+
+export type SummarySearch = {
+  q: string;
+  workspaceId: string | null;
+  /** Match the words of `q`; false for semantic search only. */
+  keyword: boolean;
+  embedding: number[] | null;
+  minSimilarity: number;
+  limit: number;
+};
+
+export type SearchRow = SummaryRow & {
+  score: number;
+  title_highlight: string;
+  snippet: string;
+};
+
+/** Follow-up question about a summarized page, with the answer and the passages it quotes. */
+export type NewSummaryQuestion = {
+  summary_id: number;
+  question: string;
+  answer: string;
+  citations: Citation[];
+};
+
+export type SummaryQuestion = NewSummaryQuestion & { id: number; created_at: string };
+
+/**
+ * Where summaries are kept. Every method acts as `session.user`: it only sees
+ * their own summaries and those of their workspaces, and only changes their own.
+ * Failures are PERSISTENCE_FAILED errors.
+ */
+export interface SummaryStore {
+  readonly name: string;
+  /** Whether search can compare embeddings; keyword search is always available. */
+  readonly semanticSearch: boolean;
+  /** Latest summary of `scope` with the same page, content and options. */
+  findCached(
+    session: Session,
+    scope: SummaryScope,
+    match: { canonicalUrl: string | null; contentHash: string; optionsKey: string }
+  ): Promise<SummaryRow | null>;
+  insert(session: Session, summary: NewSummary): Promise<SummaryRow>;
+  insertMany(session: Session, summaries: NewSummary[]): Promise<void>;
+  list(session: Session, filter: SummaryFilter): Promise<SummaryRow[]>;
+  /** Titles and dates of the summaries of `scope` created at one of `dates`, to skip imported duplicates. */
+  listCreatedAt(
+    session: Session,
+    scope: SummaryScope,
+    dates: string[]
+  ): Promise<{ title: string; created_at: string }[]>;
+  /** Includes canonical_url and content_hash. */
+  get(session: Session, id: number): Promise<SummaryRow | null>;
+  getSourceText(session: Session, id: number): Promise<string | null>;
+  /** Null when the summary does not exist or is not the caller's. */
+  update(session: Session, id: number, update: SummaryUpdate): Promise<SummaryRow | null>;
+  /** False when the summary does not exist or is not the caller's. */
+  delete(session: Session, id: number): Promise<boolean>;
+  search(session: Session, search: SummarySearch): Promise<SearchRow[]>;
+  /** The caller's questions about a summary, oldest first; deleted with the summary. */
+  listQuestions(session: Session, summaryId: number): Promise<SummaryQuestion[]>;
+  addQuestion(session: Session, question: NewSummaryQuestion): Promise<SummaryQuestion>;
+}
@@ -0,0 +1,18 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+let adminClient: SupabaseClient | null = null;
+
+/**
+ * Service-role client for server-only tables (API keys, usage, rate limits)
+ * that the anon key cannot reach. Never import this from client components.
+ */
+export function getSupabaseAdmin(): SupabaseClient {
+  if (adminClient) return adminClient;
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY. Please set them in your environment.");
+  }
+  adminClient = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+  return adminClient;
+}
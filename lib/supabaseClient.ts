@@ -1,12 +1,26 @@
-import { createClient } from "@supabase/supabase-js";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error(
-    "Missing NEXT_PUBLIC_SUPABASE_URL or NEXT_PUBLIC_SUPABASE_ANON_KEY. Please set them in your environment."
-  );
+function supabaseConfig(): { url: string; anonKey: string } {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!url || !anonKey) {
+    throw new Error(
+      "Missing NEXT_PUBLIC_SUPABASE_URL or NEXT_PUBLIC_SUPABASE_ANON_KEY. Please set them in your environment."
+    );
+  }
+  return { url, anonKey };
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+/**
+ * Client for a single request. With an access token, queries run as that user
+ * and row level security applies; without, it only serves Supabase Auth calls.
+ * Sessions are never persisted, so a client never leaks into another request.
+ * Throws when Supabase is not configured, which only matters once it is used.
+ */
+export function createUserClient(accessToken?: string): SupabaseClient {
+  const { url, anonKey } = supabaseConfig();
+  return createClient(url, anonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    ...(accessToken ? { global: { headers: { Authorization: `Bearer ${accessToken}` } } } : {}),
+  });
+}
@@ -0,0 +1,77 @@
+import { sessionForUser } from "@/lib/auth";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { AppError, toAppError } from "@/lib/errors";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import { checkWatch, recordWatchFailure, type WatchRow } from "@/lib/watches";
+
+/** A claimed watch is left alone by other schedulers for this long. */
+const CLAIM_LOCK_MS = 10 * 60 * 1000;
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timeout);
+      resolve();
+    });
+  });
+}
+
+async function claimDueWatches(limit: number): Promise<WatchRow[]> {
+  const { data, error } = await getSupabaseAdmin().rpc("claim_due_watches", {
+    p_limit: limit,
+    p_lock_ms: CLAIM_LOCK_MS,
+  });
+  if (error) throw new AppError("PERSISTENCE_FAILED", { message: "Pages suivies indisponibles", cause: error });
+  return (data ?? []) as WatchRow[];
+}
+
+/** Checks the watches that are due, WATCH_CONCURRENCY at a time. Returns how many were checked. */
+export async function checkDueWatches(): Promise<number> {
+  const concurrency = envInt("WATCH_CONCURRENCY", 2);
+  const watches = await claimDueWatches(concurrency * 5);
+  await mapWithConcurrency(watches, concurrency, async (watch) => {
+    // Checks run as the owner, so row level security still applies.
+    const session = sessionForUser({ id: watch.user_id, email: null });
+    try {
+      const result = await checkWatch(session, watch);
+      console.info(`[watches] ${watch.url}: ${result === "changed" ? "nouvelle version" : "inchangée"}`);
+    } catch (e) {
+      const error = toAppError(e);
+      console.warn(`[watches] vérification de ${watch.url} impossible (${error.code})`);
+      await recordWatchFailure(session, watch, error).catch((e) => {
+        console.warn(`[watches] enregistrement de l'échec de ${watch.url} impossible`, e);
+      });
+    }
+  });
+  return watches.length;
+}
+
+/** Checks due watches every WATCH_POLL_SECONDS until `signal` aborts. */
+export async function runWatchScheduler({
+  signal,
+  pollIntervalMs = envInt("WATCH_POLL_SECONDS", 60) * 1000,
+}: { signal?: AbortSignal; pollIntervalMs?: number } = {}): Promise<void> {
+  while (!signal?.aborted) {
+    try {
+      await checkDueWatches();
+    } catch (e) {
+      console.error("[watches] pages suivies indisponibles", e);
+    }
+    await sleep(pollIntervalMs, signal);
+  }
+}
+
+let inProcessScheduler: Promise<void> | null = null;
+
+/** Starts the scheduler inside the Next.js server process, once. */
+export function startInProcessWatchScheduler(): void {
+  if (inProcessScheduler) return;
+  console.info("[watches] planificateur démarré dans le serveur");
+  inProcessScheduler = runWatchScheduler();
+}
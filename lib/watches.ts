@@ -0,0 +1,280 @@
+import type { Session } from "@/lib/auth";
+import { hashContent } from "@/lib/cache";
+import { diffLines } from "@/lib/diff";
+import { AppError, type ErrorBody } from "@/lib/errors";
+import type { LLMProvider } from "@/lib/llm";
+import { runSummarizePipeline } from "@/lib/pipeline";
+import { scrapeDocument } from "@/lib/scrape";
+import { toSummaryResponse } from "@/lib/summaries";
+import { summarizeChanges } from "@/lib/summarize";
+import { getSummaryStore, requireSupabaseSummaries } from "@/lib/summaryStore";
+import type { SummaryOptions } from "@/lib/summaryOptions";
+import { normalizeUrl } from "@/lib/url";
+import { notifyWebhooks } from "@/lib/webhooks";
+
+export const MIN_WATCH_INTERVAL_MINUTES = 15;
+export const MAX_WATCH_INTERVAL_MINUTES = 30 * 24 * 60;
+
+/** Versions returned with each watch; GET /api/watches/:id returns them all. */
+const LISTED_VERSIONS = 20;
+
+export type WatchVersion = {
+  id: number;
+  summary_id: number | null;
+  /** Title of the version's summary; null once that summary was deleted. */
+  title: string | null;
+  content_hash: string | null;
+  /** What changed since the previous version; null for the first one. */
+  changes: string[] | null;
+  added_lines: number;
+  removed_lines: number;
+  created_at: string;
+};
+
+export type Watch = {
+  id: string;
+  url: string;
+  canonical_url: string;
+  workspace_id: string | null;
+  options: SummaryOptions;
+  interval_minutes: number;
+  /** Summary of the latest version. */
+  summary_id: number | null;
+  last_checked_at: string | null;
+  next_check_at: string;
+  /** Error of the last check, cleared by the next successful one. */
+  last_error: ErrorBody | null;
+  created_at: string;
+  /** Newest first. */
+  versions: WatchVersion[];
+};
+
+/** Row of the watches table, as claimed by the scheduler. */
+export type WatchRow = Omit<Watch, "versions"> & { user_id: string; content_hash: string | null };
+
+type VersionRow = Omit<WatchVersion, "title"> & { summaries: { title: string } | null };
+
+type WatchWithVersionsRow = WatchRow & { summary_versions: VersionRow[] };
+
+const WATCH_COLUMNS =
+  "id, user_id, url, canonical_url, workspace_id, options, interval_minutes, summary_id, content_hash, last_checked_at, next_check_at, last_error, created_at";
+const VERSION_COLUMNS = "id, summary_id, content_hash, changes, added_lines, removed_lines, created_at, summaries (title)";
+
+function toWatch(row: WatchWithVersionsRow): Watch {
+  return {
+    id: row.id,
+    url: row.url,
+    canonical_url: row.canonical_url,
+    workspace_id: row.workspace_id,
+    options: row.options,
+    interval_minutes: row.interval_minutes,
+    summary_id: row.summary_id,
+    last_checked_at: row.last_checked_at,
+    next_check_at: row.next_check_at,
+    last_error: row.last_error,
+    created_at: row.created_at,
+    versions: (row.summary_versions ?? [])
+      .map(({ summaries, ...version }) => ({ ...version, title: summaries?.title ?? null }))
+      .sort((a, b) => b.id - a.id),
+  };
+}
+
+/** Validates `interval_minutes` from a request body. */
+export function parseWatchInterval(input: unknown): number {
+  if (
+    !Number.isInteger(input) ||
+    (input as number) < MIN_WATCH_INTERVAL_MINUTES ||
+    (input as number) > MAX_WATCH_INTERVAL_MINUTES
+  ) {
+    throw new AppError("INVALID_REQUEST", {
+      message: `Paramètre interval_minutes invalide (entier de ${MIN_WATCH_INTERVAL_MINUTES} à ${MAX_WATCH_INTERVAL_MINUTES})`,
+    });
+  }
+  return input as number;
+}
+
+function nextCheck(intervalMinutes: number, from = Date.now()): string {
+  return new Date(from + intervalMinutes * 60_000).toISOString();
+}
+
+/** The caller's watches, newest first, each with its latest versions. */
+export async function listWatches(session: Session): Promise<Watch[]> {
+  const { data, error } = await session.db
+    .from("watches")
+    .select(`${WATCH_COLUMNS}, summary_versions (${VERSION_COLUMNS})`)
+    .eq("user_id", session.user.id)
+    .order("created_at", { ascending: false })
+    .order("id", { referencedTable: "summary_versions", ascending: false })
+    .limit(LISTED_VERSIONS, { referencedTable: "summary_versions" });
+  if (error) throw new AppError("PERSISTENCE_FAILED", { cause: error });
+  return ((data ?? []) as unknown as WatchWithVersionsRow[]).map(toWatch);
+}
+
+/** Watches are only visible to the user who created them. */
+export async function getWatch(session: Session, id: string): Promise<Watch> {
+  const { data, error } = await session.db
+    .from("watches")
+    .select(`${WATCH_COLUMNS}, summary_versions (${VERSION_COLUMNS})`)
+    .eq("id", id)
+    .maybeSingle();
+  if (error) throw new AppError("PERSISTENCE_FAILED", { cause: error });
+  if (!data) throw new AppError("NOT_FOUND");
+  return toWatch(data as unknown as WatchWithVersionsRow);
+}
+
+/**
+ * Watches the page of a summary, which becomes the first version. A page
+ * already watched by the caller keeps its versions and only gets the new interval.
+ */
+export async function createWatch(
+  session: Session,
+  summaryId: number,
+  intervalMinutes: number
+): Promise<{ watch: Watch; created: boolean }> {
+  requireSupabaseSummaries("Le suivi des pages");
+  const row = await getSummaryStore().get(session, summaryId);
+  if (!row) throw new AppError("NOT_FOUND");
+  const summary = toSummaryResponse(row);
+  if (summary.source_type !== "url" || !row.original_url) {
+    throw new AppError("INVALID_REQUEST", { message: "Seuls les résumés de pages web peuvent être suivis" });
+  }
+  const canonicalUrl = row.canonical_url ?? normalizeUrl(row.original_url);
+
+  const { data: existing, error: existingError } = await session.db
+    .from("watches")
+    .select("id")
+    .eq("user_id", session.user.id)
+    .eq("canonical_url", canonicalUrl)
+    .maybeSingle();
+  if (existingError) throw new AppError("PERSISTENCE_FAILED", { cause: existingError });
+  if (existing) return { watch: await updateWatch(session, existing.id, intervalMinutes), created: false };
+
+  const { data: watch, error: insertError } = await session.db
+    .from("watches")
+    .insert({
+      user_id: session.user.id,
+      workspace_id: summary.workspace_id,
+      url: row.original_url,
+      canonical_url: canonicalUrl,
+      options: summary.options,
+      interval_minutes: intervalMinutes,
+      summary_id: row.id,
+      content_hash: row.content_hash ?? null,
+      next_check_at: nextCheck(intervalMinutes),
+    })
+    .select("id")
+    .single();
+  if (insertError) throw new AppError("PERSISTENCE_FAILED", { cause: insertError });
+
+  const { error: versionError } = await session.db
+    .from("summary_versions")
+    .insert({ watch_id: watch.id, summary_id: row.id, content_hash: row.content_hash ?? null, created_at: row.created_at });
+  if (versionError) throw new AppError("PERSISTENCE_FAILED", { cause: versionError });
+  return { watch: await getWatch(session, watch.id), created: true };
+}
+
+/** Changes how often the page is checked; the next check is one interval from now. */
+export async function updateWatch(session: Session, id: string, intervalMinutes: number): Promise<Watch> {
+  const { data, error } = await session.db
+    .from("watches")
+    .update({ interval_minutes: intervalMinutes, next_check_at: nextCheck(intervalMinutes) })
+    .eq("id", id)
+    .select("id");
+  if (error) throw new AppError("PERSISTENCE_FAILED", { cause: error });
+  if (!data?.length) throw new AppError("NOT_FOUND");
+  return getWatch(session, id);
+}
+
+/** Stops watching; the summaries of every version stay in the history. */
+export async function deleteWatch(session: Session, id: string): Promise<void> {
+  const { data, error } = await session.db.from("watches").delete().eq("id", id).select("id");
+  if (error) throw new AppError("PERSISTENCE_FAILED", { cause: error });
+  if (!data?.length) throw new AppError("NOT_FOUND");
+}
+
+async function updateWatchRow(session: Session, id: string, update: Record<string, unknown>): Promise<void> {
+  const { error } = await session.db.from("watches").update(update).eq("id", id);
+  if (error) throw new AppError("PERSISTENCE_FAILED", { cause: error });
+}
+
+/** Points and extracted text of the latest version, to compare the new one with. */
+async function loadPreviousVersion(
+  session: Session,
+  summaryId: number | null
+): Promise<{ bullets: string[]; sourceText: string } | null> {
+  if (summaryId === null) return null;
+  const store = getSummaryStore();
+  const row = await store.get(session, summaryId);
+  if (!row) return null;
+  return { bullets: toSummaryResponse(row).bullets, sourceText: (await store.getSourceText(session, summaryId)) ?? "" };
+}
+
+export type WatchCheck = "unchanged" | "changed";
+
+/**
+ * Fetches the watched page again. When its extracted text changed, summarizes
+ * it anew, describes what changed since the previous version and records the
+ * new version. `session` must be the watch owner's.
+ */
+export async function checkWatch(session: Session, watch: WatchRow, provider?: LLMProvider): Promise<WatchCheck> {
+  const document = await scrapeDocument(watch.url);
+  const contentHash = hashContent(document.text);
+  const checkedAt = Date.now();
+  const checked = {
+    last_checked_at: new Date(checkedAt).toISOString(),
+    next_check_at: nextCheck(watch.interval_minutes, checkedAt),
+    last_error: null,
+  };
+  if (contentHash === watch.content_hash) {
+    await updateWatchRow(session, watch.id, checked);
+    return "unchanged";
+  }
+
+  const previous = await loadPreviousVersion(session, watch.summary_id);
+  const summary = await runSummarizePipeline(
+    { type: "url", url: watch.url },
+    { session, workspaceId: watch.workspace_id, summaryOptions: watch.options, force: true, provider, document }
+  );
+  const { added, removed } = diffLines(previous?.sourceText ?? "", document.text);
+  let changes: string[] = [];
+  try {
+    changes = await summarizeChanges(
+      { previousPoints: previous?.bullets ?? [], added, removed },
+      watch.options,
+      provider
+    );
+  } catch (e) {
+    // The new summary is stored already; the version is still worth recording.
+    console.warn(`[watches] description des changements de ${watch.url} impossible`, e);
+  }
+
+  const { error } = await session.db.from("summary_versions").insert({
+    watch_id: watch.id,
+    summary_id: summary.id,
+    content_hash: contentHash,
+    changes,
+    added_lines: added.length,
+    removed_lines: removed.length,
+  });
+  if (error) throw new AppError("PERSISTENCE_FAILED", { cause: error });
+  await updateWatchRow(session, watch.id, { ...checked, summary_id: summary.id, content_hash: contentHash });
+  await notifyWebhooks(watch.user_id, "watch.changed", {
+    watch_id: watch.id,
+    url: watch.url,
+    summary,
+    changes,
+    added_lines: added.length,
+    removed_lines: removed.length,
+  });
+  return "changed";
+}
+
+/** Keeps the error of a failed check and tries again one interval later. */
+export async function recordWatchFailure(session: Session, watch: WatchRow, error: AppError): Promise<void> {
+  const checkedAt = Date.now();
+  await updateWatchRow(session, watch.id, {
+    last_checked_at: new Date(checkedAt).toISOString(),
+    next_check_at: nextCheck(watch.interval_minutes, checkedAt),
+    last_error: error.toBody(),
+  });
+}
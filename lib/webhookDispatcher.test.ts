@@ -0,0 +1,183 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { WebhookFormat, WebhookPayload } from "@/lib/webhooks";
+
+// The receiver listens on loopback.
+process.env.FETCH_ALLOW_PRIVATE_NETWORK = "true";
+process.env.WEBHOOK_BACKOFF_SECONDS = "10";
+process.env.WEBHOOK_MAX_ATTEMPTS = "5";
+
+/** What the dispatcher reads from and writes to Supabase, kept in memory. */
+const admin = vi.hoisted(() => ({
+  deliveries: [] as { id: string; webhook_id: string; payload: unknown; attempts: number }[],
+  targets: [] as { id: string; url: string; format: string; secret: string; active: boolean }[],
+  updates: [] as Record<string, unknown>[],
+}));
+
+vi.mock("@/lib/supabaseAdmin", () => ({
+  getSupabaseAdmin: () => ({
+    rpc: async () => ({ data: admin.deliveries.splice(0), error: null }),
+    from: (table: string) =>
+      table === "webhooks"
+        ? { select: () => ({ in: async () => ({ data: admin.targets, error: null }) }) }
+        : {
+            update: (update: Record<string, unknown>) => ({
+              eq: async (_column: string, id: string) => {
+                admin.updates.push({ id, ...update });
+                return { error: null };
+              },
+            }),
+          },
+  }),
+}));
+
+const { dispatchDueWebhooks, webhookBackoffMs } = await import("./webhookDispatcher");
+
+const SECRET = "whsec_test";
+const NOW = new Date("2026-03-02T10:00:00.000Z");
+
+type Received = { headers: IncomingHttpHeaders; body: string };
+
+let receiver: Server;
+let receiverUrl: string;
+let received: Received[];
+let respond: { status: number; headers?: Record<string, string> };
+
+const payload: WebhookPayload = {
+  id: "evt-1",
+  event: "summary.completed",
+  created_at: NOW.toISOString(),
+  data: {
+    summary: {
+      id: 12,
+      url: "https://news.test/tramway?ligne=1&sens=nord|sud",
+      // A page title trying to end the link early and slip in its own.
+      title: "Le tramway <prolongé> | <https://evil.test|cliquez ici>",
+      bullets: ["Trois kilomètres de plus", "Travaux au printemps & pendant deux ans"],
+    },
+  },
+};
+
+function queue(format: WebhookFormat, attempts = 0): void {
+  admin.targets = [{ id: "wh-1", url: `${receiverUrl}/hook`, format, secret: SECRET, active: true }];
+  admin.deliveries = [{ id: "dl-1", webhook_id: "wh-1", payload, attempts }];
+}
+
+/** What a receiver does with the documented headers: recompute the HMAC of `${timestamp}.${body}`. */
+function verifySignature({ headers, body }: Received): boolean {
+  const timestamp = headers["x-webhook-timestamp"];
+  const signature = String(headers["x-webhook-signature"] ?? "").replace(/^sha256=/, "");
+  const expected = createHmac("sha256", SECRET).update(`${timestamp}.${body}`).digest("hex");
+  return signature.length === expected.length && timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
+
+beforeAll(async () => {
+  receiver = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body: Buffer.concat(chunks).toString("utf8") });
+      res.writeHead(respond.status, respond.headers).end();
+    });
+  });
+  await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+  receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => receiver.close(() => resolve())));
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  received = [];
+  respond = { status: 204 };
+  admin.updates = [];
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("dispatchDueWebhooks", () => {
+  it("signs the body so that the receiver can verify it", async () => {
+    queue("json");
+    expect(await dispatchDueWebhooks()).toBe(1);
+
+    expect(received).toHaveLength(1);
+    const [request] = received;
+    expect(request.headers["x-webhook-timestamp"]).toBe(String(NOW.getTime() / 1000));
+    expect(request.headers["x-webhook-event"]).toBe("summary.completed");
+    expect(request.headers["x-webhook-delivery"]).toBe("dl-1");
+    expect(verifySignature(request)).toBe(true);
+    expect(verifySignature({ ...request, body: request.body.replace("12", "13") })).toBe(false);
+    expect(JSON.parse(request.body)).toEqual(payload);
+    expect(admin.updates).toEqual([
+      expect.objectContaining({ id: "dl-1", status: "delivered", attempts: 1, last_status: 204, last_error: null }),
+    ]);
+  });
+
+  it("retries a 5xx after WEBHOOK_BACKOFF_SECONDS, doubled at each attempt, then gives up", async () => {
+    respond = { status: 503 };
+    for (let attempts = 0; attempts < 5; attempts++) {
+      queue("json", attempts);
+      await dispatchDueWebhooks();
+    }
+
+    expect(received).toHaveLength(5);
+    const retries = admin.updates.slice(0, 4);
+    expect(retries.map((update) => update.attempts)).toEqual([1, 2, 3, 4]);
+    expect(retries.map((update) => (Date.parse(String(update.next_attempt_at)) - NOW.getTime()) / 1000)).toEqual([
+      10, 20, 40, 80,
+    ]);
+    expect(retries.every((update) => update.status === undefined && update.last_status === 503)).toBe(true);
+    expect(admin.updates[4]).toMatchObject({ attempts: 5, status: "failed", last_error: "HTTP 503" });
+  });
+
+  it("waits as long as Retry-After asks, and does not retry a 4xx", async () => {
+    respond = { status: 429, headers: { "Retry-After": "120" } };
+    queue("json");
+    await dispatchDueWebhooks();
+    expect(Date.parse(String(admin.updates[0].next_attempt_at)) - NOW.getTime()).toBe(120_000);
+
+    respond = { status: 410 };
+    queue("json");
+    await dispatchDueWebhooks();
+    expect(admin.updates[1]).toMatchObject({ attempts: 1, status: "failed", last_status: 410 });
+  });
+
+  it("posts the Slack preset as an incoming-webhook message", async () => {
+    queue("slack");
+    await dispatchDueWebhooks();
+
+    const message = JSON.parse(received[0].body);
+    expect(verifySignature(received[0])).toBe(true);
+    expect(Object.keys(message).sort()).toEqual(["attachments", "text"]);
+    expect(message.text).toBe(
+      "Nouveau résumé : <https://news.test/tramway?ligne=1&amp;sens=nord%7Csud|" +
+        "Le tramway &lt;prolongé&gt; \u2223 &lt;https://evil.test\u2223cliquez ici&gt;>"
+    );
+    // Exactly one link, whose text holds no separator of its own.
+    expect(message.text.match(/<[^>]*>/g)).toHaveLength(1);
+    expect(message.text.split("|")).toHaveLength(2);
+    expect(message.attachments).toEqual([
+      {
+        fallback: "Le tramway <prolongé> | <https://evil.test|cliquez ici>",
+        title: "Le tramway &lt;prolongé&gt; | &lt;https://evil.test|cliquez ici&gt;",
+        title_link: "https://news.test/tramway?ligne=1&sens=nord|sud",
+        text: "• Trois kilomètres de plus\n• Travaux au printemps &amp; pendant deux ans",
+      },
+    ]);
+  });
+});
+
+describe("webhookBackoffMs", () => {
+  it("is capped at one hour", () => {
+    expect(webhookBackoffMs(1)).toBe(10_000);
+    expect(webhookBackoffMs(20)).toBe(3_600_000);
+    expect(webhookBackoffMs(1, 7200)).toBe(3_600_000);
+  });
+});
@@ -0,0 +1,165 @@
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { AppError } from "@/lib/errors";
+import { safeFetch, SafeFetchError } from "@/lib/safeFetch";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import { signWebhookPayload, toSlackMessage, type WebhookFormat, type WebhookPayload } from "@/lib/webhooks";
+
+/** A claimed delivery is left alone by other dispatchers for this long. */
+const CLAIM_LOCK_MS = 2 * 60 * 1000;
+/** Pause after the deliveries could not be read, e.g. when the service role is not configured. */
+const ERROR_PAUSE_MS = 30_000;
+const MAX_BACKOFF_SECONDS = 60 * 60;
+/** Response bodies are read, then ignored. */
+const MAX_RESPONSE_BYTES = 64 * 1024;
+
+type DeliveryRow = { id: string; webhook_id: string; payload: WebhookPayload; attempts: number };
+
+type WebhookTarget = { id: string; url: string; format: WebhookFormat; secret: string; active: boolean };
+
+type Attempt =
+  | { ok: true; status: number }
+  | { ok: false; status: number | null; error: string; retryable: boolean; retryAfterSeconds?: number };
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timeout);
+      resolve();
+    });
+  });
+}
+
+/** Wait before attempt `attempts + 1`: what the receiver asked for, or WEBHOOK_BACKOFF_SECONDS doubled at each attempt. */
+export function webhookBackoffMs(attempts: number, retryAfterSeconds?: number): number {
+  const backoff = envInt("WEBHOOK_BACKOFF_SECONDS", 10) * 2 ** Math.max(0, attempts - 1);
+  return Math.min(Math.max(backoff, retryAfterSeconds ?? 0), MAX_BACKOFF_SECONDS) * 1000;
+}
+
+async function claimDeliveries(limit: number): Promise<DeliveryRow[]> {
+  const { data, error } = await getSupabaseAdmin().rpc("claim_webhook_deliveries", {
+    p_limit: limit,
+    p_lock_ms: CLAIM_LOCK_MS,
+  });
+  if (error) throw new AppError("PERSISTENCE_FAILED", { message: "Webhooks indisponibles", cause: error });
+  return (data ?? []) as DeliveryRow[];
+}
+
+async function loadTargets(ids: string[]): Promise<Map<string, WebhookTarget>> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("webhooks")
+    .select("id, url, format, secret, active")
+    .in("id", [...new Set(ids)]);
+  if (error) throw new AppError("PERSISTENCE_FAILED", { message: "Webhooks indisponibles", cause: error });
+  return new Map(((data ?? []) as WebhookTarget[]).map((target) => [target.id, target]));
+}
+
+/** Posts one delivery. Only timeouts, network errors, 408, 429 and 5xx are worth another attempt. */
+async function send(target: WebhookTarget, delivery: DeliveryRow): Promise<Attempt> {
+  const body = JSON.stringify(target.format === "slack" ? toSlackMessage(delivery.payload) : delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    const res = await safeFetch(target.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "SmartWebSummarizer-Webhook/1.0",
+        "X-Webhook-Id": target.id,
+        "X-Webhook-Delivery": delivery.id,
+        "X-Webhook-Event": delivery.payload.event,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": `sha256=${signWebhookPayload(target.secret, timestamp, body)}`,
+      },
+      body,
+      timeoutMs: envInt("WEBHOOK_TIMEOUT_SECONDS", 10) * 1000,
+      maxBytes: MAX_RESPONSE_BYTES,
+    });
+    if (res.ok) return { ok: true, status: res.status };
+    const retryAfter = Number.parseInt(res.headers.get("retry-after") ?? "", 10);
+    return {
+      ok: false,
+      status: res.status,
+      error: `HTTP ${res.status}`,
+      retryable: res.status === 408 || res.status === 429 || res.status >= 500,
+      retryAfterSeconds: Number.isFinite(retryAfter) ? retryAfter : undefined,
+    };
+  } catch (e) {
+    const blocked = e instanceof SafeFetchError && (e.code === "BLOCKED_ADDRESS" || e.code === "INVALID_URL");
+    return { ok: false, status: null, error: e instanceof Error ? e.message : String(e), retryable: !blocked };
+  }
+}
+
+async function updateDelivery(id: string, update: Record<string, unknown>): Promise<void> {
+  const { error } = await getSupabaseAdmin()
+    .from("webhook_deliveries")
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq("id", id);
+  if (error) console.warn(`[webhooks] mise à jour de la livraison ${id} impossible`, error.message);
+}
+
+async function deliver(delivery: DeliveryRow, target: WebhookTarget | undefined): Promise<void> {
+  const attempts = delivery.attempts + 1;
+  if (!target?.active) {
+    await updateDelivery(delivery.id, { status: "failed", last_error: "Webhook désactivé" });
+    return;
+  }
+  const result = await send(target, delivery);
+  if (result.ok) {
+    await updateDelivery(delivery.id, { status: "delivered", attempts, last_status: result.status, last_error: null });
+    return;
+  }
+  const failure = { attempts, last_status: result.status, last_error: result.error };
+  if (result.retryable && attempts < envInt("WEBHOOK_MAX_ATTEMPTS", 5)) {
+    const nextAttempt = new Date(Date.now() + webhookBackoffMs(attempts, result.retryAfterSeconds));
+    console.warn(
+      `[webhooks] ${target.url}: tentative ${attempts} échouée (${result.error}), reprise à ${nextAttempt.toISOString()}`
+    );
+    await updateDelivery(delivery.id, { ...failure, next_attempt_at: nextAttempt.toISOString() });
+  } else {
+    console.warn(`[webhooks] ${target.url}: livraison ${delivery.id} abandonnée (${result.error})`);
+    await updateDelivery(delivery.id, { ...failure, status: "failed" });
+  }
+}
+
+/** Sends the deliveries that are due, WEBHOOK_CONCURRENCY at a time. Returns how many were attempted. */
+export async function dispatchDueWebhooks(): Promise<number> {
+  const concurrency = envInt("WEBHOOK_CONCURRENCY", 4);
+  const deliveries = await claimDeliveries(concurrency * 5);
+  if (deliveries.length === 0) return 0;
+  const targets = await loadTargets(deliveries.map((delivery) => delivery.webhook_id));
+  await mapWithConcurrency(deliveries, concurrency, (delivery) => deliver(delivery, targets.get(delivery.webhook_id)));
+  return deliveries.length;
+}
+
+/** Sends due deliveries every WEBHOOK_POLL_SECONDS until `signal` aborts. */
+export async function runWebhookDispatcher({
+  signal,
+  pollIntervalMs = envInt("WEBHOOK_POLL_SECONDS", 5) * 1000,
+}: { signal?: AbortSignal; pollIntervalMs?: number } = {}): Promise<void> {
+  while (!signal?.aborted) {
+    let sent: number;
+    try {
+      sent = await dispatchDueWebhooks();
+    } catch (e) {
+      console.error("[webhooks] livraisons indisponibles", e);
+      await sleep(ERROR_PAUSE_MS, signal);
+      continue;
+    }
+    // More deliveries may be due already; only wait once there are none.
+    if (sent === 0) await sleep(pollIntervalMs, signal);
+  }
+}
+
+let inProcessDispatcher: Promise<void> | null = null;
+
+/** Starts the dispatcher inside the Next.js server process, once. */
+export function startInProcessWebhookDispatcher(): void {
+  if (inProcessDispatcher) return;
+  console.info("[webhooks] envoi des webhooks démarré dans le serveur");
+  inProcessDispatcher = runWebhookDispatcher();
+}
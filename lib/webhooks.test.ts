@@ -0,0 +1,63 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { signWebhookPayload, toSlackMessage, type WebhookPayload } from "./webhooks";
+
+function summary(id: number) {
+  return { id, url: `https://news.test/${id}`, title: `Article ${id}`, bullets: [`Point ${id}`] };
+}
+
+function event(event: WebhookPayload["event"], data: Record<string, unknown>): WebhookPayload {
+  return { id: "evt-1", event, created_at: "2026-03-02T10:00:00.000Z", data };
+}
+
+describe("signWebhookPayload", () => {
+  it("is the hex HMAC-SHA256 of the timestamp, a dot and the body", () => {
+    const expected = createHmac("sha256", "whsec_test").update('1772445600.{"a":1}').digest("hex");
+    expect(signWebhookPayload("whsec_test", 1772445600, '{"a":1}')).toBe(expected);
+  });
+});
+
+describe("toSlackMessage", () => {
+  it("sums up a batch with one attachment per summary, ten at most", () => {
+    const items = Array.from({ length: 12 }, (_, i) => ({ url: `https://news.test/${i}`, summary: summary(i) }));
+    const message = toSlackMessage(
+      event("batch.completed", {
+        batch: {
+          source_url: "https://news.test/feed.xml",
+          counts: { total: 13, done: 12, failed: 1 },
+          items: [...items, { url: "https://news.test/broken", summary: null }],
+        },
+      })
+    );
+
+    expect(message.text).toBe(
+      "Lot terminé (<https://news.test/feed.xml|https://news.test/feed.xml>) : 12/13 pages résumées, 1 en échec"
+    );
+    expect(message.attachments).toHaveLength(10);
+    expect(message.attachments?.[0]).toEqual({
+      fallback: "Article 0",
+      title: "Article 0",
+      title_link: "https://news.test/0",
+      text: "• Point 0",
+    });
+  });
+
+  it("lists what changed on a watched page, or its points when nothing is listed", () => {
+    const changed = toSlackMessage(
+      event("watch.changed", { url: "https://news.test/1", summary: summary(1), changes: ["Nouveau chiffre"] })
+    );
+    expect(changed.text).toBe("Nouvelle version de <https://news.test/1|Article 1>");
+    expect(changed.attachments?.[0].text).toBe("• Nouveau chiffre");
+
+    const unchanged = toSlackMessage(
+      event("watch.changed", { url: "https://news.test/1", summary: summary(1), changes: [] })
+    );
+    expect(unchanged.attachments?.[0].text).toBe("• Point 1");
+  });
+
+  it("answers a ping with text only", () => {
+    expect(toSlackMessage(event("ping", { webhook_id: "wh-1" }))).toEqual({
+      text: "Webhook de test de Smart Web Summarizer : la configuration fonctionne.",
+    });
+  });
+});
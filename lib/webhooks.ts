@@ -0,0 +1,309 @@
+import { createHmac, randomBytes, randomUUID } from "node:crypto";
+import type { Session } from "@/lib/auth";
+import { AppError } from "@/lib/errors";
+import { assertPublicUrl } from "@/lib/safeFetch";
+import { toFetchError } from "@/lib/scrape";
+import type { SummaryResponse } from "@/lib/summaries";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+
+export const WEBHOOK_EVENTS = ["summary.completed", "batch.completed", "watch.changed"] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/** `json` posts the signed event as is; `slack` posts a Slack or Mattermost incoming-webhook message. */
+export const WEBHOOK_FORMATS = ["json", "slack"] as const;
+export type WebhookFormat = (typeof WEBHOOK_FORMATS)[number];
+
+export const MAX_WEBHOOKS_PER_USER = 20;
+
+/** Deliveries returned by GET /api/webhooks/:id. */
+const LISTED_DELIVERIES = 20;
+const SECRET_PREFIX = "whsec_";
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+export type WebhookDelivery = {
+  id: string;
+  event: WebhookEvent | "ping";
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** HTTP status of the last attempt; null when it got no response. */
+  last_status: number | null;
+  last_error: string | null;
+  next_attempt_at: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type Webhook = {
+  id: string;
+  url: string;
+  format: WebhookFormat;
+  events: WebhookEvent[];
+  active: boolean;
+  created_at: string;
+  /** Newest first; only filled by getWebhook. */
+  deliveries?: WebhookDelivery[];
+};
+
+/** Body of every delivery in the `json` format, and what the signature covers. */
+export type WebhookPayload = {
+  /** Same for every webhook notified of the event. */
+  id: string;
+  event: WebhookEvent | "ping";
+  created_at: string;
+  data: Record<string, unknown>;
+};
+
+const WEBHOOK_COLUMNS = "id, url, format, events, active, created_at";
+const DELIVERY_COLUMNS = "id, event, status, attempts, last_status, last_error, next_attempt_at, created_at, updated_at";
+
+type WebhookInput = { url?: unknown; format?: unknown; events?: unknown; active?: unknown };
+
+async function parseWebhookUrl(input: unknown): Promise<string> {
+  if (typeof input !== "string" || !input.trim()) {
+    throw new AppError("INVALID_REQUEST", { message: "Paramètre url manquant" });
+  }
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    throw new AppError("INVALID_URL");
+  }
+  try {
+    await assertPublicUrl(url);
+  } catch (e) {
+    throw toFetchError(e);
+  }
+  return url.toString();
+}
+
+function parseEvents(input: unknown): WebhookEvent[] {
+  if (
+    !Array.isArray(input) ||
+    input.length === 0 ||
+    input.some((event) => !WEBHOOK_EVENTS.includes(event as WebhookEvent))
+  ) {
+    throw new AppError("INVALID_REQUEST", {
+      message: `Paramètre events invalide (liste parmi ${WEBHOOK_EVENTS.join(", ")})`,
+    });
+  }
+  return [...new Set(input as WebhookEvent[])];
+}
+
+function parseFormat(input: unknown): WebhookFormat {
+  if (!WEBHOOK_FORMATS.includes(input as WebhookFormat)) {
+    throw new AppError("INVALID_REQUEST", { message: `Paramètre format invalide (${WEBHOOK_FORMATS.join(" ou ")})` });
+  }
+  return input as WebhookFormat;
+}
+
+export async function listWebhooks(session: Session): Promise<Webhook[]> {
+  const { data, error } = await session.db
+    .from("webhooks")
+    .select(WEBHOOK_COLUMNS)
+    .eq("user_id", session.user.id)
+    .order("created_at", { ascending: false });
+  if (error) throw new AppError("PERSISTENCE_FAILED", { cause: error });
+  return (data ?? []) as Webhook[];
+}
+
+/** Webhooks are only visible to the user who registered them. */
+export async function getWebhook(session: Session, id: string): Promise<Webhook> {
+  const { data, error } = await session.db
+    .from("webhooks")
+    .select(`${WEBHOOK_COLUMNS}, webhook_deliveries (${DELIVERY_COLUMNS})`)
+    .eq("id", id)
+    .order("created_at", { referencedTable: "webhook_deliveries", ascending: false })
+    .limit(LISTED_DELIVERIES, { referencedTable: "webhook_deliveries" })
+    .maybeSingle();
+  if (error) throw new AppError("PERSISTENCE_FAILED", { cause: error });
+  if (!data) throw new AppError("NOT_FOUND");
+  const { webhook_deliveries, ...webhook } = data as Webhook & { webhook_deliveries: WebhookDelivery[] };
+  return { ...webhook, deliveries: webhook_deliveries ?? [] };
+}
+
+/**
+ * Registers an endpoint notified of `events`. Returns the signing secret in
+ * clear, which is the only time the API shows it.
+ */
+export async function createWebhook(
+  session: Session,
+  input: WebhookInput
+): Promise<{ webhook: Webhook; secret: string }> {
+  const url = await parseWebhookUrl(input.url);
+  const format = input.format === undefined ? "json" : parseFormat(input.format);
+  const events = parseEvents(input.events);
+
+  const { count, error: countError } = await session.db
+    .from("webhooks")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", session.user.id);
+  if (countError) throw new AppError("PERSISTENCE_FAILED", { cause: countError });
+  if ((count ?? 0) >= MAX_WEBHOOKS_PER_USER) {
+    throw new AppError("INVALID_REQUEST", { message: `${MAX_WEBHOOKS_PER_USER} webhooks au maximum` });
+  }
+
+  const secret = `${SECRET_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const { data, error } = await session.db
+    .from("webhooks")
+    .insert({ user_id: session.user.id, url, format, events, secret })
+    .select(WEBHOOK_COLUMNS)
+    .single();
+  if (error) throw new AppError("PERSISTENCE_FAILED", { cause: error });
+  return { webhook: data as Webhook, secret };
+}
+
+/** Changes the URL, format, events or `active` of a webhook; omitted fields are kept. */
+export async function updateWebhook(session: Session, id: string, input: WebhookInput): Promise<Webhook> {
+  const update: Record<string, unknown> = {};
+  if (input.url !== undefined) update.url = await parseWebhookUrl(input.url);
+  if (input.format !== undefined) update.format = parseFormat(input.format);
+  if (input.events !== undefined) update.events = parseEvents(input.events);
+  if (input.active !== undefined) {
+    if (typeof input.active !== "boolean") {
+      throw new AppError("INVALID_REQUEST", { message: "Paramètre active invalide" });
+    }
+    update.active = input.active;
+  }
+  if (Object.keys(update).length === 0) {
+    throw new AppError("INVALID_REQUEST", { message: "Rien à modifier" });
+  }
+  const { data, error } = await session.db.from("webhooks").update(update).eq("id", id).select("id");
+  if (error) throw new AppError("PERSISTENCE_FAILED", { cause: error });
+  if (!data?.length) throw new AppError("NOT_FOUND");
+  return getWebhook(session, id);
+}
+
+/** Deletes the webhook with its pending deliveries. */
+export async function deleteWebhook(session: Session, id: string): Promise<void> {
+  const { data, error } = await session.db.from("webhooks").delete().eq("id", id).select("id");
+  if (error) throw new AppError("PERSISTENCE_FAILED", { cause: error });
+  if (!data?.length) throw new AppError("NOT_FOUND");
+}
+
+/** Hex HMAC-SHA256 of `${timestamp}.${body}`, sent as `X-Webhook-Signature: sha256=…`. */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+function newPayload(event: WebhookPayload["event"], data: Record<string, unknown>): WebhookPayload {
+  return { id: randomUUID(), event, created_at: new Date().toISOString(), data };
+}
+
+async function insertDeliveries(webhookIds: string[], payload: WebhookPayload): Promise<void> {
+  if (webhookIds.length === 0) return;
+  const { error } = await getSupabaseAdmin()
+    .from("webhook_deliveries")
+    .insert(webhookIds.map((webhook_id) => ({ webhook_id, event: payload.event, payload })));
+  if (error) throw new AppError("PERSISTENCE_FAILED", { cause: error });
+}
+
+/**
+ * Queues `event` for every active webhook of `userId` subscribed to it; the
+ * dispatcher delivers it. Never throws: a notification must not fail the work
+ * it reports on.
+ */
+export async function notifyWebhooks(userId: string, event: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+  // Deliveries are written with the service role; without it there are no webhooks.
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) return;
+  try {
+    const { data: webhooks, error } = await getSupabaseAdmin()
+      .from("webhooks")
+      .select("id")
+      .eq("user_id", userId)
+      .eq("active", true)
+      .contains("events", [event]);
+    if (error) throw new AppError("PERSISTENCE_FAILED", { cause: error });
+    await insertDeliveries(
+      (webhooks ?? []).map((webhook) => webhook.id as string),
+      newPayload(event, data)
+    );
+  } catch (e) {
+    console.warn(`[webhooks] notification ${event} impossible`, e);
+  }
+}
+
+/** Queues a `ping` event to check that the endpoint receives and verifies deliveries. */
+export async function pingWebhook(session: Session, id: string): Promise<void> {
+  const { data, error } = await session.db.from("webhooks").select("id").eq("id", id).maybeSingle();
+  if (error) throw new AppError("PERSISTENCE_FAILED", { cause: error });
+  if (!data) throw new AppError("NOT_FOUND");
+  await insertDeliveries([id], newPayload("ping", { webhook_id: id }));
+}
+
+// Slack and Mattermost incoming-webhook messages.
+
+type SlackAttachment = { fallback: string; title: string; title_link?: string; text: string };
+export type SlackMessage = { text: string; attachments?: SlackAttachment[] };
+
+/** Batch items shown in a Slack message; the JSON payload lists them all. */
+const SLACK_MAX_ITEMS = 10;
+
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * `<url|title>` link. Slack reads the URL up to the first `|` and the link up
+ * to the first `>`, so `&`, `<` and `>` become entities, and `|` becomes %7C
+ * in the URL and a look-alike in the title.
+ */
+function slackLink(url: string | null, title: string): string {
+  if (!url) return `*${escapeSlack(title)}*`;
+  return `<${escapeSlack(url.replace(/\|/g, "%7C"))}|${escapeSlack(title).replace(/\|/g, "\u2223")}>`;
+}
+
+function bulletList(points: string[]): string {
+  return points.map((point) => `• ${escapeSlack(point)}`).join("\n");
+}
+
+function summaryAttachment(summary: SummaryResponse, points = summary.bullets): SlackAttachment {
+  return {
+    fallback: summary.title,
+    title: escapeSlack(summary.title),
+    ...(summary.url ? { title_link: summary.url } : {}),
+    text: bulletList(points),
+  };
+}
+
+type BatchData = {
+  batch: {
+    source_url: string | null;
+    counts: { total: number; done: number; failed: number };
+    items: { url: string; summary: SummaryResponse | null }[];
+  };
+};
+
+type WatchData = { url: string; summary: SummaryResponse; changes: string[] };
+
+/** The event as a message with the title, points and source link of each summary. */
+export function toSlackMessage(payload: WebhookPayload): SlackMessage {
+  switch (payload.event) {
+    case "summary.completed": {
+      const { summary } = payload.data as { summary: SummaryResponse };
+      return {
+        text: `Nouveau résumé : ${slackLink(summary.url, summary.title)}`,
+        attachments: [summaryAttachment(summary)],
+      };
+    }
+    case "batch.completed": {
+      const { batch } = payload.data as BatchData;
+      const summaries = batch.items.flatMap((item) => (item.summary ? [item.summary] : []));
+      const source = batch.source_url ? ` (${slackLink(batch.source_url, batch.source_url)})` : "";
+      const failed = batch.counts.failed ? `, ${batch.counts.failed} en échec` : "";
+      return {
+        text: `Lot terminé${source} : ${batch.counts.done}/${batch.counts.total} pages résumées${failed}`,
+        attachments: summaries.slice(0, SLACK_MAX_ITEMS).map((summary) => summaryAttachment(summary)),
+      };
+    }
+    case "watch.changed": {
+      const { url, summary, changes } = payload.data as WatchData;
+      return {
+        text: `Nouvelle version de ${slackLink(url, summary.title)}`,
+        attachments: [summaryAttachment(summary, changes.length ? changes : summary.bullets)],
+      };
+    }
+    case "ping":
+      return { text: "Webhook de test de Smart Web Summarizer : la configuration fonctionne." };
+  }
+}
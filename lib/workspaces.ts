@@ -0,0 +1,67 @@
+import type { Session } from "@/lib/auth";
+import { AppError } from "@/lib/errors";
+import { isUuid } from "@/lib/ids";
+
+export type WorkspaceRole = "owner" | "member";
+
+export type Workspace = {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  created_at: string;
+};
+
+type MembershipRow = {
+  role: WorkspaceRole;
+  workspaces: { id: string; name: string; created_at: string } | null;
+};
+
+/** Workspaces the user belongs to, oldest first. */
+export async function listWorkspaces(session: Session): Promise<Workspace[]> {
+  const { data, error } = await session.db
+    .from("workspace_members")
+    .select("role, workspaces (id, name, created_at)")
+    .eq("user_id", session.user.id);
+  if (error) throw new AppError("PERSISTENCE_FAILED", { cause: error });
+  return ((data ?? []) as unknown as MembershipRow[])
+    .filter((row) => row.workspaces)
+    .map((row) => ({ ...row.workspaces!, role: row.role }))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/** Creates a workspace owned by the user (create_workspace, migration 0007). */
+export async function createWorkspace(session: Session, name: string): Promise<Workspace> {
+  const { data, error } = await session.db
+    .rpc("create_workspace", { p_name: name })
+    .single<{ id: string; name: string; created_at: string }>();
+  if (error || !data) throw new AppError("PERSISTENCE_FAILED", { cause: error });
+  return { ...data, role: "owner" };
+}
+
+/** Only owners may add members; anyone else gets FORBIDDEN. */
+export async function addWorkspaceMember(session: Session, workspaceId: string, userId: string): Promise<void> {
+  const { error } = await session.db
+    .from("workspace_members")
+    .upsert({ workspace_id: workspaceId, user_id: userId, role: "member" }, { ignoreDuplicates: true });
+  if (!error) return;
+  // 42501: insufficient_privilege, raised when the row level security check fails.
+  if (error.code === "42501") throw new AppError("FORBIDDEN", { cause: error });
+  throw new AppError("PERSISTENCE_FAILED", { cause: error });
+}
+
+export async function isWorkspaceMember(session: Session, workspaceId: string): Promise<boolean> {
+  if (!isUuid(workspaceId)) return false;
+  const { data, error } = await session.db
+    .from("workspace_members")
+    .select("workspace_id")
+    .eq("workspace_id", workspaceId)
+    .eq("user_id", session.user.id)
+    .maybeSingle();
+  if (error) throw new AppError("PERSISTENCE_FAILED", { cause: error });
+  return Boolean(data);
+}
+
+/** Throws FORBIDDEN unless the user belongs to the workspace. */
+export async function assertWorkspaceMember(session: Session, workspaceId: string): Promise<void> {
+  if (!(await isWorkspaceMember(session, workspaceId))) throw new AppError("FORBIDDEN");
+}
@@ -0,0 +1,33 @@
+import { existsSync } from "node:fs";
+import { checkStoreConfiguration } from "@/lib/jobs";
+import { runWorker } from "@/lib/jobs/worker";
+import { runWatchScheduler } from "@/lib/watchScheduler";
+import { runWebhookDispatcher } from "@/lib/webhookDispatcher";
+
+// Same files as Next.js, the first one winning: variables already set are kept.
+for (const file of [".env.local", ".env"]) {
+  if (existsSync(file)) process.loadEnvFile(file);
+}
+
+checkStoreConfiguration();
+
+const controller = new AbortController();
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    console.info("[jobs] arrêt demandé, fin des travaux en cours…");
+    controller.abort();
+  });
+}
+
+console.info("[jobs] worker, planificateur des pages suivies et envoi des webhooks démarrés");
+Promise.all([
+  runWorker({ signal: controller.signal }),
+  runWatchScheduler({ signal: controller.signal }),
+  runWebhookDispatcher({ signal: controller.signal }),
+]).then(
+  () => process.exit(0),
+  (e) => {
+    console.error("[jobs] worker arrêté", e);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,20 @@
+-- Baseline: the summaries table as used by POST /api/summarize.
+create table if not exists public.summaries (
+  id bigint generated by default as identity primary key,
+  original_url text not null,
+  title text not null,
+  -- JSON-encoded { summary_points, ... }
+  summary text not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.summaries enable row level security;
+
+-- The route writes with the anon key.
+drop policy if exists "anon can insert summaries" on public.summaries;
+create policy "anon can insert summaries" on public.summaries
+  for insert to anon with check (true);
+
+drop policy if exists "anon can read summaries" on public.summaries;
+create policy "anon can read summaries" on public.summaries
+  for select to anon using (true);
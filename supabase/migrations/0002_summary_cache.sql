@@ -0,0 +1,7 @@
+-- Cache key for POST /api/summarize: normalized canonical URL + hash of the extracted text.
+alter table public.summaries
+  add column if not exists canonical_url text,
+  add column if not exists content_hash text;
+
+create index if not exists summaries_cache_lookup_idx
+  on public.summaries (canonical_url, content_hash, created_at desc);
@@ -0,0 +1,10 @@
+-- Summaries of the same page in different formats (mode, bullets, language, tone) are cached separately.
+alter table public.summaries
+  add column if not exists options_key text;
+
+-- Rows written before options existed used the default format.
+update public.summaries set options_key = 'bullets:3:fr:neutral' where options_key is null;
+
+drop index if exists summaries_cache_lookup_idx;
+create index if not exists summaries_cache_lookup_idx
+  on public.summaries (canonical_url, content_hash, options_key, created_at desc);
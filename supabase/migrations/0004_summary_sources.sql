@@ -0,0 +1,9 @@
+-- Summaries can come from pasted text or uploaded files, which have no URL.
+alter table public.summaries
+  alter column original_url drop not null,
+  add column if not exists source_type text not null default 'url',
+  add column if not exists source_name text;
+
+alter table public.summaries
+  drop constraint if exists summaries_source_type_check,
+  add constraint summaries_source_type_check check (source_type in ('url', 'text', 'file'));
@@ -0,0 +1,61 @@
+-- API keys for programmatic clients, their daily LLM token usage, and shared
+-- rate-limit counters. Only the service role reads or writes these tables.
+create table if not exists public.api_keys (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  prefix text not null,
+  -- sha256 of the key; the key itself is never stored.
+  key_hash text not null unique,
+  rate_limit integer check (rate_limit > 0),
+  daily_token_quota bigint check (daily_token_quota > 0),
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz
+);
+
+create table if not exists public.api_key_usage (
+  api_key_id uuid not null references public.api_keys (id) on delete cascade,
+  day date not null,
+  tokens bigint not null default 0,
+  primary key (api_key_id, day)
+);
+
+create table if not exists public.rate_limits (
+  key text primary key,
+  window_start timestamptz not null,
+  count integer not null
+);
+
+alter table public.api_keys enable row level security;
+alter table public.api_key_usage enable row level security;
+alter table public.rate_limits enable row level security;
+
+create or replace function public.record_api_key_usage(p_api_key_id uuid, p_day date, p_tokens bigint)
+returns void
+language sql
+as $$
+  insert into public.api_key_usage (api_key_id, day, tokens)
+  values (p_api_key_id, p_day, p_tokens)
+  on conflict (api_key_id, day) do update set tokens = api_key_usage.tokens + excluded.tokens;
+$$;
+
+-- Counts one request in a fixed window and returns the count and when the window ends.
+create or replace function public.rate_limit_hit(p_key text, p_window_ms integer)
+returns table (count integer, reset_at timestamptz)
+language sql
+as $$
+  insert into public.rate_limits as r (key, window_start, count)
+  values (p_key, now(), 1)
+  on conflict (key) do update set
+    window_start = case
+      when r.window_start + make_interval(secs => p_window_ms / 1000.0) <= now() then now()
+      else r.window_start
+    end,
+    count = case
+      when r.window_start + make_interval(secs => p_window_ms / 1000.0) <= now() then 1
+      else r.count + 1
+    end
+  returning r.count, r.window_start + make_interval(secs => p_window_ms / 1000.0);
+$$;
+
+revoke all on function public.record_api_key_usage(uuid, date, bigint) from public, anon, authenticated;
+revoke all on function public.rate_limit_hit(text, integer) from public, anon, authenticated;
@@ -0,0 +1,19 @@
+-- History API: filter by site and paginate newest first.
+alter table public.summaries
+  add column if not exists domain text
+    generated always as (lower(substring(original_url from '^[a-zA-Z]+://(?:www\.)?([^/:?#]+)'))) stored;
+
+create index if not exists summaries_domain_id_idx on public.summaries (domain, id desc);
+create index if not exists summaries_created_at_idx on public.summaries (created_at);
+
+-- Summaries can be renamed and deleted from the history, by their owner only.
+-- Rows without an owner cannot be changed; 0007 adds ownership to the other policies.
+alter table public.summaries add column if not exists user_id uuid;
+
+drop policy if exists "users update own summaries" on public.summaries;
+create policy "users update own summaries" on public.summaries
+  for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+drop policy if exists "users delete own summaries" on public.summaries;
+create policy "users delete own summaries" on public.summaries
+  for delete to authenticated using (user_id = auth.uid());
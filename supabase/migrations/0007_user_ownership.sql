@@ -0,0 +1,129 @@
+-- Summaries belong to the user who created them and are private by default.
+-- A user may share a summary with a team workspace they belong to.
+create table if not exists public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_by uuid not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.workspace_members (
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  -- auth.users(id), or a local development user; deliberately not a foreign key.
+  user_id uuid not null,
+  role text not null default 'member' check (role in ('owner', 'member')),
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create index if not exists workspace_members_user_idx on public.workspace_members (user_id);
+
+alter table public.summaries
+  add column if not exists user_id uuid,
+  add column if not exists workspace_id uuid references public.workspaces (id) on delete set null;
+
+create index if not exists summaries_user_id_idx on public.summaries (user_id, id desc);
+create index if not exists summaries_workspace_id_idx on public.summaries (workspace_id, id desc);
+
+-- API keys act as the user who owns them.
+alter table public.api_keys add column if not exists user_id uuid;
+
+-- Membership checks run as definer so that policies on workspace_members do
+-- not recurse into themselves.
+create or replace function public.is_workspace_member(p_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.workspace_members
+    where workspace_id = p_workspace_id and user_id = auth.uid()
+  );
+$$;
+
+create or replace function public.is_workspace_owner(p_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.workspace_members
+    where workspace_id = p_workspace_id and user_id = auth.uid() and role = 'owner'
+  );
+$$;
+
+-- Creates a workspace and makes the caller its owner in one step.
+create or replace function public.create_workspace(p_name text)
+returns setof public.workspaces
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  created public.workspaces;
+begin
+  if auth.uid() is null then
+    raise exception 'not signed in' using errcode = '42501';
+  end if;
+  insert into public.workspaces (name, created_by) values (p_name, auth.uid()) returning * into created;
+  insert into public.workspace_members (workspace_id, user_id, role) values (created.id, auth.uid(), 'owner');
+  return next created;
+end;
+$$;
+
+revoke all on function public.create_workspace(text) from public, anon;
+grant execute on function public.create_workspace(text) to authenticated;
+
+-- Rows written before this migration have no owner and are no longer visible.
+drop policy if exists "anon can insert summaries" on public.summaries;
+drop policy if exists "anon can read summaries" on public.summaries;
+drop policy if exists "anon can update summaries" on public.summaries;
+drop policy if exists "anon can delete summaries" on public.summaries;
+
+drop policy if exists "users read own and workspace summaries" on public.summaries;
+create policy "users read own and workspace summaries" on public.summaries
+  for select to authenticated
+  using (user_id = auth.uid() or (workspace_id is not null and public.is_workspace_member(workspace_id)));
+
+drop policy if exists "users insert own summaries" on public.summaries;
+create policy "users insert own summaries" on public.summaries
+  for insert to authenticated
+  with check (user_id = auth.uid() and (workspace_id is null or public.is_workspace_member(workspace_id)));
+
+drop policy if exists "users update own summaries" on public.summaries;
+create policy "users update own summaries" on public.summaries
+  for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid() and (workspace_id is null or public.is_workspace_member(workspace_id)));
+
+drop policy if exists "users delete own summaries" on public.summaries;
+create policy "users delete own summaries" on public.summaries
+  for delete to authenticated
+  using (user_id = auth.uid());
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+
+drop policy if exists "members read workspaces" on public.workspaces;
+create policy "members read workspaces" on public.workspaces
+  for select to authenticated
+  using (public.is_workspace_member(id));
+
+drop policy if exists "members read memberships" on public.workspace_members;
+create policy "members read memberships" on public.workspace_members
+  for select to authenticated
+  using (public.is_workspace_member(workspace_id));
+
+drop policy if exists "owners add members" on public.workspace_members;
+create policy "owners add members" on public.workspace_members
+  for insert to authenticated
+  with check (public.is_workspace_owner(workspace_id) and role = 'member');
+
+drop policy if exists "owners remove members, members leave" on public.workspace_members;
+create policy "owners remove members, members leave" on public.workspace_members
+  for delete to authenticated
+  using (public.is_workspace_owner(workspace_id) or user_id = auth.uid());
@@ -0,0 +1,110 @@
+-- Search over saved summaries: weighted full-text search on the title, key
+-- points, source and extracted text, plus optional semantic search on an
+-- embedding of the summary.
+create extension if not exists vector with schema extensions;
+
+-- Extracted text of the source, kept for search.
+alter table public.summaries add column if not exists source_text text;
+
+-- Size must match EMBEDDING_DIMENSIONS (1024 for mistral-embed).
+alter table public.summaries add column if not exists embedding extensions.vector(1024);
+
+-- Key points of a JSON-encoded summary as plain text.
+create or replace function public.summary_points_text(p_summary text)
+returns text
+language sql
+immutable
+as $$
+  select coalesce(string_agg(point, ' · '), '')
+  from jsonb_array_elements_text(
+    case when jsonb_typeof(p_summary::jsonb -> 'summary_points') = 'array'
+      then p_summary::jsonb -> 'summary_points'
+      else '[]'::jsonb
+    end
+  ) as point;
+$$;
+
+-- 'simple' rather than a language configuration: summaries and sources come in
+-- several languages.
+alter table public.summaries
+  add column if not exists search_vector tsvector generated always as (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', public.summary_points_text(summary)), 'B') ||
+    setweight(to_tsvector('simple', coalesce(original_url, '') || ' ' || coalesce(source_name, '')), 'C') ||
+    setweight(to_tsvector('simple', coalesce(source_text, '')), 'D')
+  ) stored;
+
+create index if not exists summaries_search_vector_idx on public.summaries using gin (search_vector);
+create index if not exists summaries_embedding_idx on public.summaries
+  using hnsw (embedding extensions.vector_cosine_ops);
+
+-- Ranks the caller's summaries, or a workspace's, by keyword relevance,
+-- semantic similarity, or both added together. Both scores are in [0, 1].
+-- Runs as the caller, so row level security still applies.
+create or replace function public.search_summaries(
+  p_query text,
+  p_user_id uuid,
+  p_workspace_id uuid default null,
+  p_keyword boolean default true,
+  p_embedding extensions.vector(1024) default null,
+  p_min_similarity double precision default 0.3,
+  p_limit integer default 20
+)
+returns table (
+  id bigint,
+  original_url text,
+  title text,
+  summary text,
+  created_at timestamptz,
+  source_type text,
+  source_name text,
+  user_id uuid,
+  workspace_id uuid,
+  score double precision,
+  title_highlight text,
+  snippet text
+)
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  with query as (
+    select websearch_to_tsquery('simple', p_query) as tsq
+  ),
+  scored as (
+    select
+      s.*,
+      case when p_keyword then ts_rank_cd(s.search_vector, query.tsq, 32) else 0 end as keyword_score,
+      case when p_embedding is not null and s.embedding is not null
+        then 1 - (s.embedding <=> p_embedding) else 0 end as semantic_score
+    from public.summaries s, query
+    where (case when p_workspace_id is not null then s.workspace_id = p_workspace_id else s.user_id = p_user_id end)
+      and (
+        (p_keyword and s.search_vector @@ query.tsq)
+        or (p_embedding is not null and s.embedding is not null and 1 - (s.embedding <=> p_embedding) >= p_min_similarity)
+      )
+    order by keyword_score + semantic_score desc, s.id desc
+    limit least(greatest(p_limit, 1), 100)
+  )
+  select
+    scored.id,
+    scored.original_url,
+    scored.title,
+    scored.summary,
+    scored.created_at,
+    scored.source_type,
+    scored.source_name,
+    scored.user_id,
+    scored.workspace_id,
+    (scored.keyword_score + scored.semantic_score)::double precision as score,
+    ts_headline('simple', scored.title, query.tsq, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+    ts_headline(
+      'simple',
+      public.summary_points_text(scored.summary) || ' … ' || left(coalesce(scored.source_text, ''), 20000),
+      query.tsq,
+      'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10'
+    )
+  from scored, query
+  order by score desc, scored.id desc;
+$$;
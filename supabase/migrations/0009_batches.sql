@@ -0,0 +1,43 @@
+-- Batches: many URLs, or the articles of a feed or sitemap, summarized in one go.
+create table if not exists public.batches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  workspace_id uuid references public.workspaces (id) on delete set null,
+  source_type text not null check (source_type in ('urls', 'feed', 'sitemap')),
+  source_url text,
+  options jsonb not null default '{}'::jsonb,
+  force boolean not null default false,
+  status text not null default 'running' check (status in ('running', 'done')),
+  created_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create index if not exists batches_user_id_idx on public.batches (user_id, created_at desc);
+
+create table if not exists public.batch_items (
+  batch_id uuid not null references public.batches (id) on delete cascade,
+  position integer not null,
+  url text not null,
+  status text not null default 'queued' check (status in ('queued', 'running', 'done', 'failed')),
+  attempts integer not null default 0,
+  summary_id bigint references public.summaries (id) on delete set null,
+  -- ErrorBody of the last attempt, see lib/errors.ts
+  error jsonb,
+  updated_at timestamptz not null default now(),
+  primary key (batch_id, position)
+);
+
+alter table public.batches enable row level security;
+alter table public.batch_items enable row level security;
+
+drop policy if exists "users manage own batches" on public.batches;
+create policy "users manage own batches" on public.batches
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid() and (workspace_id is null or public.is_workspace_member(workspace_id)));
+
+drop policy if exists "users manage items of own batches" on public.batch_items;
+create policy "users manage items of own batches" on public.batch_items
+  for all to authenticated
+  using (exists (select 1 from public.batches b where b.id = batch_id and b.user_id = auth.uid()))
+  with check (exists (select 1 from public.batches b where b.id = batch_id and b.user_id = auth.uid()));
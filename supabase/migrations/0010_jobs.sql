@@ -0,0 +1,52 @@
+-- Background summary jobs, processed by the worker (lib/jobs/worker.ts).
+create table if not exists public.jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  api_key_id uuid references public.api_keys (id) on delete set null,
+  idempotency_key text,
+  status text not null default 'queued'
+    check (status in ('queued', 'fetching', 'summarizing', 'done', 'failed')),
+  -- JobInput, see lib/jobs/types.ts
+  input jsonb not null,
+  attempts integer not null default 0,
+  max_attempts integer not null,
+  run_at timestamptz not null default now(),
+  locked_by text,
+  locked_until timestamptz,
+  summary_id bigint references public.summaries (id) on delete set null,
+  -- ErrorBody of the last attempt, see lib/errors.ts
+  error jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists jobs_idempotency_idx on public.jobs (user_id, idempotency_key);
+create index if not exists jobs_due_idx on public.jobs (status, run_at);
+
+-- Only the service role reads and writes jobs.
+alter table public.jobs enable row level security;
+
+-- Takes the next due job, or one whose worker stopped before releasing it,
+-- and locks it for p_lock_ms. Concurrent workers never get the same job.
+create or replace function public.claim_job(p_worker text, p_lock_ms integer)
+returns setof public.jobs
+language sql
+as $$
+  update public.jobs j set
+    status = 'fetching',
+    attempts = j.attempts + 1,
+    locked_by = p_worker,
+    locked_until = now() + make_interval(secs => p_lock_ms / 1000.0),
+    updated_at = now()
+  where j.id = (
+    select id from public.jobs
+    where (status = 'queued' and run_at <= now())
+      or (status in ('fetching', 'summarizing') and locked_until <= now())
+    order by run_at
+    limit 1
+    for update skip locked
+  )
+  returning j.*;
+$$;
+
+revoke all on function public.claim_job(text, integer) from public, anon, authenticated;
@@ -0,0 +1,71 @@
+-- Watched pages: re-fetched on a schedule, re-summarized when their content changes.
+create table if not exists public.watches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  workspace_id uuid references public.workspaces (id) on delete set null,
+  url text not null,
+  canonical_url text not null,
+  options jsonb not null default '{}'::jsonb,
+  interval_minutes integer not null check (interval_minutes between 15 and 43200),
+  -- Latest version
+  summary_id bigint references public.summaries (id) on delete set null,
+  content_hash text,
+  next_check_at timestamptz not null,
+  last_checked_at timestamptz,
+  -- ErrorBody of the last failed check, see lib/errors.ts
+  last_error jsonb,
+  created_at timestamptz not null default now(),
+  unique (user_id, canonical_url)
+);
+
+create index if not exists watches_due_idx on public.watches (next_check_at);
+
+-- One row per version of a watched page, the first one being the summary the watch started from.
+create table if not exists public.summary_versions (
+  id bigint generated by default as identity primary key,
+  watch_id uuid not null references public.watches (id) on delete cascade,
+  summary_id bigint references public.summaries (id) on delete set null,
+  content_hash text,
+  -- "What changed" points; null for the first version
+  changes jsonb,
+  added_lines integer not null default 0,
+  removed_lines integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists summary_versions_watch_idx on public.summary_versions (watch_id, id desc);
+
+alter table public.watches enable row level security;
+alter table public.summary_versions enable row level security;
+
+drop policy if exists "users manage own watches" on public.watches;
+create policy "users manage own watches" on public.watches
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid() and (workspace_id is null or public.is_workspace_member(workspace_id)));
+
+drop policy if exists "users manage versions of own watches" on public.summary_versions;
+create policy "users manage versions of own watches" on public.summary_versions
+  for all to authenticated
+  using (exists (select 1 from public.watches w where w.id = watch_id and w.user_id = auth.uid()))
+  with check (exists (select 1 from public.watches w where w.id = watch_id and w.user_id = auth.uid()));
+
+-- Takes up to p_limit watches due for a check and pushes them back by p_lock_ms,
+-- so that concurrent schedulers do not check the same page twice.
+create or replace function public.claim_due_watches(p_limit integer, p_lock_ms integer)
+returns setof public.watches
+language sql
+as $$
+  update public.watches w set
+    next_check_at = now() + make_interval(secs => p_lock_ms / 1000.0)
+  where w.id in (
+    select id from public.watches
+    where next_check_at <= now()
+    order by next_check_at
+    limit p_limit
+    for update skip locked
+  )
+  returning w.*;
+$$;
+
+revoke all on function public.claim_due_watches(integer, integer) from public, anon, authenticated;
@@ -0,0 +1,67 @@
+-- Outbound webhooks, notified when summaries, batches and watched pages complete.
+create table if not exists public.webhooks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  url text not null,
+  format text not null default 'json' check (format in ('json', 'slack')),
+  events text[] not null,
+  -- Signs the payloads (HMAC-SHA256); shown once, when the webhook is created.
+  secret text not null,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists webhooks_user_id_idx on public.webhooks (user_id);
+
+create table if not exists public.webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  webhook_id uuid not null references public.webhooks (id) on delete cascade,
+  event text not null,
+  payload jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'delivered', 'failed')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  -- HTTP status and error message of the last attempt
+  last_status integer,
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists webhook_deliveries_due_idx on public.webhook_deliveries (status, next_attempt_at);
+create index if not exists webhook_deliveries_webhook_idx on public.webhook_deliveries (webhook_id, created_at desc);
+
+alter table public.webhooks enable row level security;
+alter table public.webhook_deliveries enable row level security;
+
+drop policy if exists "users manage own webhooks" on public.webhooks;
+create policy "users manage own webhooks" on public.webhooks
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Deliveries are written by the service role; owners may read them.
+drop policy if exists "users read deliveries of own webhooks" on public.webhook_deliveries;
+create policy "users read deliveries of own webhooks" on public.webhook_deliveries
+  for select to authenticated
+  using (exists (select 1 from public.webhooks w where w.id = webhook_id and w.user_id = auth.uid()));
+
+-- Takes up to p_limit deliveries due for an attempt and pushes them back by
+-- p_lock_ms, so that concurrent dispatchers do not send the same one twice.
+create or replace function public.claim_webhook_deliveries(p_limit integer, p_lock_ms integer)
+returns setof public.webhook_deliveries
+language sql
+as $$
+  update public.webhook_deliveries d set
+    next_attempt_at = now() + make_interval(secs => p_lock_ms / 1000.0)
+  where d.id in (
+    select id from public.webhook_deliveries
+    where status = 'pending' and next_attempt_at <= now()
+    order by next_attempt_at
+    limit p_limit
+    for update skip locked
+  )
+  returning d.*;
+$$;
+
+revoke all on function public.claim_webhook_deliveries(integer, integer) from public, anon, authenticated;
@@ -0,0 +1,5 @@
+-- Comparisons of several pages are stored as summaries without a URL; their
+-- sources are listed, with the ids of their own summaries, in the summary JSON.
+alter table public.summaries
+  drop constraint if exists summaries_source_type_check,
+  add constraint summaries_source_type_check check (source_type in ('url', 'text', 'file', 'comparison'));
@@ -0,0 +1,22 @@
+-- Follow-up questions about a summarized page, answered from its source_text.
+-- Each user only sees their own conversation, on summaries they can read.
+create table if not exists public.summary_questions (
+  id bigint generated by default as identity primary key,
+  summary_id bigint not null references public.summaries (id) on delete cascade,
+  user_id uuid not null,
+  question text not null,
+  answer text not null,
+  -- Passages quoted by the answer: [{ paragraph, quote }], see lib/citations.ts
+  citations jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists summary_questions_summary_idx on public.summary_questions (summary_id, user_id, id);
+
+alter table public.summary_questions enable row level security;
+
+drop policy if exists "users manage own questions" on public.summary_questions;
+create policy "users manage own questions" on public.summary_questions
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid() and exists (select 1 from public.summaries s where s.id = summary_id));